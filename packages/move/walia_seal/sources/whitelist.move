@@ -9,6 +9,10 @@
 ///
 /// Use cases that can be built on top of this: subscription based access to encrypted files.
 ///
+/// Members can also be added with an expiry timestamp (in ms, checked against sui::clock
+/// in seal_approve), e.g. to give an auditor read access for a few days without having
+/// to revoke it afterwards.
+///
 /// Similar patterns:
 /// - Whitelist with temporary privacy: same whitelist as below, but also store created_at: u64.
 ///   After a fixed TTL anyone can access the key, regardless of being on the whitelist.
@@ -16,13 +20,17 @@
 ///
 module walia_seal::whitelist;
 
+use sui::clock::Clock;
+use sui::dynamic_field as df;
 use sui::table::{Self, Table};
+use sui::vec_map::{Self, VecMap};
 use sui::vec_set::{Self, VecSet};
 
 const ENoAccess: u64 = 1;
 const EInvalidCap: u64 = 2;
 const EDuplicate: u64 = 3;
 const ENotInWhitelist: u64 = 4;
+const EInvalidExpiry: u64 = 5;
 
 public struct Whitelist has key {
         id: UID,
@@ -30,6 +38,10 @@ public struct Whitelist has key {
         address_keys: VecSet<address>, // Tracks addresses for iteration
 }
 
+// Dynamic field of the Whitelist holding the time-limited members and their expiry (ms).
+// A dynamic field keeps the Whitelist layout of already published versions.
+public struct TemporaryMembersKey() has copy, drop, store;
+
 public struct Cap has key, store {
     id: UID,
     wl_id: ID,
@@ -95,6 +107,49 @@ public fun get_addresses(wl: &Whitelist): vector<address> {
     vec_set::into_keys(wl.address_keys)
 }
 
+/// Grant an account access until expires_at_ms, or change the expiry of its grant.
+/// Permanent members already have access and are rejected.
+public fun add_temporary(wl: &mut Whitelist, cap: &Cap, account: address, expires_at_ms: u64, clock: &Clock) {
+    assert!(cap.wl_id == object::id(wl), EInvalidCap);
+    assert!(!wl.addresses.contains(account), EDuplicate);
+    assert!(expires_at_ms > clock.timestamp_ms(), EInvalidExpiry);
+    if (!df::exists_(&wl.id, TemporaryMembersKey())) {
+        df::add(&mut wl.id, TemporaryMembersKey(), vec_map::empty<address, u64>());
+    };
+    let members: &mut VecMap<address, u64> = df::borrow_mut(&mut wl.id, TemporaryMembersKey());
+    if (members.contains(&account)) {
+        *members.get_mut(&account) = expires_at_ms;
+    } else {
+        members.insert(account, expires_at_ms);
+    }
+}
+
+/// Remove a time-limited grant before it expires
+public fun remove_temporary(wl: &mut Whitelist, cap: &Cap, account: address) {
+    assert!(cap.wl_id == object::id(wl), EInvalidCap);
+    assert!(df::exists_(&wl.id, TemporaryMembersKey()), ENotInWhitelist);
+    let members: &mut VecMap<address, u64> = df::borrow_mut(&mut wl.id, TemporaryMembersKey());
+    assert!(members.contains(&account), ENotInWhitelist);
+    let (_, _) = members.remove(&account);
+}
+
+// Getter to return the time-limited members and their expiry, including expired ones
+public fun get_temporary_members(wl: &Whitelist): (vector<address>, vector<u64>) {
+    if (!df::exists_(&wl.id, TemporaryMembersKey())) {
+        return (vector[], vector[])
+    };
+    let members: &VecMap<address, u64> = df::borrow(&wl.id, TemporaryMembersKey());
+    (*members).into_keys_values()
+}
+
+fun has_temporary_access(wl: &Whitelist, account: address, now_ms: u64): bool {
+    if (!df::exists_(&wl.id, TemporaryMembersKey())) {
+        return false
+    };
+    let members: &VecMap<address, u64> = df::borrow(&wl.id, TemporaryMembersKey());
+    members.contains(&account) && now_ms < *members.get(&account)
+}
+
 // Burn a Cap object
 public fun burn_cap(cap: Cap) {
     let Cap { id, wl_id: _ } = cap;
@@ -113,9 +168,8 @@ public fun burn_walia_obj_cap(walia_obj_cap: WaliaObjCap) {
 /// key format: [pkg id][whitelist id][random nonce]
 /// (Alternative key format: [pkg id][creator address][random nonce] - see private_data.move)
 
-/// All whitelisted addresses can access all IDs with the prefix of the whitelist
-fun check_policy(caller: address, id: vector<u8>, wl: &Whitelist): bool {
-    // Check if the id has the right prefix
+/// Check if the id has the prefix of the whitelist
+fun has_prefix(id: &vector<u8>, wl: &Whitelist): bool {
     let prefix = wl.id.to_bytes();
     let mut i = 0;
     if (prefix.length() > id.length()) {
@@ -127,19 +181,32 @@ fun check_policy(caller: address, id: vector<u8>, wl: &Whitelist): bool {
         };
         i = i + 1;
     };
+    true
+}
 
-    // Check if user is in the whitelist
-    wl.addresses.contains(caller)
+/// All whitelisted addresses can access all IDs with the prefix of the whitelist,
+/// time-limited members only until their grant expires
+fun check_policy(caller: address, id: vector<u8>, wl: &Whitelist, now_ms: u64): bool {
+    has_prefix(&id, wl) && (wl.addresses.contains(caller) || has_temporary_access(wl, caller, now_ms))
 }
 
+/// Approves the permanent members, with the signature of the first published version
 entry fun seal_approve(id: vector<u8>, wl: &Whitelist, ctx: &TxContext) {
-    assert!(check_policy(ctx.sender(), id, wl), ENoAccess);
+    assert!(has_prefix(&id, wl) && wl.addresses.contains(ctx.sender()), ENoAccess);
+}
+
+/// Approves the permanent members and the time-limited members whose grant has not expired
+entry fun seal_approve_timed(id: vector<u8>, wl: &Whitelist, clock: &Clock, ctx: &TxContext) {
+    assert!(check_policy(ctx.sender(), id, wl, clock.timestamp_ms()), ENoAccess);
 }
 
 #[test_only]
 public fun destroy_for_testing(wl: Whitelist, cap: Cap) {
-    let Whitelist { id, addresses, .. } = wl;
+    let Whitelist { mut id, addresses, .. } = wl;
     addresses.drop();
+    if (df::exists_(&id, TemporaryMembersKey())) {
+        let _: VecMap<address, u64> = df::remove(&mut id, TemporaryMembersKey());
+    };
     object::delete(id);
     let Cap { id, .. } = cap;
     object::delete(id);
@@ -154,13 +221,71 @@ fun test_approve() {
     wl.add(&cap, @0x2);
 
     // Fail for invalid id
-    assert!(!check_policy(@0x2, b"123", &wl), 1);
+    assert!(!check_policy(@0x2, b"123", &wl, 0), 1);
     // Work for valid id, user 2 is in the whitelist
     let mut obj_id = object::id(&wl).to_bytes();
     obj_id.push_back(11);
-    assert!(check_policy(@0x2, obj_id, &wl), 1);
+    assert!(check_policy(@0x2, obj_id, &wl, 0), 1);
     // Fail for user 1
-    assert!(!check_policy(@0x1, obj_id, &wl), 1);
+    assert!(!check_policy(@0x1, obj_id, &wl, 0), 1);
+
+    destroy_for_testing(wl, cap);
+}
+
+#[test]
+fun test_temporary_access() {
+    let ctx = &mut tx_context::dummy();
+    let mut clock = sui::clock::create_for_testing(ctx);
+    clock.set_for_testing(1000);
+    let (cap, mut wl) = create_whitelist(ctx);
+    wl.add_temporary(&cap, @0x3, 2000, &clock);
+
+    let mut obj_id = object::id(&wl).to_bytes();
+    obj_id.push_back(11);
+    // Work until the grant expires
+    assert!(check_policy(@0x3, obj_id, &wl, 1999), 1);
+    assert!(!check_policy(@0x3, obj_id, &wl, 2000), 1);
+
+    // Extending the grant restores access, removing it revokes it
+    wl.add_temporary(&cap, @0x3, 3000, &clock);
+    assert!(check_policy(@0x3, obj_id, &wl, 2000), 1);
+    let (addresses, expiries) = wl.get_temporary_members();
+    assert!(addresses == vector[@0x3] && expiries == vector[3000], 1);
+    wl.remove_temporary(&cap, @0x3);
+    assert!(!check_policy(@0x3, obj_id, &wl, 2000), 1);
+
+    destroy_for_testing(wl, cap);
+    clock.destroy_for_testing();
+}
+
+#[test]
+#[expected_failure(abort_code = ENoAccess)]
+fun test_seal_approve_ignores_temporary_access() {
+    let ctx = &mut tx_context::dummy();
+    let mut clock = sui::clock::create_for_testing(ctx);
+    clock.set_for_testing(1000);
+    let (cap, mut wl) = create_whitelist(ctx);
+    wl.add_temporary(&cap, ctx.sender(), 2000, &clock);
+
+    let mut obj_id = object::id(&wl).to_bytes();
+    obj_id.push_back(11);
+    seal_approve_timed(obj_id, &wl, &clock, ctx);
+    // Only seal_approve_timed checks the grants
+    seal_approve(obj_id, &wl, ctx);
+
+    destroy_for_testing(wl, cap);
+    clock.destroy_for_testing();
+}
+
+#[test]
+#[expected_failure(abort_code = EInvalidExpiry)]
+fun test_temporary_access_in_the_past() {
+    let ctx = &mut tx_context::dummy();
+    let mut clock = sui::clock::create_for_testing(ctx);
+    clock.set_for_testing(1000);
+    let (cap, mut wl) = create_whitelist(ctx);
+    wl.add_temporary(&cap, @0x3, 1000, &clock);
 
     destroy_for_testing(wl, cap);
+    clock.destroy_for_testing();
 }
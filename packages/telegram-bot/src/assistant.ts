@@ -1,6 +1,9 @@
 import OpenAI from 'openai';
 import { WaliaMCPClient } from './mcp-client.js';
 
+// Files shown in a chat reply, which has to fit a Telegram message
+const LIST_LIMIT = 5;
+
 export interface UserConfig {
   userName: string;
   walletsDir: string;
@@ -140,22 +143,29 @@ Examples:
   }
 
   private async handleListFiles(userConfig: UserConfig): Promise<string> {
-    const blobs = await this.mcpClient.listBlobs({
+    const { blobs, total } = await this.mcpClient.listBlobs({
       ...userConfig,
-      includeExpired: false
+      includeExpired: false,
+      limit: LIST_LIMIT
     });
 
     if (blobs.length === 0) {
       return '📭 You don\'t have any files stored in Walrus yet. Use the store command to upload your first file!';
     }
 
-    let response = `📁 You have ${blobs.length} file${blobs.length > 1 ? 's' : ''} stored:\n\n`;
+    let response = `📁 You have ${total} file${total > 1 ? 's' : ''} stored:\n\n`;
     console.log('List command: blobs =', blobs);
     blobs.forEach((blob, index) => {
       response += `${index + 1}. 🆔 ${blob.blobId}\n`;
       response += `   📦 Object: ${blob.id}\n`;
       response += `   📅 Registered: Epoch ${blob.storage.startEpoch}\n`;
-      response += `   📅 Expires: Epoch ${blob.storage.endEpoch}\n`;
+      if (blob.isExpired) {
+        response += `   📅 Expires: Epoch ${blob.storage.endEpoch} (expired)\n`;
+      } else if (blob.expiresAt) {
+        response += `   📅 Expires: Epoch ${blob.storage.endEpoch} (${blob.endDate}, in ${blob.daysUntilExpiry} days)\n`;
+      } else {
+        response += `   📅 Expires: Epoch ${blob.storage.endEpoch}\n`;
+      }
       if (blob.attributes) {
         if (blob.attributes.original_name) {
           response += `   📝 Name: ${blob.attributes.original_name}\n`;
@@ -172,6 +182,9 @@ Examples:
       }
       response += `   🗑️ Deletable: ${blob.deletable ? 'Yes' : 'No'}\n\n`;
     });
+    if (total > blobs.length) {
+      response += `… and ${total - blobs.length} more, use /list to page through them all.`;
+    }
 
     return response;
   }
@@ -1,5 +1,5 @@
 import { Bot, Context, InputFile, session, SessionFlavor } from 'grammy';
-import { WaliaMCPClient } from './mcp-client.js';
+import { BlobListQuery, BlobSortKey, InsufficientBalanceError, WaliaMCPClient } from './mcp-client.js';
 import { WalrusAssistant } from './assistant.js';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -11,6 +11,12 @@ const mkdir = promisify(fs.mkdir);
 const writeFile = promisify(fs.writeFile);
 const access = promisify(fs.access);
 
+const MAX_FILE_NAME_LENGTH = 128;
+// Telegram rejects longer messages
+const TELEGRAM_MESSAGE_LIMIT = 4096;
+const LIST_PAGE_SIZE = 10;
+const LIST_SORT_KEYS: BlobSortKey[] = ['name', 'size', 'endEpoch', 'registeredEpoch'];
+
 export interface SessionData {
   userName: string;
   walletsDir: string;
@@ -80,7 +86,10 @@ export class WaliaTelegramBot {
         '/read - Read a file by blob ID\n' +
         '/attributes - Manage file attributes\n' +
         '/burn - Delete files from storage\n' +
+        '/renew - Keep files stored for longer\n' +
         '/send - Send files to other addresses\n' +
+        '/share - Share files with other addresses\n' +
+        '/revoke - Revoke shared access to files\n' +
         '/address - Get your wallet address\n' +
         '/balance - Check your wallet balance\n' +
         '/status - Show current configuration\n\n' +
@@ -96,17 +105,24 @@ export class WaliaTelegramBot {
         '/config - View current settings (all auto-configured)\n' +
         '/status - Show current settings\n' +
         '/address - Get your wallet address\n' +
-        '/balance - Check your wallet balance\n\n' +
+        '/balance - Check your wallet balance\n' +
+        '/pay <address> <amount> <SUI|WAL> [preview] - Send tokens to another address\n' +
+        '/cost <size> [days] - Quote the cost of storing a file, such as /cost 10MB 30\n\n' +
         '📁 File Operations:\n' +
         '/store - Store a file to Walrus\n' +
-        '/list - List your stored files\n' +
+        '/list [options] - List your stored files 10 at a time, such as /list name=*.pdf sort=size order=desc\n' +
+        '   Options: name=<glob> sort=name|size|endEpoch|registeredEpoch order=asc|desc min=<size> max=<size> expiring=<epochs> deletable=yes|no <attribute>=<value>\n' +
         '/read <blob_id> - Read a file\n\n' +
         '🏷️ Attributes:\n' +
         '/attributes <object_id> - View file attributes\n\n' +
         '🔥 File Management:\n' +
         '/burn <object_id1> [object_id2] ... - Delete specific files\n' +
         '/burn_expired - Delete all expired files\n' +
-        '/send <object_id> <address> - Send file to another address\n\n' +
+        '/renew <object_id> [epochs] [preview] - Keep a file stored for more epochs (5 by default)\n' +
+        '/send <object_id> <address> - Send file to another address\n' +
+        '/share <object_id> <address1> [address2] ... - Let addresses read a file you keep\n' +
+        '/sharefor <days> <object_id> <address1> [address2] ... - Let addresses read a file for a number of days\n' +
+        '/revoke <object_id> <address1> [address2] ... - Remove their access\n\n' +
         '💬 Natural Language:\n' +
         'Just type what you want to do! Examples:\n' +
         '• "Store my document with 10 epochs"\n' +
@@ -167,45 +183,71 @@ export class WaliaTelegramBot {
 
     // List command
     this.bot.command('list', async (ctx) => {
+      const args = ctx.message?.text?.split(' ').filter(arg => arg.length > 0).slice(1) || [];
+      const query = this.parseListOptions(args);
+      if (typeof query === 'string') {
+        await ctx.reply(
+          `❌ ${query}. Usage: /list [name=<glob>] [sort=name|size|endEpoch|registeredEpoch] [order=asc|desc] ` +
+          '[min=<size>] [max=<size>] [expiring=<epochs>] [deletable=yes|no] [<attribute>=<value>], such as /list name=*.pdf sort=size'
+        );
+        return;
+      }
+
       await ctx.reply('🔍 Fetching your stored files...');
       
       try {
-        const blobs = await this.mcpClient.listBlobs({
+        const page = await this.mcpClient.listBlobs({
           userName: ctx.session.userName,
           walletsDir: ctx.session.walletsDir,
-          environment: ctx.session.environment
+          environment: ctx.session.environment,
+          ...query,
+          limit: LIST_PAGE_SIZE
         });
+        const blobs = page.blobs;
 
         if (blobs.length === 0) {
-          await ctx.reply('📭 No files found in your storage.');
+          await ctx.reply(args.length > 0 ? '📭 No files match these options.' : '📭 No files found in your storage.');
           return;
         }
 
-        let message = `📁 Your stored files (${blobs.length}):\n\n`;
         console.log('List command: blobs =', blobs);
-        blobs.forEach((blob, index) => {
-          message += `${index + 1}. 🆔 ${blob.blobId}\n`;
-          message += `   📦 Object: ${blob.id}\n`;
-          message += `   📅 Registered: Epoch ${blob.storage.startEpoch}\n`;
-          message += `   📅 Expires: Epoch ${blob.storage.endEpoch}\n`;
+        const entries = blobs.map((blob, index) => {
+          let entry = `${index + 1}. 🆔 ${blob.blobId}\n`;
+          entry += `   📦 Object: ${blob.id}\n`;
+          entry += `   📅 Registered: Epoch ${blob.storage.startEpoch}\n`;
+          if (blob.isExpired) {
+            entry += `   📅 Expires: Epoch ${blob.storage.endEpoch} (expired)\n`;
+          } else if (blob.expiresAt) {
+            entry += `   📅 Expires: Epoch ${blob.storage.endEpoch} (${blob.endDate}, in ${blob.daysUntilExpiry} days)\n`;
+          } else {
+            entry += `   📅 Expires: Epoch ${blob.storage.endEpoch}\n`;
+          }
           if (blob.attributes) {
             if (blob.attributes.original_name) {
-              message += `   📝 Name: ${blob.attributes.original_name}\n`;
+              entry += `   📝 Name: ${blob.attributes.original_name}\n`;
             }
             if (blob.attributes.upload_timestamp) {
-              message += `   ⏰ Uploaded: ${blob.attributes.upload_timestamp}\n`;
+              entry += `   ⏰ Uploaded: ${blob.attributes.upload_timestamp}\n`;
             }
             if (blob.attributes.whitelistId) {
-              message += `   🟢 Whitelist ID: ${blob.attributes.whitelistId}\n`;
+              entry += `   🟢 Whitelist ID: ${blob.attributes.whitelistId}\n`;
             }
             if (blob.attributes.capId) {
-              message += `   🛡️ Cap ID: ${blob.attributes.capId}\n`;
+              entry += `   🛡️ Cap ID: ${blob.attributes.capId}\n`;
             }
           }
-          message += `   🗑️ Deletable: ${blob.deletable ? 'Yes' : 'No'}\n\n`;
+          entry += `   🗑️ Deletable: ${blob.deletable ? 'Yes' : 'No'}\n\n`;
+          return entry;
         });
 
-        await ctx.reply(message);
+        // The cursor of the next page replaces the one of this page
+        const nextPage = page.nextCursor
+          ? `➡️ Next page: /list ${[...args.filter(arg => !arg.startsWith('cursor=')), `cursor=${page.nextCursor}`].join(' ')}`
+          : '';
+        const header = `📁 Your stored files (${blobs.length} of ${page.total}):\n\n`;
+        for (const message of this.splitMessage([header, ...entries, nextPage])) {
+          await ctx.reply(message);
+        }
       } catch (error) {
         await ctx.reply(`❌ Error fetching files: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
@@ -357,9 +399,8 @@ export class WaliaTelegramBot {
           `💳 Your wallet balance:\n\n` +
           `🔹 SUI: ${balance.sui} tokens\n` +
           `🔹 WAL: ${balance.wal} tokens\n\n` +
-          `📋 To store files on Walrus, you need:\n` +
-          `• At least 0.5 SUI tokens\n` +
-          `• At least 0.5 WAL tokens\n\n` +
+          `📋 Storing a file costs WAL for its size and storage period, plus SUI for gas.\n` +
+          `If your balance is short, the bot tells you how much is missing.\n\n` +
           `💸 Use /address to get your wallet address for funding.`
         );
       } catch (error) {
@@ -367,6 +408,87 @@ export class WaliaTelegramBot {
       }
     });
 
+    // Pay command
+    this.bot.command('pay', async (ctx) => {
+      const args = ctx.message?.text?.split(' ').filter(arg => arg.length > 0).slice(1);
+      const token = args?.[2]?.toUpperCase();
+      
+      if (!args || args.length < 3 || args.length > 4 || (token !== 'SUI' && token !== 'WAL') || (args[3] && args[3] !== 'preview')) {
+        await ctx.reply('❌ Please provide the address, amount and token. Usage: /pay <address> <amount> <SUI|WAL> [preview]');
+        return;
+      }
+
+      const [recipient, amount] = args;
+      const dryRun = args[3] === 'preview';
+      await ctx.reply(dryRun ? `🔍 Simulating the payment of ${amount} ${token}...` : `💸 Sending ${amount} ${token}...`);
+
+      try {
+        const result = await this.mcpClient.transfer({
+          userName: ctx.session.userName,
+          walletsDir: ctx.session.walletsDir,
+          environment: ctx.session.environment,
+          recipient,
+          sui: token === 'SUI' ? amount : undefined,
+          wal: token === 'WAL' ? amount : undefined,
+          dryRun
+        });
+
+        const gas = Number(result.gasUsed) / 1_000_000_000;
+        await ctx.reply(
+          (dryRun ? `✅ The payment would succeed.\n\n` : `✅ Payment sent!\n\n`) +
+          `🎯 To: \`${result.recipient}\`\n` +
+          `🔹 Amount: ${amount} ${token}\n` +
+          `⛽ Gas: ${gas} SUI` +
+          (result.digest ? `\n🧾 Transaction: \`${result.digest}\`` : `\n\n💡 Send it without "preview" to pay.`)
+        );
+      } catch (error) {
+        await ctx.reply(`❌ Error sending payment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+
+    // Cost command
+    this.bot.command('cost', async (ctx) => {
+      const args = ctx.message?.text?.split(' ').filter(arg => arg.length > 0).slice(1);
+      const sizeBytes = args?.[0] !== undefined ? this.parseSize(args[0]) : undefined;
+      const days = args?.[1] !== undefined ? Number(args[1]) : undefined;
+
+      if (!args || sizeBytes === undefined || args.length > 2 || (days !== undefined && !(days > 0))) {
+        await ctx.reply('❌ Please provide the file size. Usage: /cost <size> [days], such as /cost 10MB 30');
+        return;
+      }
+
+      try {
+        // Without days, quote the 5 epochs that files sent to the bot are stored for
+        const result = await this.mcpClient.estimateCost({
+          userName: ctx.session.userName,
+          walletsDir: ctx.session.walletsDir,
+          environment: ctx.session.environment,
+          sizeBytes,
+          days,
+          epochs: days === undefined ? 5 : undefined
+        });
+
+        // The estimation error is unknown when the estimator falls back to its constants
+        const estimationError = result.estimationError;
+        const accuracy = estimationError?.meanRelativeError != null
+          ? `🎯 Estimation error: ±${(estimationError.meanRelativeError * 100).toFixed(2)}% ` +
+            `(fitted to ${estimationError.sampleCount} ${estimationError.source === 'samples' ? 'stored' : 'reference'} blobs)\n`
+          : '';
+
+        await ctx.reply(
+          `💰 Storage quote for ${args[0]}:\n\n` +
+          `🔹 Cost: ${result.estimatedCostInWal} WAL\n` +
+          `📆 Duration: ${result.numEpochs} epochs${days !== undefined ? ` (${days} days)` : ''}\n` +
+          `📦 Storage units: ${result.numStorageUnits}\n` +
+          accuracy +
+          `\n` +
+          `⛽ Storing also needs a little SUI for gas.`
+        );
+      } catch (error) {
+        await ctx.reply(`❌ Error estimating cost: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+
     // Burn command
     this.bot.command('burn', async (ctx) => {
       const args = ctx.message?.text?.split(' ').slice(1);
@@ -410,6 +532,41 @@ export class WaliaTelegramBot {
       }
     });
 
+    // Renew command
+    this.bot.command('renew', async (ctx) => {
+      const args = ctx.message?.text?.split(' ').filter(arg => arg.length > 0).slice(1);
+      const dryRun = args?.[args.length - 1] === 'preview';
+      const [objectId, epochsArg = '5'] = dryRun ? args!.slice(0, -1) : args || [];
+      const epochs = Number(epochsArg);
+
+      if (!objectId || !Number.isInteger(epochs) || epochs <= 0 || (args && args.length > (dryRun ? 3 : 2))) {
+        await ctx.reply('❌ Please provide the object ID of the file. Usage: /renew <object_id> [epochs] [preview]');
+        return;
+      }
+
+      await ctx.reply(dryRun ? `🔍 Quoting ${epochs} more epochs of storage...` : `⏳ Renewing the file for ${epochs} epochs...`);
+
+      try {
+        const result = await this.mcpClient.extendBlob({
+          userName: ctx.session.userName,
+          walletsDir: ctx.session.walletsDir,
+          environment: ctx.session.environment,
+          blobObjectId: objectId,
+          epochs,
+          dryRun
+        });
+
+        await ctx.reply(
+          (dryRun ? `💰 Renewal quote:\n\n` : `✅ File renewed!\n\n`) +
+          `📆 Expiry: epoch ${result.previousEndEpoch} → ${result.endEpoch}\n` +
+          `🔹 Cost: ${result.estimatedCostInWal} WAL` +
+          (dryRun ? `\n\n💡 Send it without "preview" to renew.` : '')
+        );
+      } catch (error) {
+        await ctx.reply(`❌ Error renewing file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+
     // Send command
     this.bot.command('send', async (ctx) => {
       const args = ctx.message?.text?.split(' ').slice(1);
@@ -436,6 +593,105 @@ export class WaliaTelegramBot {
         await ctx.reply(`❌ Error sending file: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     });
+
+    // Share command
+    this.bot.command('share', async (ctx) => {
+      const args = ctx.message?.text?.split(' ').filter(arg => arg.length > 0).slice(1);
+      
+      if (!args || args.length < 2) {
+        await ctx.reply('❌ Please provide object ID and at least one address. Usage: /share <object_id> <address1> [address2] ...');
+        return;
+      }
+
+      const [objectId, ...addresses] = args;
+      await ctx.reply(`🤝 Sharing file with ${addresses.length} address(es)...`);
+
+      try {
+        const result = await this.mcpClient.shareBlob({
+          userName: ctx.session.userName,
+          walletsDir: ctx.session.walletsDir,
+          environment: ctx.session.environment,
+          blobObjectId: objectId,
+          addresses
+        });
+
+        await ctx.reply(
+          `✅ File shared! You keep ownership of the file.\n\n` +
+          this.formatAddresses('🤝 Added', result.changed, 'All addresses already had access.') +
+          `\n\n👥 Members: ${result.members.length}`
+        );
+      } catch (error) {
+        await ctx.reply(`❌ Error sharing file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+
+    // Time-limited share command
+    this.bot.command('sharefor', async (ctx) => {
+      const args = ctx.message?.text?.split(' ').filter(arg => arg.length > 0).slice(1);
+      
+      if (!args || args.length < 3) {
+        await ctx.reply('❌ Please provide the number of days, object ID and at least one address. Usage: /sharefor <days> <object_id> <address1> [address2] ...');
+        return;
+      }
+
+      const [days, objectId, ...addresses] = args;
+      const expiresInDays = Number(days);
+      if (!(expiresInDays > 0)) {
+        await ctx.reply('❌ The number of days must be a positive number');
+        return;
+      }
+      await ctx.reply(`🤝 Sharing file with ${addresses.length} address(es) for ${expiresInDays} day(s)...`);
+
+      try {
+        const result = await this.mcpClient.shareBlobTemporarily({
+          userName: ctx.session.userName,
+          walletsDir: ctx.session.walletsDir,
+          environment: ctx.session.environment,
+          blobObjectId: objectId,
+          addresses,
+          expiresInDays
+        });
+
+        await ctx.reply(
+          `✅ File shared! Access ends automatically after ${expiresInDays} day(s).\n\n` +
+          this.formatAddresses('🤝 Granted', result.granted, 'All addresses are already members of the file.') +
+          `\n\n⏰ Expires: ${result.expiresAt.replace('T', ' ').slice(0, 16)} UTC`
+        );
+      } catch (error) {
+        await ctx.reply(`❌ Error sharing file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+
+    // Revoke command
+    this.bot.command('revoke', async (ctx) => {
+      const args = ctx.message?.text?.split(' ').filter(arg => arg.length > 0).slice(1);
+      
+      if (!args || args.length < 2) {
+        await ctx.reply('❌ Please provide object ID and at least one address. Usage: /revoke <object_id> <address1> [address2] ...');
+        return;
+      }
+
+      const [objectId, ...addresses] = args;
+      await ctx.reply(`🚫 Revoking access for ${addresses.length} address(es)...`);
+
+      try {
+        const result = await this.mcpClient.revokeAccess({
+          userName: ctx.session.userName,
+          walletsDir: ctx.session.walletsDir,
+          environment: ctx.session.environment,
+          blobObjectId: objectId,
+          addresses
+        });
+
+        await ctx.reply(
+          `✅ Access revoked.\n\n` +
+          this.formatAddresses('🚫 Removed', result.changed, 'None of the addresses had access.') +
+          `\n\n👥 Members: ${result.members.length}`
+        );
+      } catch (error) {
+        await ctx.reply(`❌ Error revoking access: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
   }
 
   private setupMessageHandlers(): void {
@@ -567,6 +823,109 @@ export class WaliaTelegramBot {
     console.log('🛑 Bot stopped');
   }
 
+  /**
+   * Parses the key=value options of /list into list_blobs filters, or returns what is wrong.
+   * Keys other than the options filter on blob attributes.
+   */
+  private parseListOptions(args: string[]): BlobListQuery | string {
+    const query: BlobListQuery = {};
+    const attributes: Record<string, string> = {};
+    for (const arg of args) {
+      const separator = arg.indexOf('=');
+      if (separator <= 0) {
+        return `Invalid option ${arg}`;
+      }
+      const key = arg.slice(0, separator);
+      const value = arg.slice(separator + 1);
+      switch (key) {
+        case 'name':
+          query.name = value;
+          break;
+        case 'sort':
+          if (!LIST_SORT_KEYS.includes(value as BlobSortKey)) {
+            return `Unknown sort key ${value}`;
+          }
+          query.sortBy = value as BlobSortKey;
+          break;
+        case 'order':
+          if (value !== 'asc' && value !== 'desc') {
+            return `Unknown order ${value}`;
+          }
+          query.order = value;
+          break;
+        case 'min':
+        case 'max': {
+          const size = this.parseSize(value);
+          if (size === undefined) {
+            return `Invalid size ${value}`;
+          }
+          query[key === 'min' ? 'minSize' : 'maxSize'] = size;
+          break;
+        }
+        case 'expiring':
+          if (!/^\d+$/.test(value)) {
+            return `Invalid number of epochs ${value}`;
+          }
+          query.expiringWithinEpochs = Number(value);
+          break;
+        case 'deletable':
+          if (value !== 'yes' && value !== 'no') {
+            return `deletable must be yes or no`;
+          }
+          query.deletable = value === 'yes';
+          break;
+        case 'cursor':
+          query.cursor = value;
+          break;
+        default:
+          attributes[key] = value;
+      }
+    }
+    if (Object.keys(attributes).length > 0) {
+      query.attributes = attributes;
+    }
+    return query;
+  }
+
+  // Such as 10MB, in bytes
+  private parseSize(value: string): number | undefined {
+    const size = value.toUpperCase().match(/^(\d+(?:\.\d+)?)(B|KB|MB|GB)?$/);
+    if (!size) {
+      return undefined;
+    }
+    const multipliers: Record<string, number> = { B: 1, KB: 1024, MB: 1024 ** 2, GB: 1024 ** 3 };
+    return Math.ceil(Number(size[1]) * multipliers[size[2] || 'B']);
+  }
+
+  /**
+   * Lists the addresses of an access change under a title, or a note when there are none
+   */
+  private formatAddresses(title: string, addresses: string[], emptyNote: string): string {
+    if (addresses.length === 0) {
+      return `ℹ️ ${emptyNote}`;
+    }
+    return `${title} (${addresses.length}):\n` + addresses.map(address => `• ${address}`).join('\n');
+  }
+
+  /**
+   * Groups message parts into as few messages as fit the Telegram limit, in order
+   */
+  private splitMessage(parts: string[]): string[] {
+    const messages: string[] = [];
+    let current = '';
+    for (const part of parts.map(part => part.slice(0, TELEGRAM_MESSAGE_LIMIT))) {
+      if (current.length + part.length > TELEGRAM_MESSAGE_LIMIT) {
+        messages.push(current);
+        current = '';
+      }
+      current += part;
+    }
+    if (current.trim().length > 0) {
+      messages.push(current);
+    }
+    return messages;
+  }
+
   private async ensureUserDirectoryExists(userName: string, walletsDir: string): Promise<string> {
     const userDir = path.join(walletsDir, userName);
     const dataDir = path.join(userDir, 'data');
@@ -609,7 +968,21 @@ export class WaliaTelegramBot {
     });
   }
 
-  private async handleFileAttachment(ctx: MyContext, fileId: string, fileName: string): Promise<void> {
+  /**
+   * Reduces a file name chosen by the Telegram sender to a safe single path segment
+   */
+  private sanitizeFileName(fileName: string): string {
+    const baseName = path.basename(fileName.replace(/\\/g, '/'));
+    const safeName = baseName
+      .replace(/[^\p{L}\p{N}._ -]/gu, '_')
+      .replace(/^[-.\s]+/, '')
+      .slice(0, MAX_FILE_NAME_LENGTH);
+    return safeName || 'file';
+  }
+
+  private async handleFileAttachment(ctx: MyContext, fileId: string, rawFileName: string): Promise<void> {
+    // The name comes from the sender, so it must never reach a path or a command as is
+    const fileName = this.sanitizeFileName(rawFileName);
     try {
       // Get file info from Telegram
       const file = await ctx.api.getFile(fileId);
@@ -652,6 +1025,7 @@ export class WaliaTelegramBot {
         filePath: absoluteFilePath,
         epochs: 5, // Default to 5 epochs
         deletable: true,
+        keepSource: false, // The download is only needed for the upload
         attributes: {
           'original_name': fileName,
           'telegram_file_id': fileId,
@@ -675,7 +1049,8 @@ export class WaliaTelegramBot {
         `🔒 Encoding: ${result.encodingType}
 
 ` +
-        `Your file is now stored securely on Walrus with 5 epochs of storage!`
+        `Your file is now stored securely on Walrus with 5 epochs of storage!\n` +
+        `⏳ Use /renew ${result.objectId} to keep it stored for longer.`
       );
       
     } catch (error) {
@@ -694,10 +1069,6 @@ export class WaliaTelegramBot {
 
 💰 Your wallet needs funding to store files on Walrus.
 
-📋 Requirements:
-• At least 0.5 SUI tokens
-• At least 0.5 WAL tokens
-
 🔍 Check your wallet status:
 /address - Get your wallet address
 /balance - Check your current balance
@@ -709,14 +1080,18 @@ export class WaliaTelegramBot {
         
         // Check if it's a balance error
         if (errorMessage.includes('Insufficient balance')) {
+          const requirements = error instanceof InsufficientBalanceError
+            ? error.preflight.shortfalls
+              .map(({ coin, needed, available, missing }) => `• ${coin}: ${needed} needed, ${available} available (missing ${missing})`)
+              .join('\n')
+            : '• SUI for gas and WAL for the storage cost';
           await ctx.reply(
-            `❌ Insufficient wallet balance to store files!
+            `❌ Insufficient wallet balance to store this file!
 
 💰 Your wallet needs funding to store files on Walrus.
 
 📋 Requirements:
-• At least 0.5 SUI tokens
-• At least 0.5 WAL tokens
+${requirements}
 
 🔍 To check your wallet details:
 /address - Get your wallet address
@@ -12,6 +12,7 @@ export interface MCPToolResponse {
     type: string;
     text: string;
   }>;
+  isError?: boolean;
 }
 
 export interface WalrusFileInfo {
@@ -40,6 +41,93 @@ export interface BlobObject {
     capId?: string;
   }
   deletable: boolean;
+  /** Expiry computed from the Walrus epoch info, absent when it is unknown */
+  expiresAt?: string;
+  endDate?: string;
+  epochsUntilExpiry?: number;
+  daysUntilExpiry?: number;
+  isExpired?: boolean;
+}
+
+/**
+ * Page of blobs returned by walia_list_blobs
+ */
+export interface BlobPage {
+  blobs: BlobObject[];
+  /** Number of blobs matching the filters, over all pages */
+  total: number;
+  /** Cursor of the next page, null on the last page */
+  nextCursor: string | null;
+}
+
+export type BlobSortKey = 'name' | 'size' | 'endEpoch' | 'registeredEpoch';
+
+/**
+ * Filters, sort and page of walia_list_blobs
+ */
+export interface BlobListQuery {
+  includeExpired?: boolean;
+  /** Only blobs with these attribute values */
+  attributes?: Record<string, string>;
+  /** Glob matched against the blob names, such as *.pdf */
+  name?: string;
+  minSize?: number;
+  maxSize?: number;
+  expiringWithinEpochs?: number;
+  deletable?: boolean;
+  sortBy?: BlobSortKey;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+/**
+ * Whitelist change returned by walia_share_blob and walia_revoke_access
+ */
+export interface AccessChangeResult {
+  whitelistId: string;
+  /** Addresses added or removed, members already in the wanted state are skipped */
+  changed: string[];
+  /** Whitelist members after the change */
+  members: string[];
+}
+
+/**
+ * Time-limited grant returned by walia_share_blob with expiresInDays
+ */
+export interface TemporaryAccessResult {
+  whitelistId: string;
+  /** Addresses granted access, permanent members are skipped */
+  granted: string[];
+  expiresAt: string;
+}
+
+/**
+ * Balance preflight returned by walia_store when the wallet cannot pay for a store
+ */
+export interface StorePreflight {
+  fileSize: number;
+  epochs: number;
+  blobs: number;
+  needed: { sui: string; wal: string };
+  available: { sui: string; wal: string };
+  shortfalls: Array<{ coin: 'SUI' | 'WAL'; needed: string; available: string; missing: string }>;
+  canStore: boolean;
+  /** Whether the storage cost uses default prices instead of the Walrus info */
+  approximate: boolean;
+}
+
+/**
+ * Error of a store that the wallet balance cannot cover
+ */
+export class InsufficientBalanceError extends Error {
+  readonly preflight: StorePreflight;
+
+  constructor(message: string, preflight: StorePreflight) {
+    super(message);
+    this.name = 'InsufficientBalanceError';
+    this.preflight = preflight;
+  }
 }
 
 export class WaliaMCPClient {
@@ -97,6 +185,8 @@ export class WaliaMCPClient {
     filePath: string;
     epochs?: number;
     deletable?: boolean;
+    keepSource?: boolean;
+    accessGroup?: string;
     attributes?: Record<string, string>;
   }): Promise<WalrusFileInfo> {
     await this.ensureConnected();
@@ -116,6 +206,10 @@ export class WaliaMCPClient {
       ) as MCPToolResponse;
 
       console.log('MCP Client: storeFile - response:', response);
+      if (response.isError) {
+        const { error, preflight } = JSON.parse(this.parseTextResponse(response));
+        throw new InsufficientBalanceError(error, preflight);
+      }
       return this.parseStorageResponse(response);
     } catch (error) {
       console.error('MCP Client: Error calling walia_store:', error);
@@ -170,8 +264,7 @@ export class WaliaMCPClient {
     userName: string;
     walletsDir: string;
     environment: string;
-    includeExpired?: boolean;
-  }): Promise<BlobObject[]> {
+  } & BlobListQuery): Promise<BlobPage> {
     await this.ensureConnected();
     
     console.log('MCP Client: Calling walia_list_blobs with params:', params);
@@ -290,6 +383,76 @@ export class WaliaMCPClient {
     return this.parseTextResponse(response);
   }
 
+  async shareBlob(params: {
+    userName: string;
+    walletsDir: string;
+    environment: string;
+    blobObjectId: string;
+    addresses: string[];
+  }): Promise<AccessChangeResult> {
+    await this.ensureConnected();
+    
+    const response = await (this.client.request as any)(
+      {
+        method: 'tools/call',
+        params: {
+          name: 'walia_share_blob',
+          arguments: params
+        }
+      },
+      CallToolResultSchema
+    ) as MCPToolResponse;
+
+    return JSON.parse(this.parseTextResponse(response));
+  }
+
+  async shareBlobTemporarily(params: {
+    userName: string;
+    walletsDir: string;
+    environment: string;
+    blobObjectId: string;
+    addresses: string[];
+    expiresInDays: number;
+  }): Promise<TemporaryAccessResult> {
+    await this.ensureConnected();
+    
+    const response = await (this.client.request as any)(
+      {
+        method: 'tools/call',
+        params: {
+          name: 'walia_share_blob',
+          arguments: params
+        }
+      },
+      CallToolResultSchema
+    ) as MCPToolResponse;
+
+    return JSON.parse(this.parseTextResponse(response));
+  }
+
+  async revokeAccess(params: {
+    userName: string;
+    walletsDir: string;
+    environment: string;
+    blobObjectId: string;
+    addresses: string[];
+  }): Promise<AccessChangeResult> {
+    await this.ensureConnected();
+    
+    const response = await (this.client.request as any)(
+      {
+        method: 'tools/call',
+        params: {
+          name: 'walia_revoke_access',
+          arguments: params
+        }
+      },
+      CallToolResultSchema
+    ) as MCPToolResponse;
+
+    return JSON.parse(this.parseTextResponse(response));
+  }
+
   async getBlobObjectId(params: {
     userName: string;
     walletsDir: string;
@@ -340,6 +503,80 @@ export class WaliaMCPClient {
     return match ? match[1] : '';
   }
 
+  async transfer(params: {
+    userName: string;
+    walletsDir: string;
+    environment: string;
+    recipient: string;
+    sui?: string;
+    wal?: string;
+    dryRun?: boolean;
+  }): Promise<any> {
+    await this.ensureConnected();
+    
+    const response = await (this.client.request as any)(
+      {
+        method: 'tools/call',
+        params: {
+          name: 'walia_transfer',
+          arguments: params
+        }
+      },
+      CallToolResultSchema
+    ) as MCPToolResponse;
+
+    return JSON.parse(this.parseTextResponse(response));
+  }
+
+  async extendBlob(params: {
+    userName: string;
+    walletsDir: string;
+    environment: string;
+    blobObjectId: string;
+    epochs: number;
+    dryRun?: boolean;
+  }): Promise<any> {
+    await this.ensureConnected();
+    
+    const response = await (this.client.request as any)(
+      {
+        method: 'tools/call',
+        params: {
+          name: 'walia_extend_blob',
+          arguments: params
+        }
+      },
+      CallToolResultSchema
+    ) as MCPToolResponse;
+
+    return JSON.parse(this.parseTextResponse(response));
+  }
+
+  async estimateCost(params: {
+    userName: string;
+    walletsDir: string;
+    environment: string;
+    filePath?: string;
+    sizeBytes?: number;
+    days?: number;
+    epochs?: number;
+  }): Promise<any> {
+    await this.ensureConnected();
+    
+    const response = await (this.client.request as any)(
+      {
+        method: 'tools/call',
+        params: {
+          name: 'walia_estimate_cost',
+          arguments: params
+        }
+      },
+      CallToolResultSchema
+    ) as MCPToolResponse;
+
+    return JSON.parse(this.parseTextResponse(response));
+  }
+
   async getWalletBalance(params: {
     userName: string;
     walletsDir: string;
@@ -404,7 +641,7 @@ export class WaliaMCPClient {
     }
   }
 
-  private parseBlobListResponse(response: MCPToolResponse): BlobObject[] {
+  private parseBlobListResponse(response: MCPToolResponse): BlobPage {
     console.log('MCP Client: parseBlobListResponse - response type:', typeof response);
     console.log('MCP Client: parseBlobListResponse - response:', response);
     
@@ -418,7 +655,7 @@ export class WaliaMCPClient {
     } catch (error) {
       console.error('Failed to parse blob list response:', error);
       console.error('Text that failed to parse:', text);
-      return [];
+      return { blobs: [], total: 0, nextCursor: null };
     }
   }
 
@@ -0,0 +1,93 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { runAutoRenewal } from "../auto-renewal";
+import { LocalNetwork } from "../local-network";
+import { createLocalUser, storeLocalBlob } from "./helper/local-wallet";
+
+const WAL_BALANCE = 1_000_000_000n; // 1 WAL
+// Cost of extending a small blob (63 storage units of the local backend) by 1 epoch
+const EPOCH_COST = 6_300n;
+
+/**
+ * Renewal policies applied to the blobs of local wallets
+ */
+describe('Auto-renewal (local network)', () => {
+  let baseDir: string;
+  let network: LocalNetwork;
+
+  // Date in the middle of an epoch after the current one
+  function epochsFromNow(epochs: number): string {
+    return new Date(network.getEpochStart().getTime() + (epochs + 0.5) * 86_400_000).toISOString();
+  }
+
+  beforeAll(() => {
+    baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walia-renewal-'));
+    network = new LocalNetwork({ waliaSealPackageId: '0x1' });
+  });
+
+  afterAll(() => {
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('should renew blobs close to expiry according to their policy', async () => {
+    const { wallet, backend, address } = createLocalUser(network, baseDir, 'alice', { walBalance: WAL_BALANCE });
+    const forever = await storeLocalBlob(backend, baseDir, 'forever.txt', { epochs: 1 }, { renew_policy: 'keep-forever' });
+    const until = await storeLocalBlob(backend, baseDir, 'until.txt', { epochs: 1 }, { renew_until: epochsFromNow(3) });
+    await storeLocalBlob(backend, baseDir, 'plain.txt', { epochs: 1 });
+    await storeLocalBlob(backend, baseDir, 'later.txt', { epochs: 10 }, { renew_policy: 'keep-forever' });
+    await storeLocalBlob(backend, baseDir, 'past.txt', { epochs: 1 }, { renew_until: '2020-01-01' });
+    await storeLocalBlob(backend, baseDir, 'invalid.txt', { epochs: 1 }, { renew_until: 'soon' });
+    const endEpoch = network.getCurrentEpoch() + 1;
+    const balance = network.getBalance(address, network.walCoinType);
+
+    const preview = await runAutoRenewal([wallet], { walBudget: '1', dryRun: true });
+    expect(preview.dryRun).toBe(true);
+    expect(preview.users[0].renewed.map(entry => entry.blobObjectId)).toEqual([forever, until]);
+    expect(network.getBalance(address, network.walCoinType)).toBe(balance);
+
+    const report = await runAutoRenewal([wallet], { walBudget: '1' });
+    const [user] = report.users;
+    expect(user).toMatchObject({ userName: 'alice', budget: '1', lackedFunds: [], failed: [] });
+    expect(user.renewed).toEqual([
+      { blobObjectId: forever, name: 'forever.txt', endEpoch, epochs: 5, cost: '0.0000315' },
+      { blobObjectId: until, name: 'until.txt', endEpoch, epochs: 3, cost: '0.0000189' },
+    ]);
+    expect(user.spent).toBe('0.0000504');
+    expect(Object.fromEntries(user.skipped.map(entry => [entry.name, entry.reason]))).toEqual({
+      'plain.txt': 'No renewal policy',
+      'past.txt': 'Stored until 2020-01-01',
+      'invalid.txt': 'Invalid renew_until date: soon',
+      'later.txt': 'Expires in 10 epochs',
+    });
+    expect(network.getBalance(address, network.walCoinType)).toBe(balance - 8n * EPOCH_COST);
+
+    // Renewed blobs wait until they are close to expiry again
+    const next = await runAutoRenewal([wallet], { walBudget: '1' });
+    expect(next.users[0].renewed).toEqual([]);
+    expect(next.users[0].skipped.find(entry => entry.blobObjectId === forever)?.reason).toBe('Expires in 6 epochs');
+    expect(next.users[0].skipped.find(entry => entry.blobObjectId === until)?.reason).toContain('Stored until');
+    network.advanceEpochs(4);
+    const later = await runAutoRenewal([wallet], { walBudget: '1' });
+    expect(later.users[0].renewed.map(entry => entry.blobObjectId)).toEqual([forever]);
+  });
+
+  it('should report the blobs that the budget or balance cannot cover', async () => {
+    const bob = createLocalUser(network, baseDir, 'bob', { walBalance: WAL_BALANCE });
+    const first = await storeLocalBlob(bob.backend, baseDir, 'first.txt', { epochs: 1 }, { renew_policy: 'keep-forever' });
+    const second = await storeLocalBlob(bob.backend, baseDir, 'second.txt', { epochs: 1 }, { renew_policy: 'keep-forever' });
+    const carol = createLocalUser(network, baseDir, 'carol', { walBalance: WAL_BALANCE });
+    const third = await storeLocalBlob(carol.backend, baseDir, 'third.txt', { epochs: 1 }, { renew_policy: 'keep-forever' });
+    // Spend the rest of the WAL of carol
+    network.debit(carol.address, network.getBalance(carol.address, network.walCoinType), network.walCoinType);
+
+    const report = await runAutoRenewal([bob.wallet, carol.wallet], { walBudget: '1', userBudgets: { bob: '0.00004' } });
+    const [bobReport, carolReport] = report.users;
+    expect(bobReport.renewed.map(entry => entry.blobObjectId)).toEqual([first]);
+    expect(bobReport.lackedFunds).toMatchObject([{ blobObjectId: second, reason: 'Exceeds the budget of 0.00004 WAL' }]);
+    expect(bobReport.spent).toBe('0.0000315');
+    expect(carolReport.lackedFunds).toMatchObject([{ blobObjectId: third, reason: 'Only 0 WAL left in the wallet' }]);
+    expect(carolReport.spent).toBe('0');
+  });
+});
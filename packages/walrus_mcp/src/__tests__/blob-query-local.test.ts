@@ -0,0 +1,65 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { queryBlobs } from "../blob-query";
+import { LocalNetwork } from "../local-network";
+import { ClientConfig } from "../wallet-management";
+import { createLocalUser, storeLocalBlob } from "./helper/local-wallet";
+
+/**
+ * Filters, sort keys and cursors of queryBlobs over the blobs of a local wallet
+ */
+describe('Blob queries (local network)', () => {
+  let baseDir: string;
+  let network: LocalNetwork;
+  let clientConf: ClientConfig;
+  const objectIds: Record<string, string> = {};
+
+  function names(blobs: { id: string }[]): string[] {
+    return blobs.map(blob => Object.keys(objectIds).find(name => objectIds[name] === blob.id)!);
+  }
+
+  beforeAll(async () => {
+    baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walia-query-'));
+    network = new LocalNetwork({ waliaSealPackageId: '0x1' });
+    const { wallet, backend } = createLocalUser(network, baseDir, 'alice', { walBalance: 1_000_000_000n });
+    clientConf = wallet.getUserEnvironment();
+
+    objectIds['report.pdf'] = await storeLocalBlob(backend, baseDir, 'report.pdf', { epochs: 2, deletable: true, content: Buffer.alloc(300) }, { project: 'apollo' });
+    objectIds['notes.txt'] = await storeLocalBlob(backend, baseDir, 'notes.txt', { epochs: 10, deletable: true, content: Buffer.alloc(100) }, { project: 'apollo' });
+    objectIds['Slides.PDF'] = await storeLocalBlob(backend, baseDir, 'Slides.PDF', { epochs: 1, deletable: false, content: Buffer.alloc(200) });
+    objectIds['photo.png'] = await storeLocalBlob(backend, baseDir, 'photo.png', { epochs: 5, deletable: true, content: Buffer.alloc(400) });
+  });
+
+  afterAll(() => {
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('should filter blobs by attributes, name, size, expiry and deletability', async () => {
+    expect(names((await queryBlobs(clientConf, { attributes: { project: 'apollo' }, sortBy: 'name' })).blobs))
+      .toEqual(['notes.txt', 'report.pdf']);
+    expect(names((await queryBlobs(clientConf, { name: '*.pdf', sortBy: 'name' })).blobs))
+      .toEqual(['report.pdf', 'Slides.PDF']);
+    expect(names((await queryBlobs(clientConf, { minSize: 200, maxSize: 300, sortBy: 'size' })).blobs))
+      .toEqual(['Slides.PDF', 'report.pdf']);
+    expect(names((await queryBlobs(clientConf, { expiringWithinEpochs: 2, sortBy: 'endEpoch' })).blobs))
+      .toEqual(['Slides.PDF', 'report.pdf']);
+    expect(names((await queryBlobs(clientConf, { deletable: false })).blobs)).toEqual(['Slides.PDF']);
+  });
+
+  it('should page through sorted blobs with cursors', async () => {
+    const first = await queryBlobs(clientConf, { sortBy: 'size', order: 'desc', limit: 3 });
+    expect(names(first.blobs)).toEqual(['photo.png', 'report.pdf', 'Slides.PDF']);
+    expect(first.total).toBe(4);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await queryBlobs(clientConf, { sortBy: 'size', order: 'desc', limit: 3, cursor: first.nextCursor! });
+    expect(names(second.blobs)).toEqual(['notes.txt']);
+    expect(second.nextCursor).toBeNull();
+
+    await expect(queryBlobs(clientConf, { sortBy: 'name', cursor: first.nextCursor! })).rejects.toThrow('sorted by size desc');
+    await expect(queryBlobs(clientConf, { cursor: 'not-a-cursor' })).rejects.toThrow('Invalid cursor');
+    await expect(queryBlobs(clientConf, { limit: 0 })).rejects.toThrow('limit must be a positive integer');
+  });
+});
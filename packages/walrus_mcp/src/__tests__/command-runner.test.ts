@@ -0,0 +1,103 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  runCommand,
+  runJsonCommand,
+  validateArgument,
+  validateBlobId,
+  validateFilePath,
+  validateObjectId,
+  validateUserName
+} from "../command-runner";
+import { CliWalrusBackend } from "../walrus-cli-backend";
+
+const MALICIOUS_NAME = 'a"; touch pwned; ".txt';
+const BLOB_OBJECT_ID = '0x5a95cc411d6aee68d60e77fad8e6ce7b0fabf02b7524a5f6a8aaa41797a5baa7';
+
+describe('Command runner', () => {
+  let tempDir: string;
+  let originalPath: string | undefined;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walia-command-runner-'));
+
+    // Fake walrus CLI that records its argv and answers like `walrus store --json`
+    const fakeWalrus = path.join(tempDir, 'walrus');
+    fs.writeFileSync(fakeWalrus, `#!${process.execPath}
+const fs = require('fs');
+fs.writeFileSync(${JSON.stringify(path.join(tempDir, 'argv.json'))}, JSON.stringify(process.argv.slice(2)));
+if (process.argv[2] === 'store') {
+  console.log(JSON.stringify([{ blobStoreResult: { alreadyCertified: { blobId: 'abc', object: '0x1', endEpoch: 3 } }, path: process.argv[4] }]));
+}
+`);
+    fs.chmodSync(fakeWalrus, 0o755);
+    originalPath = process.env.PATH;
+    process.env.PATH = `${tempDir}${path.delimiter}${originalPath}`;
+  });
+
+  afterAll(() => {
+    process.env.PATH = originalPath;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function recordedArgv(): string[] {
+    return JSON.parse(fs.readFileSync(path.join(tempDir, 'argv.json'), 'utf8'));
+  }
+
+  it('should pass shell metacharacters through verbatim', async () => {
+    const { stdout } = await runCommand(process.execPath, ['-e', 'console.log(JSON.stringify(process.argv.slice(1)))', MALICIOUS_NAME, '$(touch pwned)']);
+    expect(JSON.parse(stdout)).toEqual([MALICIOUS_NAME, '$(touch pwned)']);
+    expect(fs.existsSync('pwned')).toBe(false);
+  });
+
+  it('should parse JSON output and report invalid JSON', async () => {
+    await expect(runJsonCommand(process.execPath, ['-e', 'console.log("[1,2]")'])).resolves.toEqual([1, 2]);
+    await expect(runJsonCommand(process.execPath, ['-e', 'console.log("not json")'])).rejects.toThrow('Invalid JSON output');
+  });
+
+  it('should report failures with stderr', async () => {
+    await expect(runCommand(process.execPath, ['-e', 'console.error("boom"); process.exit(1)'])).rejects.toThrow('boom');
+  });
+
+  it('should reject arguments containing NUL bytes', async () => {
+    await expect(runCommand(process.execPath, ['-e', 'a\0b'])).rejects.toThrow('Invalid argument');
+  });
+
+  it('should store files with hostile names as a single argument', async () => {
+    const filePath = path.join(tempDir, MALICIOUS_NAME);
+    fs.writeFileSync(filePath, 'content');
+    const backend = new CliWalrusBackend({ suiConfPath: 'sui.yaml', walrusConfPath: 'walrus.yaml' });
+
+    const result = await backend.store(filePath, { epochs: 5, deletable: true });
+
+    expect(result.alreadyCertified?.blobId).toBe('abc');
+    expect(recordedArgv()).toEqual([
+      'store', '--json', filePath, '--epochs', '5', '--deletable',
+      '--config', path.resolve('walrus.yaml'), '--wallet', path.resolve('sui.yaml'),
+    ]);
+    expect(fs.existsSync(path.join(tempDir, 'pwned'))).toBe(false);
+  });
+
+  it('should pass attributes as separate arguments', async () => {
+    const backend = new CliWalrusBackend({ suiConfPath: 'sui.yaml', walrusConfPath: 'walrus.yaml' });
+
+    await backend.setBlobAttributes(BLOB_OBJECT_ID, { original_name: MALICIOUS_NAME });
+
+    expect(recordedArgv().slice(0, 5)).toEqual(['set-blob-attribute', BLOB_OBJECT_ID, '--attr', 'original_name', MALICIOUS_NAME]);
+    await expect(backend.setBlobAttributes(BLOB_OBJECT_ID, { name: '--wallet' })).rejects.toThrow('Invalid value of attribute name');
+    await expect(backend.setBlobAttributes('0x1; ls', { name: 'x' })).rejects.toThrow('Invalid blob object ID');
+  });
+
+  it('should validate inputs', () => {
+    expect(validateObjectId(BLOB_OBJECT_ID)).toBe(BLOB_OBJECT_ID);
+    expect(() => validateObjectId('0xzz')).toThrow();
+    expect(validateBlobId('M4hsZGQ1oCktdzegB6HnI6Mi28S2nqOPHxK-W7_4BUk')).toBeDefined();
+    expect(() => validateBlobId('../../etc/passwd')).toThrow();
+    expect(validateFilePath('-rf')).toBe(path.resolve('-rf'));
+    expect(() => validateArgument('--all')).toThrow();
+    expect(validateUserName('user_12345')).toBe('user_12345');
+    expect(() => validateUserName('../other')).toThrow();
+  });
+});
@@ -0,0 +1,73 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { randomBytes } from "crypto";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { decryptEnvelopeToFile, encryptFileToEnvelope, generateDataKey, readEnvelopeHeader } from "../envelope";
+
+describe('Envelope encryption', () => {
+  const sealedKey = randomBytes(300);
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walia-envelope-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function encrypt(content: Buffer, dataKey: Buffer): Promise<string> {
+    const inputPath = path.join(tempDir, `${randomBytes(4).toString('hex')}.bin`);
+    fs.writeFileSync(inputPath, content);
+    await encryptFileToEnvelope(inputPath, `${inputPath}.enc`, dataKey, sealedKey);
+    return `${inputPath}.enc`;
+  }
+
+  it('should round trip a multi-chunk file', async () => {
+    const content = randomBytes(5 * 1024 * 1024 + 17);
+    const dataKey = generateDataKey();
+    const encryptedPath = await encrypt(content, dataKey);
+
+    const header = await readEnvelopeHeader(encryptedPath);
+    expect(header).not.toBeNull();
+    expect(Buffer.from(header!.sealedKey).equals(sealedKey)).toBe(true);
+    expect(fs.statSync(encryptedPath).size).toBe(header!.headerLength + content.length + 16);
+
+    const outputPath = path.join(tempDir, 'decrypted.bin');
+    await decryptEnvelopeToFile(encryptedPath, header!, dataKey, outputPath);
+    expect(fs.readFileSync(outputPath).equals(content)).toBe(true);
+  });
+
+  it('should round trip an empty file', async () => {
+    const dataKey = generateDataKey();
+    const encryptedPath = await encrypt(Buffer.alloc(0), dataKey);
+
+    const outputPath = path.join(tempDir, 'empty.bin');
+    await decryptEnvelopeToFile(encryptedPath, (await readEnvelopeHeader(encryptedPath))!, dataKey, outputPath);
+    expect(fs.readFileSync(outputPath)).toHaveLength(0);
+  });
+
+  it('should treat files without the envelope magic as legacy', async () => {
+    const legacyPath = path.join(tempDir, 'legacy.enc');
+    fs.writeFileSync(legacyPath, randomBytes(64));
+    expect(await readEnvelopeHeader(legacyPath)).toBeNull();
+  });
+
+  it('should reject tampered content and a wrong key without writing output', async () => {
+    const dataKey = generateDataKey();
+    const encryptedPath = await encrypt(randomBytes(4096), dataKey);
+    const header = (await readEnvelopeHeader(encryptedPath))!;
+    const outputPath = path.join(tempDir, 'rejected.bin');
+
+    await expect(decryptEnvelopeToFile(encryptedPath, header, generateDataKey(), outputPath)).rejects.toThrow();
+    expect(fs.existsSync(outputPath)).toBe(false);
+
+    const tampered = fs.readFileSync(encryptedPath);
+    tampered[header.headerLength + 100] ^= 1;
+    fs.writeFileSync(encryptedPath, tampered);
+    await expect(decryptEnvelopeToFile(encryptedPath, header, dataKey, outputPath)).rejects.toThrow();
+    expect(fs.existsSync(outputPath)).toBe(false);
+    expect(fs.existsSync(`${outputPath}.partial`)).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "js-yaml";
+import { decodeSuiPrivateKey } from "@mysten/sui/cryptography";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { toBase64 } from "@mysten/sui/utils";
+import { LocalNetwork } from "../../local-network";
+import { BlobAttributes } from "../../storage";
+import { EnvironmentType, WalletManagement } from "../../wallet-management";
+import { MemoryWalrusBackend, MemoryWalrusBackendOptions } from "../../walrus-memory-backend";
+
+/** walia_seal package ID given to the local network and the SealManager of local users */
+export const WALIA_SEAL_PACKAGE_ID = '0xf5083045ffb970f16dde2bbad407909b9e761f6c93342500530d9efdf7b09507';
+
+export interface LocalUser {
+  address: string;
+  wallet: WalletManagement;
+  backend: MemoryWalrusBackend;
+}
+
+export interface LocalUserOptions {
+  /** WAL minted to the user, in FROST */
+  walBalance?: bigint;
+  /** SUI minted to the user, in MIST */
+  suiBalance?: bigint;
+  backendOptions?: MemoryWalrusBackendOptions;
+}
+
+/**
+ * Writes a wallet directory (keystore, sui_client.yaml and walrus_client_config.yaml)
+ * for a freshly generated keypair, without the sui CLI or network access.
+ * Used with the local network, which never reads the RPC URLs.
+ */
+export function createLocalWallet(
+  baseDir: string,
+  userName: string,
+  environment: EnvironmentType = 'localnet'
+): { address: string; keypair: Ed25519Keypair } {
+  const userDir = path.join(baseDir, userName);
+  fs.mkdirSync(userDir, { recursive: true });
+
+  const keypair = new Ed25519Keypair();
+  const address = keypair.getPublicKey().toSuiAddress();
+
+  // Keystore entries are base64 of the scheme flag followed by the secret key
+  const { secretKey } = decodeSuiPrivateKey(keypair.getSecretKey());
+  const keystorePath = path.join(userDir, 'sui.keystore');
+  fs.writeFileSync(keystorePath, JSON.stringify([toBase64(Uint8Array.from([0, ...secretKey]))]));
+
+  const suiConfigPath = path.join(userDir, 'sui_client.yaml');
+  fs.writeFileSync(suiConfigPath, yaml.dump({
+    keystore: { File: keystorePath },
+    envs: [{ alias: environment, rpc: 'http://127.0.0.1:9000', ws: null, basic_auth: null }],
+    active_env: environment,
+    active_address: address,
+  }));
+
+  fs.writeFileSync(path.join(userDir, 'walrus_client_config.yaml'), yaml.dump({
+    contexts: {
+      [environment]: {
+        system_object: '0x0',
+        staking_object: '0x0',
+        wallet_config: { path: suiConfigPath, active_env: environment },
+      },
+    },
+    default_context: environment,
+  }));
+
+  return { address, keypair };
+}
+
+/**
+ * Creates a wallet on the local network with an in-memory Walrus backend, funded with
+ * the balances of the options
+ */
+export function createLocalUser(
+  network: LocalNetwork,
+  baseDir: string,
+  userName: string,
+  options: LocalUserOptions = {}
+): LocalUser {
+  const { address } = createLocalWallet(baseDir, userName);
+  if (options.suiBalance) {
+    network.mint(address, options.suiBalance);
+  }
+  if (options.walBalance) {
+    network.mint(address, options.walBalance, network.walCoinType);
+  }
+  const backend = new MemoryWalrusBackend(network, address, options.backendOptions);
+  const wallet = new WalletManagement(userName, baseDir, 'localnet', {
+    suiClient: network.suiClient,
+    walrusBackend: backend,
+    walCoinType: network.walCoinType,
+  });
+  return { address, wallet, backend };
+}
+
+/**
+ * Writes a file in a directory and stores it with the backend of a local user, as a blob
+ * named after the file. The file holds the content given, else a short text.
+ */
+export async function storeLocalBlob(
+  backend: MemoryWalrusBackend,
+  dir: string,
+  name: string,
+  options: { epochs: number; deletable?: boolean; content?: string | Buffer },
+  attributes: BlobAttributes = {}
+): Promise<string> {
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, options.content ?? `content of ${name}`);
+  const objectId = (await backend.store(filePath, { epochs: options.epochs, deletable: options.deletable })).newlyCreated!.blobObject.id;
+  await backend.setBlobAttributes(objectId, { name, ...attributes });
+  return objectId;
+}
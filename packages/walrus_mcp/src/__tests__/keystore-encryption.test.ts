@@ -0,0 +1,122 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { KEYSTORE_SECRET_ENV, decryptSecret, encryptSecret, isWalletSecretEncrypted } from "../keystore-encryption";
+import {
+  WalletManagement,
+  createUnlockedSuiConfig,
+  encryptAllWalletSecrets,
+  encryptWalletSecrets,
+  readSuiKeypair,
+  removeStaleUnlockedConfigs,
+} from "../wallet-management";
+import { createLocalWallet } from "./helper/local-wallet";
+
+const PASSPHRASE = 'correct horse battery staple';
+const MNEMONIC = 'test test test test test test test test test test test junk';
+
+describe('Keystore encryption', () => {
+  let baseDir: string;
+
+  // Writes a plaintext wallet with the keypair.json written by `sui keytool generate`
+  function createPlaintextWallet(userName: string): string {
+    const { address } = createLocalWallet(baseDir, userName);
+    fs.writeFileSync(
+      path.join(baseDir, userName, 'keypair.json'),
+      JSON.stringify({ suiAddress: address, mnemonic: MNEMONIC }, null, 2)
+    );
+    return address;
+  }
+
+  beforeAll(() => {
+    delete process.env[KEYSTORE_SECRET_ENV];
+    baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walia-keystore-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('should round trip a secret and reject a wrong passphrase', () => {
+    const secret = encryptSecret('["AAAA"]', PASSPHRASE);
+    expect(secret.ciphertext).not.toContain('AAAA');
+    expect(decryptSecret(secret, PASSPHRASE)).toBe('["AAAA"]');
+    expect(() => decryptSecret(secret, 'wrong passphrase')).toThrow('Wrong passphrase');
+  });
+
+  it('should migrate a plaintext wallet and unlock it only with the passphrase', () => {
+    const address = createPlaintextWallet('alice');
+    const userDir = path.join(baseDir, 'alice');
+    const suiConfigPath = path.join(userDir, 'sui_client.yaml');
+    const plaintextKeystore = fs.readFileSync(path.join(userDir, 'sui.keystore'), 'utf8');
+
+    expect(encryptWalletSecrets('alice', PASSPHRASE, baseDir)).toBe(true);
+    expect(encryptWalletSecrets('alice', PASSPHRASE, baseDir)).toBe(false);
+    for (const fileName of ['sui.keystore', 'keypair.json']) {
+      const filePath = path.join(userDir, fileName);
+      expect(isWalletSecretEncrypted(filePath)).toBe(true);
+      expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+    }
+    expect(fs.readFileSync(path.join(userDir, 'sui.keystore'), 'utf8')).not.toContain(JSON.parse(plaintextKeystore)[0]);
+    expect(fs.readFileSync(path.join(userDir, 'keypair.json'), 'utf8')).not.toContain('junk');
+
+    expect(() => readSuiKeypair(suiConfigPath)).toThrow('is encrypted');
+    expect(() => readSuiKeypair(suiConfigPath, 'wrong passphrase')).toThrow('Wrong passphrase');
+    expect(readSuiKeypair(suiConfigPath, PASSPHRASE).keypair.toSuiAddress()).toBe(address);
+
+    const wallet = new WalletManagement('alice', baseDir, 'localnet', { passphrase: PASSPHRASE });
+    expect(wallet.getKeypair().toSuiAddress()).toBe(address);
+    expect(wallet.getPassPhrases()).toEqual({ address, mnemonic: MNEMONIC });
+  });
+
+  it('should unlock an encrypted keystore for external tools into a temporary copy', () => {
+    const address = createPlaintextWallet('bob');
+    const suiConfigPath = path.join(baseDir, 'bob', 'sui_client.yaml');
+
+    // Plaintext wallets are used as they are
+    expect(createUnlockedSuiConfig(suiConfigPath).suiConfPath).toBe(suiConfigPath);
+
+    encryptWalletSecrets('bob', PASSPHRASE, baseDir);
+    const { suiConfPath, cleanup } = createUnlockedSuiConfig(suiConfigPath, PASSPHRASE);
+    expect(suiConfPath).not.toBe(suiConfigPath);
+    expect(readSuiKeypair(suiConfPath).keypair.toSuiAddress()).toBe(address);
+    // The plaintext copy stays in the wallet directory, readable only by its owner
+    expect(path.dirname(path.dirname(suiConfPath))).toBe(path.join(baseDir, 'bob'));
+    expect(fs.statSync(path.dirname(suiConfPath)).mode & 0o777).toBe(0o700);
+
+    cleanup();
+    expect(fs.existsSync(path.dirname(suiConfPath))).toBe(false);
+  });
+
+  it('should remove the unlocked configs of processes that are no longer running', () => {
+    createPlaintextWallet('erin');
+    encryptWalletSecrets('erin', PASSPHRASE, baseDir);
+    const { suiConfPath, cleanup } = createUnlockedSuiConfig(path.join(baseDir, 'erin', 'sui_client.yaml'), PASSPHRASE);
+    const staleDir = path.join(baseDir, 'erin', 'walia-wallet-999999999-abc123');
+    fs.mkdirSync(staleDir);
+
+    // Directories outside the wallet directories may belong to other running processes
+    const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walia-wallet-'));
+
+    expect(removeStaleUnlockedConfigs(baseDir)).toContain(staleDir);
+    expect(fs.existsSync(staleDir)).toBe(false);
+    expect(fs.existsSync(suiConfPath)).toBe(true);
+    expect(fs.existsSync(otherDir)).toBe(true);
+    fs.rmSync(otherDir, { recursive: true, force: true });
+    cleanup();
+  });
+
+  it('should migrate every plaintext wallet of a directory', () => {
+    const walletsDir = path.join(baseDir, 'wallets');
+    fs.mkdirSync(walletsDir);
+    const { address } = createLocalWallet(walletsDir, 'carol');
+    createLocalWallet(walletsDir, 'dave');
+    fs.mkdirSync(path.join(walletsDir, 'not-a-wallet'));
+    encryptWalletSecrets('dave', PASSPHRASE, walletsDir);
+
+    const result = encryptAllWalletSecrets(PASSPHRASE, walletsDir);
+    expect(result).toEqual({ encrypted: ['carol'], skipped: ['dave'], failed: [] });
+    expect(readSuiKeypair(path.join(walletsDir, 'carol', 'sui_client.yaml'), PASSPHRASE).keypair.toSuiAddress()).toBe(address);
+  });
+});
@@ -0,0 +1,127 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { DEFAULT_NETWORKS, NETWORKS_CONFIG_ENV, getNetworkConfig, getWalCoinType, loadNetworkRegistry, resolveNetworkConfig } from "../network-registry";
+import { WalletManagement, getSuiRpcUrl } from "../wallet-management";
+import { createLocalWallet } from "./helper/local-wallet";
+
+const PACKAGE_ENV_VARS = [
+  NETWORKS_CONFIG_ENV,
+  'WALIA_SEAL_PACKAGE_ID',
+  'WALIA_SEAL_PACKAGE_ID_MAINNET',
+  'WALIA_RPC_URL_LOCALNET',
+  'WALIA_SEAL_KEY_SERVERS_LOCALNET',
+];
+
+describe('Network registry', () => {
+  let baseDir: string;
+  let configPath: string;
+  const savedEnv: Record<string, string | undefined> = {};
+
+  beforeAll(() => {
+    for (const name of PACKAGE_ENV_VARS) {
+      savedEnv[name] = process.env[name];
+      delete process.env[name];
+    }
+    baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walia-networks-'));
+    configPath = path.join(baseDir, 'networks.yaml');
+    fs.writeFileSync(configPath, [
+      'mainnet:',
+      '  waliaSealPackageId: "0xabc"',
+      '  keyServers: ["0x1", "0x2"]',
+      '  walrus:',
+      '    systemObject: "0x3"',
+    ].join('\n'));
+  });
+
+  afterEach(() => {
+    for (const name of PACKAGE_ENV_VARS) {
+      delete process.env[name];
+    }
+  });
+
+  afterAll(() => {
+    for (const name of PACKAGE_ENV_VARS) {
+      if (savedEnv[name] !== undefined) {
+        process.env[name] = savedEnv[name];
+      }
+    }
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('should use a different WAL coin type on mainnet', () => {
+    expect(getWalCoinType('mainnet')).not.toBe(getWalCoinType('testnet'));
+    expect(getNetworkConfig('testnet').keyServers.length).toBeGreaterThan(0);
+
+    createLocalWallet(baseDir, 'alice', 'mainnet');
+    const wallet = new WalletManagement('alice', baseDir, 'mainnet');
+    expect(wallet.getWalCoinType()).toBe(DEFAULT_NETWORKS.mainnet.walCoinType);
+    wallet.setActiveEnvironment('testnet');
+    expect(wallet.getWalCoinType()).toBe(DEFAULT_NETWORKS.testnet.walCoinType);
+  });
+
+  it('should merge the overrides of a config file with the defaults', () => {
+    process.env[NETWORKS_CONFIG_ENV] = configPath;
+    const mainnet = getNetworkConfig('mainnet');
+
+    expect(mainnet.waliaSealPackageId).toBe('0xabc');
+    expect(mainnet.keyServers).toEqual(['0x1', '0x2']);
+    expect(mainnet.walrus.systemObject).toBe('0x3');
+    expect(mainnet.walrus.stakingObject).toBe(DEFAULT_NETWORKS.mainnet.walrus.stakingObject);
+    expect(mainnet.rpcUrl).toBe(DEFAULT_NETWORKS.mainnet.rpcUrl);
+    expect(getNetworkConfig('testnet')).toEqual(DEFAULT_NETWORKS.testnet);
+  });
+
+  it('should let package ID variables take precedence as before', () => {
+    process.env.WALIA_SEAL_PACKAGE_ID = '0xdef';
+    expect(getNetworkConfig('testnet').waliaSealPackageId).toBe('0xdef');
+    expect(getNetworkConfig('mainnet', configPath).waliaSealPackageId).toBe('0xabc');
+
+    process.env.WALIA_SEAL_PACKAGE_ID_MAINNET = '0x123';
+    expect(getNetworkConfig('mainnet', configPath).waliaSealPackageId).toBe('0x123');
+  });
+
+  it('should read the RPC URL from sui_client.yaml unless it is overridden', () => {
+    const { address } = createLocalWallet(baseDir, 'bob');
+    const suiConfigPath = path.join(baseDir, 'bob', 'sui_client.yaml');
+    const wallet = new WalletManagement('bob', baseDir, 'localnet');
+    expect(wallet.getRpcUrl()).toBe('http://127.0.0.1:9000');
+    expect(getSuiRpcUrl(suiConfigPath, 'testnet')).toBe(DEFAULT_NETWORKS.testnet.rpcUrl);
+
+    wallet.updateSuiConfig({
+      activeAddress: address,
+      envs: [{ alias: 'localnet', rpc: 'http://127.0.0.1:9100', ws: null, basic_auth: null }],
+    });
+    expect(wallet.getRpcUrl()).toBe('http://127.0.0.1:9100');
+
+    process.env.WALIA_RPC_URL_LOCALNET = 'http://localhost:9200';
+    expect(getSuiRpcUrl(suiConfigPath, 'localnet')).toBe('http://localhost:9200');
+    expect(resolveNetworkConfig('localnet').rpcUrl).toBe('http://localhost:9200');
+    expect(new WalletManagement('bob', baseDir, 'localnet', { rpcUrl: 'http://node:9000' }).getRpcUrl()).toBe('http://node:9000');
+  });
+
+  it('should let key servers be configured per network', () => {
+    process.env.WALIA_SEAL_KEY_SERVERS_LOCALNET = '0xa1, 0xa2,';
+    expect(resolveNetworkConfig('localnet').keyServers).toEqual(['0xa1', '0xa2']);
+    expect(getNetworkConfig('testnet').keyServers).toEqual(DEFAULT_NETWORKS.testnet.keyServers);
+  });
+
+  it('should require a walia_seal package and WAL coin type where none is deployed', () => {
+    expect(() => getNetworkConfig('mainnet')).toThrow('No walia_seal package configured for mainnet');
+    expect(() => getNetworkConfig('localnet')).toThrow('No walia_seal package configured for localnet');
+    expect(() => getWalCoinType('devnet')).toThrow('No WAL coin type configured for devnet');
+    expect(resolveNetworkConfig('mainnet').rpcUrl).toBe(DEFAULT_NETWORKS.mainnet.rpcUrl);
+
+    process.env.WALIA_SEAL_PACKAGE_ID_MAINNET = '0x123';
+    expect(getNetworkConfig('mainnet').waliaSealPackageId).toBe('0x123');
+  });
+
+  it('should reject unknown networks and missing config files', () => {
+    const invalidPath = path.join(baseDir, 'invalid.json');
+    fs.writeFileSync(invalidPath, JSON.stringify({ betanet: { rpcUrl: 'http://localhost' } }));
+
+    expect(() => loadNetworkRegistry(invalidPath)).toThrow('Unknown network betanet');
+    expect(() => loadNetworkRegistry(path.join(baseDir, 'missing.yaml'))).toThrow('Network config file not found');
+  });
+});
@@ -0,0 +1,548 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { randomBytes } from "crypto";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { AccessGroupRegistry } from "../access-groups";
+import { loadBlobCatalog } from "../blob-catalog";
+import { loadCostSamples } from "../cost-calibration";
+import { LocalNetwork } from "../local-network";
+import { SealManager } from "../seal";
+import { BlobParams, add_blob_attributes, burnBlobs, expiryFromDays, extendBlob, getDataDir, get_blob_attributes, list_blobs, read, revokeBlob, rotateBlobKey, sendBlob, shareBlob, shareBlobTemporarily, store } from "../storage";
+import { WalletManagement } from "../wallet-management";
+import { preflightStore } from "../store-preflight";
+import { getWalrusBackend } from "../walrus-backend";
+import { WalrusCostEstimator } from "../walrus-cost-estimator";
+import { MemoryWalrusBackendOptions } from "../walrus-memory-backend";
+import { WALIA_SEAL_PACKAGE_ID, createLocalUser } from "./helper/local-wallet";
+
+const WAL_BALANCE = 10_000_000_000n; // 10 WAL
+
+interface LocalUser {
+    address: string;
+    wallet: WalletManagement;
+    sealManager: SealManager;
+    params: BlobParams;
+}
+
+/**
+ * Storage flow against the in-memory Walrus backend and local Sui/Seal network.
+ * Runs the real SealManager and storage.ts code without any network access.
+ */
+describe('Storage Tests (local network)', () => {
+    const testContent = 'Hello, Walrus Storage!';
+    let baseDir: string;
+    let network: LocalNetwork;
+    let alice: LocalUser;
+    let bob: LocalUser;
+    let testFile: string;
+
+    function createUser(userName: string, walBalance: bigint = WAL_BALANCE, backendOptions: MemoryWalrusBackendOptions = {}): LocalUser {
+        const { address, wallet } = createLocalUser(network, baseDir, userName, { walBalance, backendOptions });
+        return {
+            address,
+            wallet,
+            sealManager: new SealManager(wallet, WALIA_SEAL_PACKAGE_ID, network.sealClient),
+            params: {
+                epochs: 2,
+                deletable: true,
+                clientConf: wallet.getUserEnvironment(),
+                attributes: { name: 'test.txt' },
+            },
+        };
+    }
+
+    beforeAll(() => {
+        baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walia-local-'));
+        network = new LocalNetwork({ waliaSealPackageId: WALIA_SEAL_PACKAGE_ID });
+        alice = createUser('alice');
+        bob = createUser('bob');
+    });
+
+    afterAll(() => {
+        fs.rmSync(baseDir, { recursive: true, force: true });
+    });
+
+    // some tests store with keepSource false, so recreate the source file before each test
+    beforeEach(() => {
+        testFile = path.join(baseDir, 'test.txt');
+        fs.writeFileSync(testFile, testContent);
+    });
+
+    it('should store and read a file', async () => {
+        const storeResult = await store(testFile, { ...alice.params, attributes: { name: 'test.txt' } }, alice.sealManager);
+        expect(storeResult.blobId).toBeDefined();
+        expect(storeResult.objectId).toBeDefined();
+        expect(storeResult.storageCost).toBeGreaterThan(0);
+        expect(storeResult.encodedSize).toBeGreaterThan(storeResult.unencodedSize);
+        expect(storeResult.encodingType).toBe('RS2');
+        expect(network.getBalance(alice.address, network.walCoinType)).toBe(WAL_BALANCE - BigInt(storeResult.storageCost));
+
+        const attributes = await get_blob_attributes(alice.params.clientConf, storeResult.objectId);
+        expect(attributes['name']).toBe('test.txt');
+        expect(attributes['capId']).toBeDefined();
+        expect(attributes['whitelistId']).toBeDefined();
+
+        const blobs = await list_blobs(alice.params.clientConf);
+        const storedBlob = blobs.find(b => b.blobId === storeResult.blobId);
+        expect(storedBlob?.deletable).toBe(true);
+        expect(storedBlob?.name).toBe('test.txt');
+        // Stored for 2 one-day epochs, from the start of the current epoch
+        expect(storedBlob).toMatchObject({
+            isExpired: false,
+            epochsUntilExpiry: 2,
+            daysUntilExpiry: 1,
+            expiresAt: new Date(network.getEpochStart().getTime() + 2 * 86_400_000).toISOString(),
+        });
+
+        const decryptedFilePath = await read(storeResult.blobId, alice.params, alice.sealManager);
+        expect(path.dirname(decryptedFilePath)).toBe(getDataDir(alice.wallet));
+        expect(fs.readFileSync(decryptedFilePath, 'utf8')).toBe(testContent);
+        fs.unlinkSync(decryptedFilePath);
+    });
+
+    it('should keep the source file and remove only the encrypted copy', async () => {
+        await store(testFile, { ...alice.params, attributes: {} }, alice.sealManager);
+        expect(fs.readFileSync(testFile, 'utf8')).toBe(testContent);
+        expect(fs.readdirSync(getDataDir(alice.wallet)).filter(name => name.endsWith('.enc'))).toHaveLength(0);
+
+        await store(testFile, { ...alice.params, attributes: {}, keepSource: false }, alice.sealManager);
+        expect(fs.existsSync(testFile)).toBe(false);
+    });
+
+    it('should keep the source file when storing fails', async () => {
+        const dave = createUser('dave', 0n);
+        await expect(store(testFile, { ...dave.params, keepSource: false }, dave.sealManager)).rejects.toThrow();
+        expect(fs.readFileSync(testFile, 'utf8')).toBe(testContent);
+        expect(fs.readdirSync(getDataDir(dave.wallet)).filter(name => name.endsWith('.enc'))).toHaveLength(0);
+    });
+
+    it('should seal only the data key and still decode legacy files', async () => {
+        const { encodedFilePath, whitelistId, keyId } = await alice.sealManager.encodeFile(testFile, baseDir);
+        expect(fs.readFileSync(encodedFilePath).subarray(0, 8).toString()).toBe('WALIAENV');
+        expect(fs.readFileSync(await alice.sealManager.decodeFile(encodedFilePath, whitelistId, keyId), 'utf8')).toBe(testContent);
+
+        // Earlier versions encrypted the whole file with Seal, under the whitelist ID
+        const legacyPath = path.join(baseDir, 'legacy.txt.enc');
+        fs.writeFileSync(legacyPath, await alice.sealManager.encrypt(testContent, whitelistId));
+        expect(fs.readFileSync(await alice.sealManager.decodeFile(legacyPath, whitelistId), 'utf8')).toBe(testContent);
+    });
+
+    it('should reuse the whitelist of an access group with a fresh key ID per file', async () => {
+        const first = await store(testFile, { ...alice.params, attributes: {}, accessGroup: 'family' }, alice.sealManager);
+        const second = await store(testFile, { ...alice.params, attributes: {}, accessGroup: 'family' }, alice.sealManager);
+        const firstAttributes = await get_blob_attributes(alice.params.clientConf, first.objectId);
+        const secondAttributes = await get_blob_attributes(alice.params.clientConf, second.objectId);
+
+        const [group] = alice.sealManager.listAccessGroups();
+        expect(group.name).toBe('family');
+        expect(firstAttributes.whitelistId).toBe(group.whitelistId);
+        expect(secondAttributes.whitelistId).toBe(group.whitelistId);
+        expect(firstAttributes.accessGroup).toBe('family');
+        expect(firstAttributes.keyId).not.toBe(secondAttributes.keyId);
+        expect(firstAttributes.keyId.startsWith(group.whitelistId.slice(2))).toBe(true);
+
+        // The group whitelist only exists on this network, so other environments do not see it
+        const registry = JSON.parse(fs.readFileSync(path.join(alice.wallet.getWalletDirectory(), 'access_groups.json'), 'utf8'));
+        expect(Object.keys(registry)).toEqual(['localnet']);
+        expect(new AccessGroupRegistry(alice.wallet.getWalletDirectory(), 'testnet').list()).toEqual([]);
+
+        // One membership of the group whitelist grants access to every file
+        const encryptedPath = path.join(baseDir, `${second.blobId}.enc`);
+        await bob.params.clientConf.walrusBackend!.read(second.blobId, encryptedPath);
+        await expect(bob.sealManager.decodeFile(encryptedPath, group.whitelistId, secondAttributes.keyId)).rejects.toThrow();
+        await alice.sealManager.addMembersToWhitelistViaCap(group.whitelistId, group.capId, [bob.address]);
+        const decryptedFilePath = await bob.sealManager.decodeFile(encryptedPath, group.whitelistId, secondAttributes.keyId);
+        expect(fs.readFileSync(decryptedFilePath, 'utf8')).toBe(testContent);
+
+        expect(fs.readFileSync(await read(first.blobId, alice.params, alice.sealManager), 'utf8')).toBe(testContent);
+    });
+
+    it('should not decrypt for addresses outside the whitelist', async () => {
+        const storeResult = await store(testFile, { ...alice.params, attributes: {} }, alice.sealManager);
+        const attributes = await get_blob_attributes(alice.params.clientConf, storeResult.objectId);
+
+        // Walrus content is public, only the Seal policy protects it
+        const encryptedPath = path.join(baseDir, `${storeResult.blobId}.enc`);
+        await bob.params.clientConf.walrusBackend!.read(storeResult.blobId, encryptedPath);
+        await expect(bob.sealManager.decodeFile(encryptedPath, attributes.whitelistId)).rejects.toThrow();
+    });
+
+    it('should send a blob that the recipient can read and burn', async () => {
+        const storeResult = await store(testFile, { ...alice.params, attributes: {} }, alice.sealManager);
+        const { capId, whitelistId } = await get_blob_attributes(alice.params.clientConf, storeResult.objectId);
+
+        await sendBlob(storeResult.objectId, bob.address, alice.sealManager);
+
+        const aliceBlobs = await list_blobs(alice.params.clientConf);
+        expect(aliceBlobs.find(b => b.id === storeResult.objectId)).toBeUndefined();
+
+        const objectInfo = await network.suiClient.getObject({ id: storeResult.objectId, options: { showOwner: true } });
+        expect((objectInfo.data!.owner as { AddressOwner: string }).AddressOwner).toBe(bob.address);
+        const capInfo = await network.suiClient.getObject({ id: capId, options: { showOwner: true } });
+        expect((capInfo.data!.owner as { AddressOwner: string }).AddressOwner).toBe(bob.address);
+
+        const entries = await alice.sealManager.getWhitelistEntries(whitelistId);
+        expect(entries).toEqual(expect.arrayContaining([alice.address, bob.address]));
+
+        const decryptedFilePath = await read(storeResult.blobId, bob.params, bob.sealManager);
+        expect(fs.readFileSync(decryptedFilePath, 'utf8')).toBe(testContent);
+
+        await burnBlobs(bob.params.clientConf, { blobObjectIds: [storeResult.objectId] });
+        const bobBlobs = await list_blobs(bob.params.clientConf, true);
+        expect(bobBlobs.find(b => b.id === storeResult.objectId)).toBeUndefined();
+    });
+
+    it('should share and revoke access while keeping ownership', async () => {
+        const storeResult = await store(testFile, { ...alice.params, attributes: {} }, alice.sealManager);
+        const { capId, whitelistId, keyId } = await get_blob_attributes(alice.params.clientConf, storeResult.objectId);
+        const encryptedPath = path.join(baseDir, `${storeResult.blobId}.enc`);
+        const decodeAsBob = async () => {
+            await bob.params.clientConf.walrusBackend!.read(storeResult.blobId, encryptedPath);
+            return fs.readFileSync(await bob.sealManager.decodeFile(encryptedPath, whitelistId, keyId), 'utf8');
+        };
+
+        const shared = await shareBlob(storeResult.objectId, [bob.address], alice.sealManager);
+        expect(shared.changed).toEqual([bob.address]);
+        expect(shared.members).toEqual(expect.arrayContaining([alice.address, bob.address]));
+        expect(await decodeAsBob()).toBe(testContent);
+
+        // Sharing again is a no-op, and nothing was transferred
+        expect((await shareBlob(storeResult.objectId, [bob.address], alice.sealManager)).changed).toEqual([]);
+        for (const objectId of [storeResult.objectId, capId]) {
+            const objectInfo = await network.suiClient.getObject({ id: objectId, options: { showOwner: true } });
+            expect((objectInfo.data!.owner as { AddressOwner: string }).AddressOwner).toBe(alice.address);
+        }
+
+        const revoked = await revokeBlob(storeResult.objectId, [bob.address], alice.sealManager);
+        expect(revoked.changed).toEqual([bob.address]);
+        expect(revoked.members).toEqual([alice.address]);
+        await expect(decodeAsBob()).rejects.toThrow();
+
+        await expect(revokeBlob(storeResult.objectId, [alice.address], alice.sealManager)).rejects.toThrow('wallet owner');
+    });
+
+    it('should grant access that expires with the on-chain clock', async () => {
+        const storeResult = await store(testFile, { ...alice.params, attributes: {} }, alice.sealManager);
+        const { capId, whitelistId, keyId } = await get_blob_attributes(alice.params.clientConf, storeResult.objectId);
+        const encryptedPath = path.join(baseDir, `${storeResult.blobId}.enc`);
+        const decodeAsBob = async () => {
+            await bob.params.clientConf.walrusBackend!.read(storeResult.blobId, encryptedPath);
+            return fs.readFileSync(await bob.sealManager.decodeFile(encryptedPath, whitelistId, keyId), 'utf8');
+        };
+
+        // Revoking removes a grant before it expires
+        await shareBlobTemporarily(storeResult.objectId, [bob.address], expiryFromDays(1), alice.sealManager);
+        expect((await revokeBlob(storeResult.objectId, [bob.address], alice.sealManager)).changed).toEqual([bob.address]);
+        expect(await alice.sealManager.getTemporaryGrants(whitelistId)).toEqual([]);
+        await expect(decodeAsBob()).rejects.toThrow();
+
+        const granted = await shareBlobTemporarily(storeResult.objectId, [alice.address, bob.address], expiryFromDays(7), alice.sealManager);
+        expect(granted.granted).toEqual([bob.address]);
+        const [grant] = await alice.sealManager.getTemporaryGrants(whitelistId);
+        expect(grant.address).toBe(bob.address);
+        expect(grant.expiresAt.toISOString()).toBe(granted.expiresAt);
+        expect(await decodeAsBob()).toBe(testContent);
+        // seal_approve keeps the signature of the first published version, without grants
+        const untimed = await bob.sealManager.constructTxBytes([keyId], whitelistId);
+        expect(() => network.approveSealRequest(bob.address, WALIA_SEAL_PACKAGE_ID, untimed)).toThrow('MoveAbort');
+
+        network.advanceClock(7 * 24 * 60 * 60 * 1000);
+        await expect(decodeAsBob()).rejects.toThrow();
+        // The Move module rejects grants that would already be expired on-chain
+        await expect(alice.sealManager.grantTemporaryAccess(whitelistId, capId, bob.address, expiryFromDays(1))).rejects.toThrow();
+    });
+
+    it('should rotate the key of a blob after revoking a reader', async () => {
+        const storeResult = await store(testFile, { ...alice.params, attributes: { name: 'test.txt' } }, alice.sealManager);
+        const before = await get_blob_attributes(alice.params.clientConf, storeResult.objectId);
+        await shareBlob(storeResult.objectId, [bob.address], alice.sealManager);
+        await revokeBlob(storeResult.objectId, [bob.address], alice.sealManager);
+
+        const rotated = await rotateBlobKey(storeResult.objectId, alice.sealManager);
+        expect(rotated.previousObjectId).toBe(storeResult.objectId);
+        expect(rotated.burned).toBe(true);
+        expect(rotated.whitelistId).toBe(before.whitelistId);
+        expect(rotated.keyId).not.toBe(before.keyId);
+
+        const after = await get_blob_attributes(alice.params.clientConf, rotated.objectId);
+        expect(after.name).toBe('test.txt');
+        expect(after.keyId).toBe(rotated.keyId);
+        const blobs = await list_blobs(alice.params.clientConf);
+        expect(blobs.find(b => b.id === storeResult.objectId)).toBeUndefined();
+        expect(blobs.find(b => b.id === rotated.objectId)?.storage.endEpoch).toBe(network.getCurrentEpoch() + alice.params.epochs!);
+        expect(fs.readFileSync(await read(rotated.blobId, alice.params, alice.sealManager), 'utf8')).toBe(testContent);
+    });
+
+    it('should rotate a blob to a new whitelist with the same readers', async () => {
+        const storeResult = await store(testFile, { ...alice.params, attributes: {} }, alice.sealManager);
+        const before = await get_blob_attributes(alice.params.clientConf, storeResult.objectId);
+        await shareBlob(storeResult.objectId, [bob.address], alice.sealManager);
+
+        const rotated = await rotateBlobKey(storeResult.objectId, alice.sealManager, { newWhitelist: true, epochs: 1 });
+        expect(rotated.whitelistId).not.toBe(before.whitelistId);
+        expect(await alice.sealManager.getWhitelistEntries(rotated.whitelistId)).toEqual(expect.arrayContaining([alice.address, bob.address]));
+
+        const encryptedPath = path.join(baseDir, `${rotated.blobId}.enc`);
+        await bob.params.clientConf.walrusBackend!.read(rotated.blobId, encryptedPath);
+        const decryptedFilePath = await bob.sealManager.decodeFile(encryptedPath, rotated.whitelistId, rotated.keyId);
+        expect(fs.readFileSync(decryptedFilePath, 'utf8')).toBe(testContent);
+    });
+
+    it('should keep the time-limited grants when rotating to a new whitelist', async () => {
+        const storeResult = await store(testFile, { ...alice.params, attributes: {} }, alice.sealManager);
+        const granted = await shareBlobTemporarily(storeResult.objectId, [bob.address], expiryFromDays(30), alice.sealManager);
+
+        const rotated = await rotateBlobKey(storeResult.objectId, alice.sealManager, { newWhitelist: true, epochs: 1 });
+        const grants = await alice.sealManager.getTemporaryGrants(rotated.whitelistId);
+        expect(grants.map(grant => [grant.address, grant.expiresAt.toISOString()])).toEqual([[bob.address, granted.expiresAt]]);
+        expect(await alice.sealManager.getWhitelistEntries(rotated.whitelistId)).toEqual([alice.address]);
+
+        const encryptedPath = path.join(baseDir, `${rotated.blobId}.enc`);
+        await bob.params.clientConf.walrusBackend!.read(rotated.blobId, encryptedPath);
+        const decryptedFilePath = await bob.sealManager.decodeFile(encryptedPath, rotated.whitelistId, rotated.keyId);
+        expect(fs.readFileSync(decryptedFilePath, 'utf8')).toBe(testContent);
+    });
+
+    it('should revoke and rotate on a package without time-limited grants', async () => {
+        // The first published version of walia_seal has no timed functions
+        const firstNetwork = new LocalNetwork({ waliaSealPackageId: WALIA_SEAL_PACKAGE_ID, timedGrants: false });
+        const lena = createLocalUser(firstNetwork, baseDir, 'lena', { walBalance: WAL_BALANCE });
+        const mike = createLocalUser(firstNetwork, baseDir, 'mike');
+        const nina = createLocalUser(firstNetwork, baseDir, 'nina');
+        const sealManager = new SealManager(lena.wallet, WALIA_SEAL_PACKAGE_ID, firstNetwork.sealClient);
+        const clientConf = lena.wallet.getUserEnvironment();
+        const storeResult = await store(testFile, { clientConf, epochs: 2, deletable: true, attributes: { name: 'test.txt' } }, sealManager);
+        await shareBlob(storeResult.objectId, [mike.address, nina.address], sealManager);
+
+        const revoked = await revokeBlob(storeResult.objectId, [mike.address], sealManager);
+        expect(revoked.changed).toEqual([mike.address]);
+        await expect(shareBlobTemporarily(storeResult.objectId, [mike.address], expiryFromDays(30), sealManager)).rejects.toThrow();
+
+        const rotation = await rotateBlobKey(storeResult.objectId, sealManager, { newWhitelist: true });
+        expect(rotation.burned).toBe(true);
+        expect((await list_blobs(clientConf)).map(blob => blob.id)).toEqual([rotation.objectId]);
+        expect(await sealManager.getWhitelistEntries(rotation.whitelistId)).toEqual(expect.arrayContaining([nina.address]));
+    });
+
+    it('should expire blobs and burn all expired blobs', async () => {
+        const storeResult = await store(testFile, { ...alice.params, epochs: 1, attributes: {} }, alice.sealManager);
+
+        network.advanceEpochs(1);
+
+        const activeBlobs = await list_blobs(alice.params.clientConf);
+        expect(activeBlobs.find(b => b.id === storeResult.objectId)).toBeUndefined();
+        const allBlobs = await list_blobs(alice.params.clientConf, true);
+        expect(allBlobs.find(b => b.id === storeResult.objectId)).toMatchObject({ isExpired: true, endDate: 'Expired', epochsUntilExpiry: 0 });
+        await expect(read(storeResult.blobId, alice.params, alice.sealManager)).rejects.toThrow();
+
+        await burnBlobs(alice.params.clientConf, { all_expired: true });
+        const remainingBlobs = await list_blobs(alice.params.clientConf, true);
+        expect(remainingBlobs.find(b => b.id === storeResult.objectId)).toBeUndefined();
+        expect(remainingBlobs.every(b => b.storage.endEpoch > network.getCurrentEpoch())).toBe(true);
+    });
+
+    it('should extend a blob and its chunks before they expire', async () => {
+        const frank = createUser('frank', WAL_BALANCE, { maxBlobSize: 32 * 1024 });
+        const content = randomBytes(80 * 1024);
+        fs.writeFileSync(testFile, content);
+        const storeResult = await store(testFile, { ...frank.params, epochs: 1 }, frank.sealManager);
+        const endEpoch = network.getCurrentEpoch() + 1;
+        const walBalance = network.getBalance(frank.address, network.walCoinType);
+
+        const quote = await extendBlob(frank.params.clientConf, storeResult.objectId, 3, { dryRun: true });
+        expect(quote).toMatchObject({ previousEndEpoch: endEpoch, endEpoch: endEpoch + 3, dryRun: true });
+        // The manifest blob and its 3 chunks
+        expect(quote.extendedObjectIds).toHaveLength(4);
+        expect(quote.estimatedCost).toBeGreaterThan(0);
+        expect(network.getBalance(frank.address, network.walCoinType)).toBe(walBalance);
+
+        const result = await extendBlob(frank.params.clientConf, storeResult.objectId, 3);
+        expect(result.estimatedCost).toBe(quote.estimatedCost);
+        expect(network.getBalance(frank.address, network.walCoinType)).toBe(walBalance - BigInt(quote.estimatedCost));
+        const blobs = await getWalrusBackend(frank.params.clientConf).listBlobs(true);
+        expect(blobs.map(blob => blob.storage.endEpoch)).toEqual(Array(4).fill(endEpoch + 3));
+
+        network.advanceEpochs(2);
+        const readPath = await read(storeResult.blobId, frank.params, frank.sealManager);
+        expect(fs.readFileSync(readPath)).toEqual(content);
+        fs.unlinkSync(readPath);
+
+        await expect(extendBlob(frank.params.clientConf, storeResult.objectId, 60)).rejects.toThrow('at most 53 epochs ahead');
+        network.advanceEpochs(2);
+        await expect(extendBlob(frank.params.clientConf, storeResult.objectId, 1)).rejects.toThrow('has expired');
+    });
+
+    it('should store files larger than the maximum blob size as chunks', async () => {
+        const maxBlobSize = 32 * 1024;
+        const erin = createUser('erin', WAL_BALANCE, { maxBlobSize });
+        const frank = createUser('frank', WAL_BALANCE, { maxBlobSize });
+        const largeFile = path.join(baseDir, 'large.bin');
+        const largeContent = randomBytes(100 * 1024);
+        fs.writeFileSync(largeFile, largeContent);
+
+        const storeResult = await store(largeFile, { ...erin.params, attributes: { name: 'large.bin' } }, erin.sealManager);
+        const attributes = await get_blob_attributes(erin.params.clientConf, storeResult.objectId);
+        const chunkObjectIds = attributes.walia_chunk_objects.split(',');
+        expect(attributes.walia_role).toBe('manifest');
+        expect(attributes.name).toBe('large.bin');
+        expect(chunkObjectIds).toHaveLength(4);
+        expect(storeResult.unencodedSize).toBeGreaterThan(largeContent.length);
+
+        // Chunks are listed through their manifest
+        const blobs = await list_blobs(erin.params.clientConf);
+        expect(blobs.map(b => b.id)).toEqual([storeResult.objectId]);
+        for (const chunkObjectId of chunkObjectIds) {
+            const chunkAttributes = await get_blob_attributes(erin.params.clientConf, chunkObjectId);
+            expect(chunkAttributes.walia_role).toBe('chunk');
+            expect(chunkAttributes.whitelistId).toBe(attributes.whitelistId);
+        }
+
+        const decryptedFilePath = await read(storeResult.blobId, erin.params, erin.sealManager);
+        expect(fs.readFileSync(decryptedFilePath).equals(largeContent)).toBe(true);
+
+        // Sending and burning the manifest applies to its chunks
+        await sendBlob(storeResult.objectId, frank.address, erin.sealManager);
+        expect(await erin.params.clientConf.walrusBackend!.listBlobs(true)).toHaveLength(0);
+        expect(fs.readFileSync(await read(storeResult.blobId, frank.params, frank.sealManager)).equals(largeContent)).toBe(true);
+
+        await burnBlobs(frank.params.clientConf, { blobObjectIds: [storeResult.objectId] });
+        expect(await frank.params.clientConf.walrusBackend!.listBlobs(true)).toHaveLength(0);
+    });
+
+    it('should burn the chunks already stored when a chunked store fails', async () => {
+        const kate = createUser('kate', WAL_BALANCE, { maxBlobSize: 32 * 1024 });
+        const backend = getWalrusBackend(kate.params.clientConf);
+        const largeFile = path.join(baseDir, 'interrupted.bin');
+        fs.writeFileSync(largeFile, randomBytes(80 * 1024));
+
+        // The third chunk fails to store
+        const storeBlob = backend.store.bind(backend);
+        vi.spyOn(backend, 'store')
+            .mockImplementationOnce(storeBlob)
+            .mockImplementationOnce(storeBlob)
+            .mockRejectedValueOnce(new Error('publisher unavailable'));
+        await expect(store(largeFile, { ...kate.params, attributes: {} }, kate.sealManager)).rejects.toThrow('publisher unavailable');
+        expect(await backend.listBlobs(true)).toHaveLength(0);
+
+        // Chunks that no manifest references are listed
+        const chunkFile = path.join(baseDir, 'orphan.bin');
+        fs.writeFileSync(chunkFile, 'orphan chunk');
+        const orphanObjectId = (await backend.store(chunkFile, { epochs: 2 })).newlyCreated!.blobObject.id;
+        await add_blob_attributes(kate.params.clientConf, orphanObjectId, { walia_role: 'chunk' });
+        expect((await list_blobs(kate.params.clientConf)).map(b => b.id)).toEqual([orphanObjectId]);
+    });
+
+    it('should reject chunks that do not match the manifest', async () => {
+        const gina = createUser('gina', WAL_BALANCE, { maxBlobSize: 32 * 1024 });
+        const largeFile = path.join(baseDir, 'tampered.bin');
+        fs.writeFileSync(largeFile, randomBytes(40 * 1024));
+
+        const storeResult = await store(largeFile, { ...gina.params, attributes: {} }, gina.sealManager);
+        const attributes = await get_blob_attributes(gina.params.clientConf, storeResult.objectId);
+        const firstChunkObjectId = attributes.walia_chunk_objects.split(',')[0];
+        const firstChunk = (await gina.params.clientConf.walrusBackend!.listBlobs(false)).find(b => b.id === firstChunkObjectId)!;
+        network.getBlobContent(firstChunk.blobId)![0] ^= 1;
+
+        await expect(read(storeResult.blobId, gina.params, gina.sealManager)).rejects.toThrow('does not match the manifest');
+        expect(fs.readdirSync(getDataDir(gina.wallet))).toHaveLength(0);
+    });
+
+    it('should fail to store without enough WAL', async () => {
+        const carol = createUser('carol', 0n);
+        await expect(store(testFile, carol.params, carol.sealManager)).rejects.toThrow('Insufficient balance');
+        expect(await list_blobs(carol.params.clientConf, true)).toHaveLength(0);
+    });
+
+    it('should preflight the SUI and WAL a store needs', async () => {
+        const henry = createUser('henry', 1_000n, { maxBlobSize: 1024 });
+        const preflight = await preflightStore(henry.sealManager, henry.params.clientConf, { fileSize: 100, epochs: 2 });
+
+        expect(preflight).toMatchObject({ fileSize: 100, epochs: 2, blobs: 1, canStore: false });
+        expect(preflight.available).toEqual({ sui: '0', wal: '0.000001' });
+        expect(preflight.shortfalls.map(shortfall => shortfall.coin)).toEqual(['SUI', 'WAL']);
+        const walShortfall = preflight.shortfalls.find(shortfall => shortfall.coin === 'WAL')!;
+        expect(walShortfall.needed).toBe(preflight.needed.wal);
+        expect(Number(walShortfall.missing)).toBeCloseTo(Number(preflight.needed.wal) - 0.000001, 9);
+
+        network.mint(henry.address, 1_000_000_000n);
+        network.mint(henry.address, WAL_BALANCE, network.walCoinType);
+        expect(await preflightStore(henry.sealManager, henry.params.clientConf, { fileSize: 100, epochs: 2 }))
+            .toMatchObject({ shortfalls: [], canStore: true });
+
+        // Chunked files need a blob per chunk plus the manifest
+        const chunked = await preflightStore(henry.sealManager, henry.params.clientConf, { fileSize: 2500, createsWhitelist: false });
+        expect(chunked).toMatchObject({ epochs: 1, blobs: 4 });
+        expect(chunked.needed.sui).toBe('0.12');
+    });
+
+    it('should approximate the preflight when the Walrus info is unavailable', async () => {
+        const judy = createUser('judy');
+        vi.spyOn(getWalrusBackend(judy.params.clientConf), 'info').mockRejectedValue(new Error('info unavailable'));
+
+        const preflight = await preflightStore(judy.sealManager, judy.params.clientConf, { fileSize: 100, epochs: 2 });
+        expect(preflight).toMatchObject({ blobs: 1, approximate: true });
+        expect(Number(preflight.needed.wal)).toBeGreaterThan(0);
+    });
+
+    it('should calibrate the cost estimator with the blobs stored', async () => {
+        const ivan = createUser('ivan');
+        const estimator = new WalrusCostEstimator(ivan.params.clientConf);
+        expect((await estimator.quote({ sizeBytes: 100, epochs: 2 })).estimationError?.source).toBe('exampleBlobs');
+
+        const small = await store(testFile, ivan.params, ivan.sealManager);
+        fs.writeFileSync(testFile, randomBytes(64 * 1024));
+        const large = await store(testFile, ivan.params, ivan.sealManager);
+        const samples = loadCostSamples(ivan.params.clientConf);
+        expect(samples.map(sample => sample.encodedSize)).toEqual([small.encodedSize, large.encodedSize]);
+        expect(samples[1]).toMatchObject({ unencodedSize: large.unencodedSize, cost: large.storageCost, epochs: 2 });
+
+        await estimator.refreshWalrusInfo();
+        const quote = await estimator.quote({ sizeBytes: large.unencodedSize, epochs: 2 });
+        expect(quote.estimationError).toMatchObject({ source: 'samples', sampleCount: 2 });
+        expect(quote.estimationError!.maxRelativeError).toBeLessThan(1e-6);
+        expect(quote.finalEncodedSizeBytes).toBeCloseTo(large.encodedSize, 0);
+        expect(quote.estimatedCost).toBe(large.storageCost);
+    });
+
+    it('should read blobs and attributes from the blob catalog', async () => {
+        const jack = createUser('jack');
+        const backend = jack.params.clientConf.walrusBackend!;
+        const storeResult = await store(testFile, { ...jack.params }, jack.sealManager);
+        await list_blobs(jack.params.clientConf);
+        expect(loadBlobCatalog(jack.params.clientConf)[storeResult.objectId]).toMatchObject({
+            blobId: storeResult.blobId,
+            endEpoch: network.getCurrentEpoch() + 2,
+            attributes: { name: 'test.txt' },
+        });
+
+        const listBlobs = vi.spyOn(backend, 'listBlobs');
+        const getBlobAttributes = vi.spyOn(backend, 'getBlobAttributes');
+        try {
+            const decryptedFilePath = await read(storeResult.blobId, jack.params, jack.sealManager);
+            expect(fs.readFileSync(decryptedFilePath, 'utf8')).toBe(testContent);
+            fs.unlinkSync(decryptedFilePath);
+            await list_blobs(jack.params.clientConf);
+            expect(listBlobs).toHaveBeenCalledTimes(1);
+            expect(getBlobAttributes).not.toHaveBeenCalled();
+
+            // Writing attributes invalidates the entry of the blob
+            await add_blob_attributes(jack.params.clientConf, storeResult.objectId, { name: 'renamed.txt' });
+            expect((await get_blob_attributes(jack.params.clientConf, storeResult.objectId)).name).toBe('renamed.txt');
+            expect(getBlobAttributes).toHaveBeenCalledTimes(1);
+        } finally {
+            listBlobs.mockRestore();
+            getBlobAttributes.mockRestore();
+        }
+
+        // Extending a blob invalidates its entry, and the next listing records the new expiry
+        await list_blobs(jack.params.clientConf);
+        await extendBlob(jack.params.clientConf, storeResult.objectId, 1);
+        expect(loadBlobCatalog(jack.params.clientConf)[storeResult.objectId]).toBeUndefined();
+        await list_blobs(jack.params.clientConf);
+        expect(loadBlobCatalog(jack.params.clientConf)[storeResult.objectId].endEpoch).toBe(network.getCurrentEpoch() + 3);
+
+        await burnBlobs(jack.params.clientConf, { blobObjectIds: [storeResult.objectId] });
+        expect(loadBlobCatalog(jack.params.clientConf)[storeResult.objectId]).toBeUndefined();
+    });
+});
@@ -0,0 +1,85 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { LocalNetwork } from "../local-network";
+import { parseCoinAmount } from "../wallet-management";
+import { LocalUser, WALIA_SEAL_PACKAGE_ID, createLocalUser } from "./helper/local-wallet";
+
+const SUI_COIN_TYPE = '0x0000000000000000000000000000000000000000000000000000000000000002::sui::SUI';
+const SUI_BALANCE = 5_000_000_000n; // 5 SUI
+const WAL_BALANCE = 10_000_000_000n; // 10 WAL
+
+/**
+ * SUI and WAL transfers between managed users against the local Sui network
+ */
+describe('Transfers (local network)', () => {
+  let baseDir: string;
+  let network: LocalNetwork;
+  let alice: LocalUser;
+  let bob: LocalUser;
+
+  beforeAll(() => {
+    baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walia-transfer-'));
+    network = new LocalNetwork({ waliaSealPackageId: WALIA_SEAL_PACKAGE_ID });
+    alice = createLocalUser(network, baseDir, 'alice', { suiBalance: SUI_BALANCE, walBalance: WAL_BALANCE });
+    bob = createLocalUser(network, baseDir, 'bob', { suiBalance: SUI_BALANCE, walBalance: WAL_BALANCE });
+  });
+
+  afterAll(() => {
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('should parse decimal amounts into MIST', () => {
+    expect(parseCoinAmount('1.5')).toBe(1_500_000_000n);
+    expect(parseCoinAmount(undefined)).toBe(0n);
+    expect(() => parseCoinAmount('-1')).toThrow('Invalid amount');
+    expect(() => parseCoinAmount('0.0000000001')).toThrow('Invalid amount');
+  });
+
+  it('should dry-run a transfer without moving funds', async () => {
+    const result = await alice.wallet.transfer('bob', { sui: '0.5', wal: '2' }, { dryRun: true });
+
+    expect(result).toMatchObject({ sender: alice.address, recipient: bob.address, sui: '0.5', wal: '2', dryRun: true });
+    expect(result.digest).toBeUndefined();
+    expect(result.balanceChanges).toEqual(expect.arrayContaining([
+      { owner: alice.address, coinType: SUI_COIN_TYPE, amount: '-500000000' },
+      { owner: bob.address, coinType: SUI_COIN_TYPE, amount: '500000000' },
+      { owner: alice.address, coinType: expect.stringContaining('::wal::WAL'), amount: '-2000000000' },
+      { owner: bob.address, coinType: expect.stringContaining('::wal::WAL'), amount: '2000000000' },
+    ]));
+    expect(network.getBalance(alice.address)).toBe(SUI_BALANCE);
+    expect(network.getBalance(bob.address, network.walCoinType)).toBe(WAL_BALANCE);
+  });
+
+  it('should transfer SUI and WAL to a managed user', async () => {
+    const result = await alice.wallet.transfer('bob', { sui: '1', wal: '2.5' });
+
+    expect(result.dryRun).toBe(false);
+    expect(result.digest).toBeDefined();
+    expect(result.balanceChanges).toHaveLength(4);
+    expect(network.getBalance(alice.address)).toBe(SUI_BALANCE - 1_000_000_000n);
+    expect(network.getBalance(bob.address)).toBe(SUI_BALANCE + 1_000_000_000n);
+    expect(network.getBalance(alice.address, network.walCoinType)).toBe(WAL_BALANCE - 2_500_000_000n);
+    expect(network.getBalance(bob.address, network.walCoinType)).toBe(WAL_BALANCE + 2_500_000_000n);
+  });
+
+  it('should transfer WAL only to a Sui address', async () => {
+    const suiBalance = network.getBalance(bob.address);
+    const walBalance = network.getBalance(bob.address, network.walCoinType);
+    await alice.wallet.transfer(bob.address, { wal: '0.5' });
+
+    expect(network.getBalance(bob.address)).toBe(suiBalance);
+    expect(network.getBalance(bob.address, network.walCoinType)).toBe(walBalance + 500_000_000n);
+  });
+
+  it('should reject transfers that cannot be made', async () => {
+    await expect(alice.wallet.transfer('bob', { wal: '100' })).rejects.toThrow('Insufficient balance');
+    await expect(alice.wallet.transfer('bob', { sui: '100' }, { dryRun: true })).rejects.toThrow('InsufficientCoinBalance');
+    await expect(alice.wallet.transfer('bob', { sui: '100' })).rejects.toThrow('Transfer failed');
+    await expect(alice.wallet.transfer('alice', { sui: '1' })).rejects.toThrow('Cannot transfer to the sender address');
+    await expect(alice.wallet.transfer('carol', { sui: '1' })).rejects.toThrow('User directory does not exist for carol');
+    await expect(alice.wallet.transfer('bob', {})).rejects.toThrow('Nothing to transfer');
+    expect(network.getBalance(alice.address)).toBe(SUI_BALANCE - 1_000_000_000n);
+  });
+});
@@ -0,0 +1,70 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as yaml from "js-yaml";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { LocalNetwork } from "../local-network";
+import { getSuiAmountForWal } from "../wal-exchange";
+import { WalletManagement } from "../wallet-management";
+import { WALIA_SEAL_PACKAGE_ID, createLocalUser } from "./helper/local-wallet";
+
+const SUI_BALANCE = 5_000_000_000n; // 5 SUI
+const EXCHANGE_BALANCE = 3_000_000_000n; // 3 WAL
+
+/**
+ * SUI to WAL exchanges against the local Sui network
+ */
+describe('WAL exchange (local network)', () => {
+  let baseDir: string;
+  let network: LocalNetwork;
+  let exchangeId: string;
+  let address: string;
+  let wallet: WalletManagement;
+
+  beforeAll(() => {
+    baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walia-exchange-'));
+    network = new LocalNetwork({ waliaSealPackageId: WALIA_SEAL_PACKAGE_ID });
+    // 2 WAL for 1 SUI
+    exchangeId = network.createWalExchange(EXCHANGE_BALANCE, { wal: 2n, sui: 1n }).objectId;
+
+    ({ address, wallet } = createLocalUser(network, baseDir, 'alice', { suiBalance: SUI_BALANCE }));
+
+    const walrusConfigPath = path.join(baseDir, 'alice', 'walrus_client_config.yaml');
+    const context = (yaml.load(fs.readFileSync(walrusConfigPath, 'utf8')) as any).contexts.localnet;
+    wallet.updateWalrusConfig({ contexts: { localnet: { ...context, exchange_objects: [exchangeId] } } });
+  });
+
+  afterAll(() => {
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('should round the SUI needed for an amount of WAL up', () => {
+    expect(getSuiAmountForWal(3n, { wal: 2n, sui: 1n })).toBe(2n);
+    expect(getSuiAmountForWal(1_000n, { wal: 1n, sui: 1n })).toBe(1_000n);
+  });
+
+  it('should dry-run an exchange without moving funds', async () => {
+    const result = await wallet.exchangeWal({ wal: '1' }, { dryRun: true });
+
+    expect(result).toMatchObject({ sender: address, exchangeObject: exchangeId, sui: '0.5', wal: '1', dryRun: true });
+    expect(result.digest).toBeUndefined();
+    expect(network.getBalance(address)).toBe(SUI_BALANCE);
+    expect(network.getBalance(address, network.walCoinType)).toBe(0n);
+  });
+
+  it('should spend exactly the SUI needed for the WAL requested', async () => {
+    const result = await wallet.exchangeWal({ wal: '1.5' });
+
+    expect(result).toMatchObject({ sui: '0.75', wal: '1.5', dryRun: false });
+    expect(network.getBalance(address)).toBe(SUI_BALANCE - 750_000_000n);
+    expect(network.getBalance(address, network.walCoinType)).toBe(1_500_000_000n);
+    expect(network.getObject(exchangeId)!.fields.wal).toBe('1500000000');
+  });
+
+  it('should reject exchanges that cannot be made', async () => {
+    await expect(wallet.exchangeWal({ wal: '2' })).rejects.toThrow('No WAL exchange can provide');
+    await expect(wallet.exchangeWal({ sui: '1', wal: '1' })).rejects.toThrow('Provide either');
+    await expect(wallet.exchangeWal({ sui: '0' })).rejects.toThrow('Nothing to exchange');
+    expect(network.getBalance(address, network.walCoinType)).toBe(1_500_000_000n);
+  });
+});
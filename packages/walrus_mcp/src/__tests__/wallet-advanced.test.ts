@@ -2,6 +2,8 @@ import * as fs from "fs";
 import * as path from "path";
 import * as yaml from "js-yaml";
 import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { bcs } from "@mysten/sui/bcs";
+import { Transaction } from "@mysten/sui/transactions";
 
 import { 
   createWalletEnvironment, 
@@ -13,9 +15,6 @@ import {
 // Create a test directory
 const TEST_DIR = path.join(process.cwd(), 'test-wallets-advanced');
 
-// Mock address that will be used in tests
-const MOCK_ADDRESS = '0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
-
 // Mock SuiClient
 vi.mock('@mysten/sui/client', () => {
   return {
@@ -27,41 +26,32 @@ vi.mock('@mysten/sui/client', () => {
           coinObjectCount: 1,
           totalBalance: '1000000000', // 1 SUI in MIST
           lockedBalance: {}
+        }),
+        // Used to build transfer transactions
+        getCoins: vi.fn().mockResolvedValue({
+          data: [{
+            coinType: '0x2::sui::SUI',
+            coinObjectId: '0x' + 'c'.repeat(64),
+            version: '1',
+            digest: '11111111111111111111111111111111',
+            balance: '1000000000',
+            previousTransaction: '11111111111111111111111111111111'
+          }],
+          hasNextPage: false,
+          nextCursor: null
+        }),
+        getReferenceGasPrice: vi.fn().mockResolvedValue(1000n),
+        dryRunTransactionBlock: vi.fn().mockResolvedValue({
+          effects: {
+            status: { status: 'success' },
+            gasUsed: { computationCost: '1000000', storageCost: '0', storageRebate: '0' }
+          }
         })
       };
     })
   };
 });
 
-// Mock the exec function to avoid actually calling the Sui CLI
-vi.mock('child_process', () => ({
-  exec: (cmd: string, callback: (error: Error | null, result: { stdout: string, stderr: string }) => void) => {
-    // Mock the output of 'sui keytool generate ed25519 --json'
-    if (cmd === 'sui keytool generate ed25519 --json') {
-      const mockOutput = {
-        alias: null,
-        suiAddress: MOCK_ADDRESS,
-        publicBase64Key: 'ALrx3FqvT7/R8ErwdSDHYlF976KFamEasUliaL5TQh7r',
-        keyScheme: 'ed25519',
-        flag: 0,
-        mnemonic: 'casino verb current tiny glove home apart mushroom fix advance video planet system',
-        peerId: 'baf1dc5aaf4fbfd1f04af07520c762517defa2856a611ab1496268be53421eeb'
-      };
-      callback(null, { stdout: JSON.stringify(mockOutput), stderr: '' });
-      
-      // Create the mock key file in the current directory
-      fs.writeFileSync(`${MOCK_ADDRESS}.key`, 'mock key file content');
-    } 
-    // Handle the keytool import command with the new format
-    else if (cmd.match(/^sui keytool --keystore-path .* import ".*" ed25519 --alias .*/)) {
-      callback(null, { stdout: 'Keypair imported successfully', stderr: '' });
-    } 
-    else {
-      callback(new Error(`Unexpected command: ${cmd}`), { stdout: '', stderr: `Unexpected command: ${cmd}` });
-    }
-  }
-}));
-
 // No need to mock process.chdir anymore since we removed it from the implementation
 
 // Setup and teardown
@@ -136,7 +126,7 @@ describe('Advanced Wallet Management Functions', () => {
       const toWallet = await createWalletEnvironment(toUserName, TEST_DIR);
       
       // Build transaction
-      const suiAmount = '1000000';
+      const suiAmount = '0.001';
       const walAmount = '0';
       const serializedTx = await buildAndSerializeTransaction(
         fromUserName,
@@ -147,26 +137,18 @@ describe('Advanced Wallet Management Functions', () => {
       );
       
       // Parse the serialized transaction
-      const tx = JSON.parse(serializedTx);
-      
-      // Check if it has the expected structure
-      expect(tx).toHaveProperty('sender');
-      expect(tx).toHaveProperty('recipient');
-      expect(tx).toHaveProperty('suiAmount');
-      expect(tx).toHaveProperty('walAmount');
-      expect(tx).toHaveProperty('timestamp');
-      expect(tx).toHaveProperty('network');
+      const tx = Transaction.from(serializedTx).getData();
       
-      // Check if sender and recipient match
+      // Check if the sender pays the gas
       expect(tx.sender).toBe(fromWallet.address);
-      expect(tx.recipient).toBe(toWallet.address);
-      
-      // Check if amounts match
-      expect(tx.suiAmount).toBe(suiAmount);
-      expect(tx.walAmount).toBe(walAmount);
-      
-      // Check if network matches the default
-      expect(tx.network).toBe('testnet');
+      expect(tx.gasData.owner ?? tx.sender).toBe(fromWallet.address);
+      expect(tx.gasData.payment).toHaveLength(1);
+      
+      // Check if SUI is split from the gas coin and transferred to the recipient
+      expect(tx.commands.map(command => command.$kind)).toEqual(['SplitCoins', 'TransferObjects']);
+      const pureInput = (arg: any) => tx.inputs[arg.Input].Pure!.bytes;
+      expect(bcs.u64().fromBase64(pureInput(tx.commands[0].SplitCoins!.amounts[0]))).toBe('1000000');
+      expect(bcs.Address.fromBase64(pureInput(tx.commands[1].TransferObjects!.address))).toBe(toWallet.address);
     });
     
     it('should throw error if sender does not exist', async () => {
@@ -220,17 +202,12 @@ describe('Advanced Wallet Management Functions', () => {
       const serializedTx = await buildAndSerializeTransaction(
         fromUserName,
         toUserName,
-        '1000000',
+        '0.001',
         '0',
         TEST_DIR,
         activeEnv
       );
-      
-      // Parse the serialized transaction
-      const tx = JSON.parse(serializedTx);
-      
-      // Check if network in transaction matches specified environment
-      expect(tx.network).toBe(activeEnv);
+      expect(Transaction.from(serializedTx).getData().commands).toHaveLength(2);
       
       // Check if the environment was updated in the config
       const env = getSuiActiveEnvironment(fromUserName, TEST_DIR);
@@ -3,6 +3,7 @@ import * as path from "path";
 import * as yaml from "js-yaml";
 import axios from "axios";
 import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
 
 import { 
   createWalletEnvironment, 
@@ -11,47 +12,17 @@ import {
   updateSuiConfig,
   updateWalrusConfig,
   setActiveEnvironment,
-  getSuiActiveEnvironment
+  getSuiActiveEnvironment,
+  readSuiKeypair,
+  importWallet
 } from "../wallet-management";
 
 // Create a test directory
 const TEST_DIR = path.join(process.cwd(), 'test-wallets');
 
-// Mock address that will be used in tests
-const MOCK_ADDRESS = '0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
-
 // Mock axios for fetching Walrus config
 vi.mock('axios');
 
-// Mock the exec function to avoid actually calling the Sui CLI
-vi.mock('child_process', () => ({
-  exec: (cmd: string, callback: (error: Error | null, result: { stdout: string, stderr: string }) => void) => {
-    // Mock the output of 'sui keytool generate ed25519 --json'
-    if (cmd === 'sui keytool generate ed25519 --json') {
-      const mockOutput = {
-        alias: null,
-        suiAddress: MOCK_ADDRESS,
-        publicBase64Key: 'ALrx3FqvT7/R8ErwdSDHYlF976KFamEasUliaL5TQh7r',
-        keyScheme: 'ed25519',
-        flag: 0,
-        mnemonic: 'casino verb current tiny glove home apart mushroom fix advance video planet system',
-        peerId: 'baf1dc5aaf4fbfd1f04af07520c762517defa2856a611ab1496268be53421eeb'
-      };
-      callback(null, { stdout: JSON.stringify(mockOutput), stderr: '' });
-      
-      // Create the mock key file in the current directory
-      fs.writeFileSync(`${MOCK_ADDRESS}.key`, 'mock key file content');
-    } 
-    // Handle the keytool import command with the new format
-    else if (cmd.match(/^sui keytool --keystore-path .* import ".*" ed25519 --alias .*/)) {
-      callback(null, { stdout: 'Keypair imported successfully', stderr: '' });
-    } 
-    else {
-      callback(new Error(`Unexpected command: ${cmd}`), { stdout: '', stderr: `Unexpected command: ${cmd}` });
-    }
-  }
-}));
-
 // No need to mock process.chdir anymore since we removed it from the implementation
 
 // Setup and teardown
@@ -118,11 +89,11 @@ describe('Wallet Management Module', () => {
       expect(result).toHaveProperty('mnemonic');
       expect(result).toHaveProperty('keystore');
       
-      // Check if the address matches our mock
-      expect(result.address).toBe(MOCK_ADDRESS);
+      // Check if the address is derived from the generated mnemonic
+      expect(result.address).toBe(Ed25519Keypair.deriveKeypair(result.mnemonic!).toSuiAddress());
       
       // Check if the mnemonic is a string of multiple words
-      expect(result.mnemonic.split(' ').length).toBeGreaterThanOrEqual(12);
+      expect(result.mnemonic!.split(' ').length).toBeGreaterThanOrEqual(12);
       
       // Check if the user directory exists
       const userDir = path.join(TEST_DIR, userName);
@@ -141,6 +112,11 @@ describe('Wallet Management Module', () => {
       const suiConfigContent = fs.readFileSync(suiConfigPath, 'utf8');
       const suiConfig = yaml.load(suiConfigContent) as any;
       expect(suiConfig.keystore.File).toBe(path.join(userDir, 'sui.keystore'));
+      expect(suiConfig.active_address).toBe(result.address);
+
+      // The keystore is in the sui CLI format and holds the keypair of the address
+      expect(readSuiKeypair(suiConfigPath).keypair.toSuiAddress()).toBe(result.address);
+      expect(getPassPhrases(userName, TEST_DIR)).toEqual({ address: result.address, mnemonic: result.mnemonic });
     });
 
     it('should create a wallet environment with specified active environment', async () => {
@@ -173,6 +149,42 @@ describe('Wallet Management Module', () => {
       expect(walrusConfig.contexts.localnet.wallet_config.active_env).toBe('localnet');
     });
   });
+
+  describe('importWallet', () => {
+    const MNEMONIC = 'test test test test test test test test test test test junk';
+
+    it('should import a wallet from a mnemonic', async () => {
+      const result = await importWallet('imported-mnemonic', { mnemonic: ` ${MNEMONIC.toUpperCase()} ` }, TEST_DIR);
+
+      expect(result.address).toBe(Ed25519Keypair.deriveKeypair(MNEMONIC).toSuiAddress());
+      expect(getPassPhrases('imported-mnemonic', TEST_DIR)).toEqual({ address: result.address, mnemonic: MNEMONIC });
+
+      const suiConfigPath = path.join(TEST_DIR, 'imported-mnemonic', 'sui_client.yaml');
+      expect(fs.existsSync(path.join(TEST_DIR, 'imported-mnemonic', 'walrus_client_config.yaml'))).toBe(true);
+      expect(readSuiKeypair(suiConfigPath).keypair.toSuiAddress()).toBe(result.address);
+    });
+
+    it('should import a wallet from a suiprivkey private key', async () => {
+      const keypair = Ed25519Keypair.deriveKeypair(MNEMONIC);
+      const result = await importWallet('imported-key', { privateKey: keypair.getSecretKey() }, TEST_DIR);
+
+      expect(result.address).toBe(keypair.toSuiAddress());
+      expect(result.mnemonic).toBeUndefined();
+      expect(getPassPhrases('imported-key', TEST_DIR)).toEqual({ address: keypair.toSuiAddress(), mnemonic: undefined });
+
+      const suiConfigPath = path.join(TEST_DIR, 'imported-key', 'sui_client.yaml');
+      expect(readSuiKeypair(suiConfigPath).keypair.getSecretKey()).toBe(keypair.getSecretKey());
+    });
+
+    it('should reject invalid secrets and existing wallets', async () => {
+      await expect(importWallet('imported-invalid', { mnemonic: 'not a valid mnemonic' }, TEST_DIR)).rejects.toThrow('Invalid mnemonic');
+      await expect(importWallet('imported-invalid', { privateKey: 'suiprivkey1invalid' }, TEST_DIR)).rejects.toThrow('Invalid private key');
+      await expect(importWallet('imported-invalid', {}, TEST_DIR)).rejects.toThrow('Exactly one of mnemonic or privateKey');
+      expect(fs.existsSync(path.join(TEST_DIR, 'imported-invalid'))).toBe(false);
+
+      await expect(importWallet('imported-mnemonic', { mnemonic: MNEMONIC }, TEST_DIR)).rejects.toThrow('Wallet already exists');
+    });
+  });
   
   describe('getUserEnvironment', () => {
     it('should return the user environment configurations', async () => {
@@ -1,7 +1,13 @@
-import { beforeEach, describe, expect, it } from "vitest";
-import { ClientConfig } from "../wallet-management";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { LocalNetwork } from "../local-network";
+import { ClientConfig, getUserEnvironment } from "../wallet-management";
 import { WalrusCostEstimationResult, WalrusCostEstimator, WalrusInfo, getInfo } from "../walrus-cost-estimator";
+import { MemoryWalrusBackend } from "../walrus-memory-backend";
 import { DEV_CLIENT_CONFIG } from "./helper/dev-wallet-config";
+import { createLocalWallet } from "./helper/local-wallet";
 
 // Integration tests are disabled by default, and must be explicitly enabled
 const runIntegrationTests = process.env.RUN_WALRUS_INTEGRATION_TESTS_TEST === 'true';
@@ -286,4 +292,44 @@ describe('Walrus Cost Estimator Tests', () => {
       logStorageCostDetails(fileSizeBytes, storageDays, result, walrusInfo);
     }, 30000);
   }
-}); 
\ No newline at end of file
+}); 
+
+describe('Walrus Cost Estimator quotes (local backend)', () => {
+  let baseDir: string;
+  let estimator: WalrusCostEstimator;
+
+  beforeAll(() => {
+    baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walia-quote-'));
+    const network = new LocalNetwork({ waliaSealPackageId: '0x1' });
+    const { address } = createLocalWallet(baseDir, 'alice');
+    estimator = new WalrusCostEstimator({
+      ...getUserEnvironment('alice', baseDir),
+      walrusBackend: new MemoryWalrusBackend(network, address),
+    });
+  });
+
+  afterAll(() => {
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('should quote a file or a byte size for days or epochs', async () => {
+    const filePath = path.join(baseDir, 'quote.txt');
+    fs.writeFileSync(filePath, Buffer.alloc(4096));
+
+    const fileQuote = await estimator.quote({ filePath, epochs: 3 });
+    expect(fileQuote).toEqual(await estimator.quote({ sizeBytes: 4096, epochs: 3 }));
+    expect(fileQuote).toMatchObject({ numEpochs: 3, parameters: { unencodedSizeInBytes: 4096 } });
+    expect(fileQuote.numStorageUnits).toBeGreaterThan(0);
+    expect(fileQuote.estimatedCostInWal).toBe(fileQuote.estimatedCost / fileQuote.parameters.unitsPerWal);
+
+    // Epochs of the local backend last a day, and the current one has started
+    expect((await estimator.quote({ sizeBytes: 4096, days: 3 })).numEpochs).toBe(4);
+  });
+
+  it('should reject quotes without a size or a duration', async () => {
+    await expect(estimator.quote({ epochs: 1 })).rejects.toThrow('Either filePath or sizeBytes');
+    await expect(estimator.quote({ filePath: 'missing.txt', sizeBytes: 1, epochs: 1 })).rejects.toThrow('Either filePath or sizeBytes');
+    await expect(estimator.quote({ filePath: path.join(baseDir, 'missing.txt'), epochs: 1 })).rejects.toThrow('File not found');
+    await expect(estimator.quote({ sizeBytes: 1024 })).rejects.toThrow('Either storageDurationInDays or epochs');
+  });
+});
@@ -0,0 +1,221 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { SuiClient } from "@mysten/sui/client";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { getWalrusBackend } from "../walrus-backend";
+import { HttpWalrusBackend, blobIdFromInt, encodedBlobLength } from "../walrus-http-backend";
+import { CliWalrusBackend } from "../walrus-cli-backend";
+
+// Fields of the Walrus system and staking objects and of their inner state, by object ID
+const WALRUS_OBJECTS: Record<string, { version: string; inner: object }> = {
+  '0x6': {
+    version: '1',
+    inner: {
+      committee: { type: 'bls_aggregate::BlsCommittee', fields: { epoch: 12, n_shards: 1000, members: [{}, {}, {}] } },
+      storage_price_per_unit_size: '100000',
+      write_price_per_unit_size: '20000',
+      future_accounting: { type: 'storage_accounting::FutureAccountingRingBuffer', fields: { length: 53 } },
+    },
+  },
+  '0x7': {
+    version: '2',
+    inner: { n_shards: 1000, epoch_duration: '86400000', first_epoch_start: '1700000000000' },
+  },
+};
+
+function moveObject(fields: object) {
+  return { data: { objectId: '0x0', version: '1', digest: '', content: { dataType: 'moveObject', type: '', hasPublicTransfer: false, fields } } };
+}
+
+// Sui JSON-RPC reads of the Walrus objects
+function handleRpc(request: { method: string; params: any[] }): unknown {
+  switch (request.method) {
+    case 'sui_getObject':
+      return moveObject({ version: WALRUS_OBJECTS[request.params[0]].version });
+    case 'suix_getDynamicFieldObject': {
+      const object = WALRUS_OBJECTS[request.params[0]];
+      return request.params[1].value === object.version ? moveObject({ value: { fields: object.inner } }) : { error: { code: 'dynamicFieldNotFound' } };
+    }
+  }
+  throw new Error(`Unexpected RPC method ${request.method}`);
+}
+
+describe('HTTP Walrus backend', () => {
+  const keypair = new Ed25519Keypair();
+  const blobs = new Map<string, Buffer>();
+  let requests: { method?: string; url: URL }[] = [];
+  let server: http.Server;
+  let backend: HttpWalrusBackend;
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walia-http-backend-'));
+
+    // Minimal publisher/aggregator: PUT stores the body, GET returns it
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      requests.push({ method: req.method, url });
+
+      if (req.method === 'PUT' && url.pathname === '/v1/blobs') {
+        const chunks: Buffer[] = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => {
+          const blobId = `blob${blobs.size}`;
+          const body = Buffer.concat(chunks);
+          blobs.set(blobId, body);
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({
+            newlyCreated: {
+              blobObject: {
+                id: '0x1',
+                registeredEpoch: 1,
+                blobId,
+                size: body.length,
+                encodingType: 'RS2',
+                certifiedEpoch: 1,
+                storage: { id: '0x2', startEpoch: 1, endEpoch: 6, storageSize: 1024 },
+                deletable: url.searchParams.get('deletable') === 'true',
+              },
+              resourceOperation: { registerFromScratch: { encodedLength: 1024, epochsAhead: 5 } },
+              cost: 100,
+            },
+          }));
+        });
+        return;
+      }
+
+      if (req.method === 'POST' && url.pathname === '/') {
+        const chunks: Buffer[] = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => {
+          const request = JSON.parse(Buffer.concat(chunks).toString());
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, result: handleRpc(request) }));
+        });
+        return;
+      }
+
+      const match = url.pathname.match(/^\/v1\/blobs\/(.+)$/);
+      if (req.method === 'GET' && match && blobs.has(match[1])) {
+        res.end(blobs.get(match[1]));
+        return;
+      }
+
+      res.statusCode = 404;
+      res.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    backend = new HttpWalrusBackend({
+      publisherUrl: `http://127.0.0.1:${port}/`,
+      aggregatorUrl: `http://127.0.0.1:${port}`,
+      suiClient: new SuiClient({ url: `http://127.0.0.1:${port}` }),
+      signer: keypair,
+      systemObjectId: '0x6',
+      stakingObjectId: '0x7',
+      walCoinType: '0x8::wal::WAL',
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should store a file through the publisher', async () => {
+    requests = [];
+    const filePath = path.join(tempDir, 'input.bin');
+    fs.writeFileSync(filePath, 'hello walrus');
+
+    const result = await backend.store(filePath, { epochs: 5, deletable: true });
+
+    expect(result.newlyCreated?.blobObject.blobId).toBe('blob0');
+    expect(result.newlyCreated?.blobObject.deletable).toBe(true);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url.searchParams.get('epochs')).toBe('5');
+    expect(requests[0].url.searchParams.get('send_object_to')).toBe(keypair.toSuiAddress());
+    expect(blobs.get('blob0')?.toString()).toBe('hello walrus');
+  });
+
+  it('should store permanent blobs when not deletable', async () => {
+    requests = [];
+    const filePath = path.join(tempDir, 'permanent.bin');
+    fs.writeFileSync(filePath, 'permanent');
+
+    await backend.store(filePath, {});
+
+    expect(requests[0].url.searchParams.get('permanent')).toBe('true');
+    expect(requests[0].url.searchParams.has('deletable')).toBe(false);
+    expect(requests[0].url.searchParams.has('epochs')).toBe(false);
+  });
+
+  it('should read a blob from the aggregator', async () => {
+    const outputPath = path.join(tempDir, 'output.bin');
+
+    await backend.read('blob0', outputPath);
+
+    expect(fs.readFileSync(outputPath, 'utf8')).toBe('hello walrus');
+  });
+
+  it('should fail to read an unknown blob', async () => {
+    await expect(backend.read('missing', path.join(tempDir, 'missing.bin'))).rejects.toThrow();
+  });
+
+  it('should read the Walrus info from the system and staking objects', async () => {
+    const info = await backend.info();
+
+    expect(info.epochInfo).toEqual({
+      currentEpoch: 12,
+      startOfCurrentEpoch: { DateTime: new Date(1700000000000 + 11 * 86400000).toISOString() },
+      epochDuration: { secs: 86400, nanos: 0 },
+      maxEpochsAhead: 53,
+    });
+    expect(info.storageInfo).toEqual({ nShards: 1000, nNodes: 3 });
+    expect(info.sizeInfo).toEqual({ storageUnitSize: 1048576, maxBlobSize: 334 * 667 * 65534 });
+    expect(info.priceInfo.storagePricePerUnitSize).toBe(100000);
+    expect(info.priceInfo.writePricePerUnitSize).toBe(20000);
+    // Metadata and slivers of an empty blob over 1000 shards, as observed with the CLI
+    expect(encodedBlobLength(1000, 0)).toBe(66034000);
+    expect(info.priceInfo.encodingDependentPriceInfo[0].metadataPrice).toBe(Math.ceil(66034000 / 1048576) * 100000);
+  });
+
+  it('should convert on-chain blob IDs to URL-safe base64', () => {
+    expect(blobIdFromInt('0')).toBe('AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA');
+    expect(blobIdFromInt('255')).toMatch(/^_w/);
+  });
+});
+
+describe('getWalrusBackend', () => {
+  const clientConf = { suiConfPath: '/tmp/sui_client.yaml', walrusConfPath: '/tmp/walrus_client_config.yaml' };
+
+  it('should prefer an explicit backend from the client configuration', () => {
+    const walrusBackend = new CliWalrusBackend(clientConf);
+    expect(getWalrusBackend({ ...clientConf, walrusBackend })).toBe(walrusBackend);
+  });
+
+  it('should default to the CLI backend', () => {
+    const previous = process.env.WALRUS_BACKEND;
+    delete process.env.WALRUS_BACKEND;
+    try {
+      expect(getWalrusBackend(clientConf)).toBeInstanceOf(CliWalrusBackend);
+    } finally {
+      if (previous !== undefined) process.env.WALRUS_BACKEND = previous;
+    }
+  });
+
+  it('should reject unknown backend types', () => {
+    const previous = process.env.WALRUS_BACKEND;
+    process.env.WALRUS_BACKEND = 'ftp';
+    try {
+      expect(() => getWalrusBackend(clientConf)).toThrow('Invalid WALRUS_BACKEND');
+    } finally {
+      if (previous === undefined) delete process.env.WALRUS_BACKEND;
+      else process.env.WALRUS_BACKEND = previous;
+    }
+  });
+});
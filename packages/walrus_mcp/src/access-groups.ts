@@ -0,0 +1,99 @@
+import * as fs from "fs";
+import * as path from "path";
+import { EnvironmentType } from "./wallet-management";
+
+const REGISTRY_FILE_NAME = 'access_groups.json';
+// Group names are stored as blob attributes and typed in chat commands
+const GROUP_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,63}$/;
+
+/**
+ * A named whitelist shared by several files. Each file is encrypted under its own
+ * key ID prefixed by the whitelist ID, so one membership grants access to all of them.
+ */
+export interface AccessGroup {
+  name: string;
+  whitelistId: string;
+  capId: string;
+  createdAt: string;
+}
+
+/**
+ * Validates an access group name
+ */
+export function validateGroupName(name: string): string {
+  if (typeof name !== 'string' || !GROUP_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid access group name: ${JSON.stringify(name)}`);
+  }
+  return name;
+}
+
+type AccessGroups = Record<string, AccessGroup>;
+
+type RegistryFile = { [Env in EnvironmentType]?: AccessGroups };
+
+/**
+ * Local registry of the access groups of a wallet, kept as JSON in the wallet directory
+ * per environment, since a whitelist only exists on the network it was created on
+ */
+export class AccessGroupRegistry {
+  private registryPath: string;
+  private env: EnvironmentType;
+
+  constructor(walletDir: string, env: EnvironmentType) {
+    this.registryPath = path.join(walletDir, REGISTRY_FILE_NAME);
+    this.env = env;
+  }
+
+  get(name: string): AccessGroup | undefined {
+    return this.load()[validateGroupName(name)];
+  }
+
+  list(): AccessGroup[] {
+    return Object.values(this.load());
+  }
+
+  save(group: AccessGroup): void {
+    const groups = this.load();
+    groups[validateGroupName(group.name)] = group;
+    this.write(groups);
+  }
+
+  remove(name: string): boolean {
+    const groups = this.load();
+    if (!groups[validateGroupName(name)]) {
+      return false;
+    }
+    delete groups[name];
+    this.write(groups);
+    return true;
+  }
+
+  private load(): AccessGroups {
+    return this.readFile()[this.env] || {};
+  }
+
+  private readFile(): RegistryFile {
+    if (!fs.existsSync(this.registryPath)) {
+      return {};
+    }
+    let content: any;
+    try {
+      content = JSON.parse(fs.readFileSync(this.registryPath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to read access group registry ${this.registryPath}: ${error}`);
+    }
+    // Registries written before they were per environment hold testnet groups, the only
+    // network with a default walia_seal package
+    const isLegacy = Object.values(content).some((value: any) => typeof value?.whitelistId === 'string');
+    return isLegacy ? { testnet: content } : content;
+  }
+
+  // Write to a temporary file first so a crash never leaves a truncated registry
+  private write(groups: AccessGroups): void {
+    const registry = this.readFile();
+    registry[this.env] = groups;
+    const tempPath = `${this.registryPath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(registry, null, 2));
+    fs.renameSync(tempPath, this.registryPath);
+  }
+}
@@ -0,0 +1,216 @@
+import * as path from "path";
+import { getBlobExpiry, getEpochDurationMs, getEpochInfo } from "./epoch-clock";
+import { BlobObject, extendBlob, list_blobs } from "./storage";
+import { WalletManagement, formatCoinAmount, parseCoinAmount } from "./wallet-management";
+import { EpochInfo } from "./walrus-cost-estimator";
+
+/**
+ * Automatic renewal of blobs close to expiry, driven by blob attributes:
+ * - `renew_policy=keep-forever` extends the blob by a number of epochs at each renewal
+ * - `renew_until=<date>` extends the blob until it is stored past that date
+ * Blobs without a policy are left to expire. Each run spends at most a WAL budget per user.
+ */
+export const RENEW_POLICY_ATTRIBUTE = 'renew_policy';
+export const RENEW_UNTIL_ATTRIBUTE = 'renew_until';
+export const KEEP_FOREVER_POLICY = 'keep-forever';
+
+// Renew blobs expiring within 2 epochs, for 5 more epochs, as the bot stores files
+const DEFAULT_RENEW_WITHIN_EPOCHS = 2;
+const DEFAULT_EXTEND_EPOCHS = 5;
+
+export interface AutoRenewalOptions {
+  /** WAL each user can spend per run, such as "1" */
+  walBudget: string;
+  /** Budgets of specific users, taking precedence over walBudget */
+  userBudgets?: Record<string, string>;
+  /** Renew blobs that expire within this many epochs, defaults to 2 */
+  renewWithinEpochs?: number;
+  /** Epochs added to keep-forever blobs, defaults to 5 */
+  extendEpochs?: number;
+  /** Report what would be renewed without extending */
+  dryRun?: boolean;
+}
+
+export interface RenewalEntry {
+  blobObjectId: string;
+  name?: string;
+  endEpoch: number;
+  /** Epochs added, or that would have been */
+  epochs?: number;
+  /** Estimated cost in WAL */
+  cost?: string;
+  reason?: string;
+}
+
+export interface UserRenewalReport {
+  userName: string;
+  budget: string;
+  spent: string;
+  renewed: RenewalEntry[];
+  skipped: RenewalEntry[];
+  lackedFunds: RenewalEntry[];
+  failed: RenewalEntry[];
+  /** Set when the blobs of the user could not be listed */
+  error?: string;
+}
+
+export interface RenewalReport {
+  startedAt: string;
+  finishedAt: string;
+  dryRun: boolean;
+  users: UserRenewalReport[];
+}
+
+/**
+ * Renews the blobs of every wallet and reports the outcome per user
+ */
+export async function runAutoRenewal(wallets: WalletManagement[], options: AutoRenewalOptions): Promise<RenewalReport> {
+  const startedAt = new Date().toISOString();
+  const users: UserRenewalReport[] = [];
+  for (const wallet of wallets) {
+    users.push(await renewUserBlobs(wallet, options));
+  }
+  return { startedAt, finishedAt: new Date().toISOString(), dryRun: Boolean(options.dryRun), users };
+}
+
+/**
+ * Renews the blobs of one wallet that have a policy and are close to expiry, those
+ * expiring first first, until the budget or the WAL balance runs out
+ */
+export async function renewUserBlobs(wallet: WalletManagement, options: AutoRenewalOptions): Promise<UserRenewalReport> {
+  const userName = path.basename(wallet.getWalletDirectory());
+  const budgetAmount = options.userBudgets?.[userName] ?? options.walBudget;
+  const report: UserRenewalReport = {
+    userName,
+    budget: budgetAmount,
+    spent: '0',
+    renewed: [],
+    skipped: [],
+    lackedFunds: [],
+    failed: [],
+  };
+
+  const clientConf = wallet.getUserEnvironment();
+  let blobs: BlobObject[];
+  let epochInfo: EpochInfo;
+  let balance: bigint;
+  try {
+    blobs = await list_blobs(clientConf);
+    epochInfo = await getEpochInfo(clientConf);
+    const walBalance = await wallet.getSuiClient().getBalance({
+      owner: wallet.getKeypair().toSuiAddress(),
+      coinType: wallet.getWalCoinType(),
+    });
+    balance = BigInt(walBalance.totalBalance);
+  } catch (error: any) {
+    report.error = error.message;
+    return report;
+  }
+
+  const budget = parseCoinAmount(budgetAmount);
+  let spent = 0n;
+  const renewWithinEpochs = options.renewWithinEpochs ?? DEFAULT_RENEW_WITHIN_EPOCHS;
+  for (const blob of blobs.sort((a, b) => a.storage.endEpoch - b.storage.endEpoch)) {
+    const entry: RenewalEntry = { blobObjectId: blob.id, name: blob.name, endEpoch: blob.storage.endEpoch };
+    const plan = planRenewal(blob, epochInfo, options.extendEpochs ?? DEFAULT_EXTEND_EPOCHS);
+    if (typeof plan === 'string') {
+      report.skipped.push({ ...entry, reason: plan });
+      continue;
+    }
+    const remainingEpochs = blob.storage.endEpoch - epochInfo.currentEpoch;
+    if (remainingEpochs > renewWithinEpochs) {
+      report.skipped.push({ ...entry, reason: `Expires in ${remainingEpochs} epochs` });
+      continue;
+    }
+
+    entry.epochs = plan;
+    try {
+      const quote = await extendBlob(clientConf, blob.id, plan, { dryRun: true });
+      const cost = BigInt(quote.estimatedCost);
+      entry.cost = formatCoinAmount(cost);
+      if (spent + cost > budget) {
+        report.lackedFunds.push({ ...entry, reason: `Exceeds the budget of ${budgetAmount} WAL` });
+        continue;
+      }
+      if (cost > balance) {
+        report.lackedFunds.push({ ...entry, reason: `Only ${formatCoinAmount(balance)} WAL left in the wallet` });
+        continue;
+      }
+
+      if (!options.dryRun) {
+        await extendBlob(clientConf, blob.id, plan);
+      }
+      spent += cost;
+      balance -= cost;
+      report.renewed.push(entry);
+    } catch (error: any) {
+      report.failed.push({ ...entry, reason: error.message });
+    }
+  }
+
+  report.spent = formatCoinAmount(spent);
+  return report;
+}
+
+/**
+ * Gets the epochs to extend a blob by according to its policy, or why it is not renewed
+ */
+function planRenewal(blob: BlobObject, epochInfo: EpochInfo, extendEpochs: number): number | string {
+  const attributes = blob.attributes || {};
+  // Blobs cannot be stored more than maxEpochsAhead epochs ahead
+  const maxEpochs = epochInfo.maxEpochsAhead - (blob.storage.endEpoch - epochInfo.currentEpoch);
+
+  let epochs: number;
+  if (attributes[RENEW_UNTIL_ATTRIBUTE]) {
+    const renewUntil = Date.parse(attributes[RENEW_UNTIL_ATTRIBUTE]);
+    if (Number.isNaN(renewUntil)) {
+      return `Invalid ${RENEW_UNTIL_ATTRIBUTE} date: ${attributes[RENEW_UNTIL_ATTRIBUTE]}`;
+    }
+    const expiry = getBlobExpiry(epochInfo, blob.storage.endEpoch).expiresAt.getTime();
+    if (expiry >= renewUntil) {
+      return `Stored until ${attributes[RENEW_UNTIL_ATTRIBUTE]}`;
+    }
+    epochs = Math.ceil((renewUntil - expiry) / getEpochDurationMs(epochInfo));
+  } else if (attributes[RENEW_POLICY_ATTRIBUTE] === KEEP_FOREVER_POLICY) {
+    epochs = extendEpochs;
+  } else if (attributes[RENEW_POLICY_ATTRIBUTE]) {
+    return `Unknown ${RENEW_POLICY_ATTRIBUTE}: ${attributes[RENEW_POLICY_ATTRIBUTE]}`;
+  } else {
+    return 'No renewal policy';
+  }
+
+  if (maxEpochs <= 0) {
+    return `Already stored ${epochInfo.maxEpochsAhead} epochs ahead`;
+  }
+  return Math.min(epochs, maxEpochs);
+}
+
+/**
+ * Runs the renewal of a set of wallets at an interval, skipping a run while the previous
+ * one is still going. Returns a function that stops the scheduler.
+ */
+export function startAutoRenewal(
+  getWallets: () => WalletManagement[],
+  options: AutoRenewalOptions,
+  intervalMs: number,
+  onReport: (report: RenewalReport) => void
+): () => void {
+  let running = false;
+  const run = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      onReport(await runAutoRenewal(getWallets(), options));
+    } catch (error) {
+      console.error('Auto-renewal run failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, intervalMs);
+  run();
+  return () => clearInterval(timer);
+}
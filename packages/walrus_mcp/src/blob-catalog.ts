@@ -0,0 +1,96 @@
+import * as fs from "fs";
+import * as path from "path";
+import { BlobAttributes, BlobObject } from "./storage";
+import { ClientConfig, EnvironmentType, getClientEnvironment } from "./wallet-management";
+
+/**
+ * Local catalog of the blobs of a wallet, in blob_catalog.json of the wallet directory
+ * per environment. It maps each blob object to its blob ID, expiry and attributes so that
+ * listing blobs only fetches the attributes of new blobs, and reading a blob finds its
+ * object without listing, unless it has expired. Storing, burning, sending, extending
+ * blobs and writing attributes invalidate the entries they change, and each listing
+ * drops the blobs no longer owned.
+ */
+const BLOB_CATALOG_FILE = 'blob_catalog.json';
+
+export interface CatalogEntry {
+  objectId: string;
+  blobId: string;
+  endEpoch: number;
+  attributes: BlobAttributes;
+}
+
+/** Entries by blob object ID */
+export type BlobCatalog = Record<string, CatalogEntry>;
+
+type BlobCatalogFile = { [Env in EnvironmentType]?: BlobCatalog };
+
+function getBlobCatalogPath(clientConf: ClientConfig): string {
+  return path.join(path.dirname(clientConf.suiConfPath), BLOB_CATALOG_FILE);
+}
+
+function readBlobCatalogFile(clientConf: ClientConfig): BlobCatalogFile {
+  const catalogPath = getBlobCatalogPath(clientConf);
+  if (!fs.existsSync(catalogPath)) {
+    return {};
+  }
+  try {
+    return JSON.parse(fs.readFileSync(catalogPath, 'utf8'));
+  } catch (error) {
+    console.warn(`Ignoring invalid blob catalog ${catalogPath}:`, error);
+    return {};
+  }
+}
+
+function writeBlobCatalog(clientConf: ClientConfig, catalog: BlobCatalog): void {
+  const catalogFile = readBlobCatalogFile(clientConf);
+  catalogFile[getClientEnvironment(clientConf)] = catalog;
+  fs.writeFileSync(getBlobCatalogPath(clientConf), JSON.stringify(catalogFile, null, 2));
+}
+
+/**
+ * Gets the catalog of the active environment of the client configuration
+ */
+export function loadBlobCatalog(clientConf: ClientConfig): BlobCatalog {
+  return readBlobCatalogFile(clientConf)[getClientEnvironment(clientConf)] || {};
+}
+
+/**
+ * Gets the catalog entry of a blob ID, if any
+ */
+export function findCatalogEntry(clientConf: ClientConfig, blobId: string): CatalogEntry | undefined {
+  return Object.values(loadBlobCatalog(clientConf)).find(entry => entry.blobId === blobId);
+}
+
+/**
+ * Replaces the catalog with the blobs listed along with their attributes
+ */
+export function saveBlobCatalog(clientConf: ClientConfig, blobs: BlobObject[]): void {
+  const catalog: BlobCatalog = {};
+  for (const blob of blobs) {
+    catalog[blob.id] = {
+      objectId: blob.id,
+      blobId: blob.blobId,
+      endEpoch: blob.storage.endEpoch,
+      attributes: blob.attributes || {},
+    };
+  }
+  writeBlobCatalog(clientConf, catalog);
+}
+
+/**
+ * Removes the entries of blob objects that changed, or every entry without object IDs
+ */
+export function invalidateBlobCatalog(clientConf: ClientConfig, blobObjectIds?: string[]): void {
+  try {
+    const catalog = loadBlobCatalog(clientConf);
+    if (!blobObjectIds) {
+      writeBlobCatalog(clientConf, {});
+    } else if (blobObjectIds.some(id => catalog[id])) {
+      blobObjectIds.forEach(id => delete catalog[id]);
+      writeBlobCatalog(clientConf, catalog);
+    }
+  } catch (error) {
+    console.warn('Failed to invalidate the blob catalog:', error);
+  }
+}
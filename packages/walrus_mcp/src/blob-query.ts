@@ -0,0 +1,183 @@
+import { BlobAttributes, BlobObject, list_blobs } from "./storage";
+import { ClientConfig } from "./wallet-management";
+
+/**
+ * Filtering, sorting and pagination of the blobs of a wallet. Pages are delimited by
+ * cursors on the sort key and object ID of the last blob of a page, so blobs stored or
+ * burned between two pages do not shift the next one.
+ */
+export const BLOB_SORT_KEYS = ['name', 'size', 'endEpoch', 'registeredEpoch'] as const;
+export type BlobSortKey = typeof BLOB_SORT_KEYS[number];
+export type SortOrder = 'asc' | 'desc';
+
+export interface BlobFilter {
+  /** Attributes the blobs must have, with these exact values */
+  attributes?: BlobAttributes;
+  /** Glob matched against the name of the blobs, case-insensitive, with * and ? */
+  name?: string;
+  /** Unencoded size range in bytes, inclusive */
+  minSize?: number;
+  maxSize?: number;
+  /** Only blobs that expire within this many epochs */
+  expiringWithinEpochs?: number;
+  deletable?: boolean;
+}
+
+export interface ListBlobsQuery extends BlobFilter {
+  includeExpired?: boolean;
+  /** Defaults to registeredEpoch */
+  sortBy?: BlobSortKey;
+  /** Defaults to asc */
+  order?: SortOrder;
+  /** Maximum number of blobs per page, all of them by default */
+  limit?: number;
+  /** nextCursor of the previous page */
+  cursor?: string;
+}
+
+export interface BlobPage {
+  blobs: BlobObject[];
+  /** Number of blobs matching the filters, over all pages */
+  total: number;
+  /** Cursor of the next page, null on the last page */
+  nextCursor: string | null;
+}
+
+interface CursorPosition {
+  sortBy: BlobSortKey;
+  order: SortOrder;
+  value: string | number;
+  id: string;
+}
+
+/**
+ * Lists the blobs of a wallet matching a query, one page at a time
+ */
+export async function queryBlobs(clientConf: ClientConfig, query: ListBlobsQuery = {}): Promise<BlobPage> {
+  validateQuery(query);
+  const sortBy = query.sortBy || 'registeredEpoch';
+  const order = query.order || 'asc';
+
+  const blobs = (await list_blobs(clientConf, Boolean(query.includeExpired)))
+    .filter(blob => matchesFilter(blob, query))
+    .sort((a, b) => compareBlobs(a, b, sortBy, order));
+
+  let start = 0;
+  if (query.cursor) {
+    const position = decodeCursor(query.cursor);
+    if (position.sortBy !== sortBy || position.order !== order) {
+      throw new Error(`The cursor is for blobs sorted by ${position.sortBy} ${position.order}`);
+    }
+    const after = blobs.findIndex(blob => comparePosition(blob, position) > 0);
+    start = after === -1 ? blobs.length : after;
+  }
+
+  const page = query.limit ? blobs.slice(start, start + query.limit) : blobs.slice(start);
+  const last = page[page.length - 1];
+  return {
+    blobs: page,
+    total: blobs.length,
+    nextCursor: last && start + page.length < blobs.length
+      ? encodeCursor({ sortBy, order, value: getSortValue(last, sortBy), id: last.id })
+      : null,
+  };
+}
+
+function validateQuery(query: ListBlobsQuery): void {
+  if (query.sortBy && !BLOB_SORT_KEYS.includes(query.sortBy)) {
+    throw new Error(`sortBy must be one of ${BLOB_SORT_KEYS.join(', ')}`);
+  }
+  if (query.order && query.order !== 'asc' && query.order !== 'desc') {
+    throw new Error('order must be asc or desc');
+  }
+  if (query.limit !== undefined && (!Number.isInteger(query.limit) || query.limit <= 0)) {
+    throw new Error('limit must be a positive integer');
+  }
+  for (const key of ['minSize', 'maxSize', 'expiringWithinEpochs'] as const) {
+    const value = query[key];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      throw new Error(`${key} must be a non-negative integer`);
+    }
+  }
+}
+
+// The name set when storing with the MCP tool or the CLI, else the file name sent to the bot
+function getBlobName(blob: BlobObject): string {
+  return blob.attributes?.name || blob.attributes?.original_name || '';
+}
+
+function matchesFilter(blob: BlobObject, filter: BlobFilter): boolean {
+  if (filter.attributes && Object.entries(filter.attributes).some(([key, value]) => blob.attributes?.[key] !== value)) {
+    return false;
+  }
+  if (filter.name && !globToRegExp(filter.name).test(getBlobName(blob))) {
+    return false;
+  }
+  if (filter.minSize !== undefined && blob.size < filter.minSize) {
+    return false;
+  }
+  if (filter.maxSize !== undefined && blob.size > filter.maxSize) {
+    return false;
+  }
+  // Blobs without epoch info have no known expiry
+  if (filter.expiringWithinEpochs !== undefined
+    && (blob.epochsUntilExpiry === undefined || blob.epochsUntilExpiry > filter.expiringWithinEpochs)) {
+    return false;
+  }
+  if (filter.deletable !== undefined && blob.deletable !== filter.deletable) {
+    return false;
+  }
+  return true;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split('')
+    .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${pattern}$`, 'i');
+}
+
+function getSortValue(blob: BlobObject, sortBy: BlobSortKey): string | number {
+  switch (sortBy) {
+    case 'name':
+      return getBlobName(blob).toLowerCase();
+    case 'size':
+      return blob.size;
+    case 'endEpoch':
+      return blob.storage.endEpoch;
+    case 'registeredEpoch':
+      return blob.registeredEpoch;
+  }
+}
+
+// Blobs with the same sort value are ordered by object ID, so that cursors are unambiguous
+function compareValues(value: string | number, id: string, otherValue: string | number, otherId: string, order: SortOrder): number {
+  const comparison = value < otherValue ? -1 : value > otherValue ? 1 : id < otherId ? -1 : id > otherId ? 1 : 0;
+  return order === 'asc' ? comparison : -comparison;
+}
+
+function compareBlobs(a: BlobObject, b: BlobObject, sortBy: BlobSortKey, order: SortOrder): number {
+  return compareValues(getSortValue(a, sortBy), a.id, getSortValue(b, sortBy), b.id, order);
+}
+
+function comparePosition(blob: BlobObject, position: CursorPosition): number {
+  return compareValues(getSortValue(blob, position.sortBy), blob.id, position.value, position.id, position.order);
+}
+
+function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify([position.sortBy, position.order, position.value, position.id])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const [sortBy, order, value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (BLOB_SORT_KEYS.includes(sortBy) && (order === 'asc' || order === 'desc')
+      && ['string', 'number'].includes(typeof value) && typeof id === 'string') {
+      return { sortBy, order, value, id };
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error('Invalid cursor');
+}
@@ -0,0 +1,177 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import { pipeline } from "stream/promises";
+import { getSizeInfo } from "./epoch-clock";
+import { BlobAttributes } from "./storage";
+import { ClientConfig } from "./wallet-management";
+import { getWalrusBackend } from "./walrus-backend";
+
+const MANIFEST_VERSION = 1;
+
+// Attributes marking blobs that belong to a chunked file
+export const ROLE_ATTRIBUTE = 'walia_role';
+export const MANIFEST_ROLE = 'manifest';
+export const CHUNK_ROLE = 'chunk';
+// Comma separated object IDs of the chunks, set on the manifest blob
+export const CHUNK_OBJECTS_ATTRIBUTE = 'walia_chunk_objects';
+
+export interface ChunkInfo {
+    index: number;
+    blobId: string;
+    objectId: string;
+    size: number;
+    sha256: string;
+}
+
+/**
+ * Content of the manifest blob of a file stored as several chunks.
+ * Chunks are consecutive slices of the encrypted file, in index order.
+ */
+export interface ChunkManifest {
+    version: number;
+    totalSize: number;
+    chunks: ChunkInfo[];
+}
+
+export interface FileChunk {
+    index: number;
+    path: string;
+    size: number;
+    sha256: string;
+}
+
+/**
+ * Largest blob accepted by Walrus, or undefined when the backend cannot report it
+ */
+export async function getMaxBlobSize(clientConf: ClientConfig): Promise<number | undefined> {
+    try {
+        return (await getSizeInfo(clientConf)).maxBlobSize;
+    } catch (error) {
+        console.error('Could not get the maximum blob size, storing without chunking:', error);
+        return undefined;
+    }
+}
+
+/**
+ * Splits a file into chunk files of at most chunkSize bytes, streaming each slice
+ */
+export async function splitFile(filePath: string, chunkSize: number, outputDir: string): Promise<FileChunk[]> {
+    const totalSize = fs.statSync(filePath).size;
+    const chunks: FileChunk[] = [];
+
+    try {
+        for (let start = 0, index = 0; start < totalSize; start += chunkSize, index++) {
+            const end = Math.min(start + chunkSize, totalSize);
+            const chunkPath = path.join(outputDir, `${path.basename(filePath)}.chunk${index}`);
+            const hash = createHash('sha256');
+
+            chunks.push({ index, path: chunkPath, size: end - start, sha256: '' });
+            await pipeline(
+                fs.createReadStream(filePath, { start, end: end - 1 }),
+                async function* (source: AsyncIterable<Buffer>) {
+                    for await (const data of source) {
+                        hash.update(data);
+                        yield data;
+                    }
+                },
+                fs.createWriteStream(chunkPath)
+            );
+            chunks[index].sha256 = hash.digest('hex');
+        }
+        return chunks;
+    } catch (error) {
+        removeChunks(chunks);
+        throw error;
+    }
+}
+
+/**
+ * Removes the local chunk files
+ */
+export function removeChunks(chunks: FileChunk[]): void {
+    for (const chunk of chunks) {
+        fs.rmSync(chunk.path, { force: true });
+    }
+}
+
+/**
+ * Parses and checks the content of a manifest blob
+ */
+export function parseManifest(content: string): ChunkManifest {
+    let manifest: ChunkManifest;
+    try {
+        manifest = JSON.parse(content);
+    } catch (error) {
+        throw new Error(`Invalid chunk manifest: ${error}`);
+    }
+    if (manifest?.version !== MANIFEST_VERSION || !Array.isArray(manifest.chunks)) {
+        throw new Error(`Unsupported chunk manifest version: ${manifest?.version}`);
+    }
+    manifest.chunks.forEach((chunk, index) => {
+        if (chunk.index !== index) {
+            throw new Error(`Chunk manifest is out of order at chunk ${index}`);
+        }
+    });
+    return manifest;
+}
+
+export function createManifest(chunks: FileChunk[], blobIds: { blobId: string; objectId: string }[]): ChunkManifest {
+    return {
+        version: MANIFEST_VERSION,
+        totalSize: chunks.reduce((total, chunk) => total + chunk.size, 0),
+        chunks: chunks.map((chunk, index) => ({
+            index: chunk.index,
+            blobId: blobIds[index].blobId,
+            objectId: blobIds[index].objectId,
+            size: chunk.size,
+            sha256: chunk.sha256,
+        })),
+    };
+}
+
+/**
+ * Downloads the chunks of a manifest one at a time, checks their size and hash and
+ * appends them to the output file
+ */
+export async function assembleChunks(clientConf: ClientConfig, manifest: ChunkManifest, outputPath: string): Promise<void> {
+    const backend = getWalrusBackend(clientConf);
+    fs.writeFileSync(outputPath, Buffer.alloc(0));
+
+    for (const chunk of manifest.chunks) {
+        const chunkPath = `${outputPath}.chunk${chunk.index}`;
+        try {
+            await backend.read(chunk.blobId, chunkPath);
+
+            const hash = createHash('sha256');
+            let size = 0;
+            await pipeline(
+                fs.createReadStream(chunkPath),
+                async function* (source: AsyncIterable<Buffer>) {
+                    for await (const data of source) {
+                        hash.update(data);
+                        size += data.length;
+                        yield data;
+                    }
+                },
+                fs.createWriteStream(outputPath, { flags: 'a' })
+            );
+
+            if (size !== chunk.size || hash.digest('hex') !== chunk.sha256) {
+                throw new Error(`Chunk ${chunk.index} (${chunk.blobId}) does not match the manifest`);
+            }
+        } finally {
+            fs.rmSync(chunkPath, { force: true });
+        }
+    }
+}
+
+/**
+ * Object IDs of the chunks of a manifest blob, from its attributes
+ */
+export function getChunkObjectIds(attributes: BlobAttributes): string[] {
+    if (attributes[ROLE_ATTRIBUTE] !== MANIFEST_ROLE || !attributes[CHUNK_OBJECTS_ATTRIBUTE]) {
+        return [];
+    }
+    return attributes[CHUNK_OBJECTS_ATTRIBUTE].split(',');
+}
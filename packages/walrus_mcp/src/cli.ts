@@ -10,53 +10,45 @@ config();
 import { 
   store, 
   read, 
-  list_blobs, 
   add_blob_attributes, 
   get_blob_attributes, 
   burnBlobs, 
   fundSharedBlob, 
+  extendBlob,
   sendBlob,
+  shareBlob,
+  shareBlobTemporarily,
+  expiryFromDays,
+  revokeBlob,
+  rotateBlobKey,
   getBlobObjectIdByBlobId,
   BlobParams,
   BurnParams,
   StoreResult,
-  BlobObject,
   BlobAttributes,
   StorageObject
 } from './storage.js';
 import { SealManager } from './seal.js';
-import { WalletManagement, ClientConfig, EnvironmentType } from './wallet-management.js';
+import { getNetworkConfig } from './network-registry.js';
+import { WalletManagement, ClientConfig, EnvironmentType, encryptAllWalletSecrets, encryptWalletSecrets, importWallet, removeStaleUnlockedConfigs } from './wallet-management.js';
+import { KEYSTORE_SECRET_ENV, getKeystorePassphrase } from './keystore-encryption.js';
+import { InsufficientBalanceError, preflightStore } from './store-preflight.js';
+import { WalrusCostEstimator } from './walrus-cost-estimator.js';
+import { runAutoRenewal } from './auto-renewal.js';
+import { BlobPage, queryBlobs } from './blob-query.js';
 
 class WaliaCLI {
   private getWaliaSealPackageId(environment: string): string {
-    // Default fallback package ID
-    const DEFAULT_PACKAGE_ID = '0xf5083045ffb970f16dde2bbad407909b9e761f6c93342500530d9efdf7b09507';
-    
-    // Try to get environment-specific package ID from environment variables
-    const envVarName = `WALIA_SEAL_PACKAGE_ID_${environment.toUpperCase()}`;
-    const envSpecificId = process.env[envVarName];
-    
-    if (envSpecificId) {
-      return envSpecificId;
-    }
-    
-    // Fallback to generic environment variable
-    const fallbackId = process.env.WALIA_SEAL_PACKAGE_ID;
-    if (fallbackId) {
-      return fallbackId;
-    }
-    
-    // Final fallback to hardcoded default
-    return DEFAULT_PACKAGE_ID;
+    return getNetworkConfig(environment as EnvironmentType).waliaSealPackageId;
   }
 
-  private async initializeComponents(userName: string, walletsDir: string, environment: string): Promise<{
+  private async initializeComponents(userName: string, walletsDir: string, environment: string, passphrase?: string): Promise<{
     walletManagement: WalletManagement;
     sealManager: SealManager;
     clientConfig: ClientConfig;
   }> {
-    // Initialize wallet management
-    const walletManagement = new WalletManagement(userName, walletsDir, environment as EnvironmentType);
+    // Initialize wallet management, a per-user passphrase unlocks its keystore instead of WALIA_KEYSTORE_SECRET
+    const walletManagement = new WalletManagement(userName, walletsDir, environment as EnvironmentType, { passphrase });
     
     // Initialize seal manager
     const waliaSealPackageId = this.getWaliaSealPackageId(environment);
@@ -65,7 +57,8 @@ class WaliaCLI {
     // Set up client configuration
     const clientConfig: ClientConfig = {
       suiConfPath: path.join(walletManagement.getWalletDirectory(), 'sui_client.yaml'),
-      walrusConfPath: path.join(walletManagement.getWalletDirectory(), 'walrus_client_config.yaml')
+      walrusConfPath: path.join(walletManagement.getWalletDirectory(), 'walrus_client_config.yaml'),
+      passphrase
     };
 
     // Verify configuration files exist
@@ -88,34 +81,83 @@ Usage: walia-cli <command> <json-params>
 Commands:
   store                   Store a file to Walrus with seal encryption
   read                    Read and decrypt a file from Walrus
-  list-blobs              List all blobs in Walrus storage
+  list-blobs              List blobs in Walrus storage, filtered, sorted and paginated
   get-blob-attributes     Get attributes for a specific blob
   add-blob-attributes     Add attributes to a blob
   burn-blobs              Delete blobs from Walrus storage
   fund-shared-blob        Fund a shared blob with WAL tokens
+  extend                  Extend the storage of a blob by a number of epochs
+  renew-blobs             Renew the blobs close to expiry that have a renewal policy
   send-blob               Transfer a blob to another Sui address
+  share-blob              Grant Sui addresses access to a blob, keeping ownership
+  revoke-access           Revoke the access of Sui addresses to a blob
+  rotate-blob-key         Re-encrypt a blob under a new key as a new blob
   get-blob-object-id      Get blob object ID from blob ID
   get-wallet-balance      Get SUI and Walrus balance for a wallet
+  estimate-cost           Quote the WAL cost of storing a file or byte size
+  list-access-groups      List the access groups of a wallet
+  encrypt-wallets         Encrypt the keystores of plaintext wallets at rest
+  import-wallet           Import an existing wallet from a mnemonic or private key
+  transfer                Send SUI and WAL to another user or a Sui address
+  exchange-wal            Exchange SUI for WAL through a Walrus WAL exchange (testnet)
 
 Common parameters (JSON format):
   {
     "userName": "walia",                    // Username for wallet management
     "walletsDir": "./dev-wallets",          // Directory path for wallets
-    "environment": "testnet"                // Network environment (testnet, mainnet, localnet, devnet)
+    "environment": "testnet",               // Network environment (testnet, mainnet, localnet, devnet)
+    "passphrase": "..."                     // Optional, unlocks a wallet encrypted with its own passphrase
   }
 
 Examples:
   # Store a file
   walia-cli store '{"userName":"walia","walletsDir":"./dev-wallets","environment":"testnet","filePath":"./test.txt","epochs":5,"deletable":false}'
 
+  # Store a file under the whitelist of an access group
+  walia-cli store '{"userName":"walia","walletsDir":"./dev-wallets","environment":"testnet","filePath":"./test.txt","accessGroup":"family"}'
+
+  # Share a blob with another address, and revoke it later
+  walia-cli share-blob '{"userName":"walia","walletsDir":"./dev-wallets","environment":"testnet","blobObjectId":"0x123...","addresses":["0xabc..."]}'
+  walia-cli share-blob '{"userName":"walia","walletsDir":"./dev-wallets","environment":"testnet","blobObjectId":"0x123...","addresses":["0xabc..."],"expiresInDays":7}'
+  walia-cli revoke-access '{"userName":"walia","walletsDir":"./dev-wallets","environment":"testnet","blobObjectId":"0x123...","addresses":["0xabc..."],"rotateKey":true}'
+
   # Read a file
   walia-cli read '{"userName":"walia","walletsDir":"./dev-wallets","environment":"testnet","blobId":"abc123"}'
 
   # List blobs
   walia-cli list-blobs '{"userName":"walia","walletsDir":"./dev-wallets","environment":"testnet","includeExpired":false}'
 
+  # List the 10 largest PDFs expiring within 3 epochs, then the next page with the nextCursor returned
+  walia-cli list-blobs '{"userName":"walia","walletsDir":"./dev-wallets","environment":"testnet","name":"*.pdf","expiringWithinEpochs":3,"sortBy":"size","order":"desc","limit":10}'
+  walia-cli list-blobs '{"userName":"walia","walletsDir":"./dev-wallets","environment":"testnet","name":"*.pdf","expiringWithinEpochs":3,"sortBy":"size","order":"desc","limit":10,"cursor":"..."}'
+
+  # Quote the cost of a file for 30 days, or of 10 MiB for 5 epochs
+  walia-cli estimate-cost '{"userName":"walia","walletsDir":"./dev-wallets","environment":"testnet","filePath":"./test.txt","days":30}'
+  walia-cli estimate-cost '{"userName":"walia","walletsDir":"./dev-wallets","environment":"testnet","sizeBytes":10485760,"epochs":5}'
+
+  # Quote, then extend a blob by 10 epochs
+  walia-cli extend '{"userName":"walia","walletsDir":"./dev-wallets","environment":"testnet","blobObjectId":"0x123...","epochs":10,"dryRun":true}'
+  walia-cli extend '{"userName":"walia","walletsDir":"./dev-wallets","environment":"testnet","blobObjectId":"0x123...","epochs":10}'
+
+  # Keep a blob stored, then preview the renewals within a budget of 1 WAL
+  walia-cli add-blob-attributes '{"userName":"walia","walletsDir":"./dev-wallets","environment":"testnet","blobObjectId":"0x123...","attributes":{"renew_policy":"keep-forever"}}'
+  walia-cli renew-blobs '{"userName":"walia","walletsDir":"./dev-wallets","environment":"testnet","walBudget":"1","dryRun":true}'
+
   # Get blob attributes
   walia-cli get-blob-attributes '{"userName":"walia","walletsDir":"./dev-wallets","environment":"testnet","blobObjectId":"0x123..."}'
+
+  # Preview, then send SUI and WAL to another managed user
+  walia-cli transfer '{"userName":"walia","walletsDir":"./dev-wallets","environment":"testnet","recipient":"bob","sui":"0.5","wal":"1","dryRun":true}'
+  walia-cli transfer '{"userName":"walia","walletsDir":"./dev-wallets","environment":"testnet","recipient":"bob","sui":"0.5","wal":"1"}'
+
+  # Exchange exactly the SUI needed to receive 1 WAL
+  walia-cli exchange-wal '{"userName":"walia","walletsDir":"./dev-wallets","environment":"testnet","wal":"1"}'
+
+  # Import a shared project wallet from its private key
+  walia-cli import-wallet '{"userName":"project","walletsDir":"./dev-wallets","environment":"testnet","privateKey":"suiprivkey1..."}'
+
+  # Encrypt all plaintext wallets with the server master secret (or one wallet with "userName")
+  WALIA_KEYSTORE_SECRET=... walia-cli encrypt-wallets '{"walletsDir":"./dev-wallets"}'
 `);
   }
 
@@ -156,6 +198,9 @@ Examples:
   private async executeCommand(command: string, params: any): Promise<void> {
     const { userName = 'walia', walletsDir = './dev-wallets', environment = 'testnet' } = params;
 
+    // Keystores unlocked for the walrus CLI by a command that died are still on disk
+    removeStaleUnlockedConfigs(walletsDir);
+
     switch (command) {
       case 'store':
         await this.handleStore(params);
@@ -181,19 +226,52 @@ Examples:
       case 'send-blob':
         await this.handleSendBlob(params);
         break;
+      case 'share-blob':
+        await this.handleShareBlob(params);
+        break;
+      case 'revoke-access':
+        await this.handleRevokeAccess(params);
+        break;
+      case 'rotate-blob-key':
+        await this.handleRotateBlobKey(params);
+        break;
       case 'get-blob-object-id':
         await this.handleGetBlobObjectId(params);
         break;
       case 'get-wallet-balance':
         await this.handleGetWalletBalance(params);
         break;
+      case 'estimate-cost':
+        await this.handleEstimateCost(params);
+        break;
+      case 'extend':
+        await this.handleExtend(params);
+        break;
+      case 'renew-blobs':
+        await this.handleRenewBlobs(params);
+        break;
+      case 'encrypt-wallets':
+        await this.handleEncryptWallets(params);
+        break;
+      case 'transfer':
+        await this.handleTransfer(params);
+        break;
+      case 'exchange-wal':
+        await this.handleExchangeWal(params);
+        break;
+      case 'import-wallet':
+        await this.handleImportWallet(params);
+        break;
+      case 'list-access-groups':
+        await this.handleListAccessGroups(params);
+        break;
       default:
         throw new Error(`Unknown command: ${command}`);
     }
   }
 
   private async handleStore(params: any): Promise<void> {
-    const { userName = 'walia', walletsDir = './dev-wallets', environment = 'testnet', filePath, epochs, deletable = false, attributes = {} } = params;
+    const { userName = 'walia', walletsDir = './dev-wallets', environment = 'testnet', filePath, epochs, deletable = false, keepSource = true, accessGroup, attributes = {} } = params;
 
     if (!filePath) {
       throw new Error('filePath is required');
@@ -203,37 +281,26 @@ Examples:
       throw new Error(`File not found: ${filePath}`);
     }
 
-    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment);
+    const { sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment, params.passphrase);
 
-    // Check wallet balance before proceeding with storage
-    const balance = await walletManagement.getBalance();
-    const suiBalance = parseFloat(balance.sui);
-    const walBalance = parseFloat(balance.wal);
-
-    const MIN_SUI_REQUIRED = 0.5;
-    const MIN_WAL_REQUIRED = 0.5;
-
-    if (suiBalance < MIN_SUI_REQUIRED || walBalance < MIN_WAL_REQUIRED) {
-      const insufficientBalances = [];
-      if (suiBalance < MIN_SUI_REQUIRED) {
-        insufficientBalances.push(`SUI: ${balance.sui} (required: ${MIN_SUI_REQUIRED})`);
-      }
-      if (walBalance < MIN_WAL_REQUIRED) {
-        insufficientBalances.push(`WAL: ${balance.wal} (required: ${MIN_WAL_REQUIRED})`);
-      }
-
-      throw new Error(
-        `Insufficient balance to store file. Please top up your account.\n` +
-        `Current balances: ${insufficientBalances.join(', ')}\n` +
-        `Please ensure you have at least ${MIN_SUI_REQUIRED} SUI and ${MIN_WAL_REQUIRED} WAL tokens before storing files.`
-      );
+    // Estimate the gas and storage cost of this file and check them against the wallet balances
+    const preflight = await preflightStore(sealManager, clientConfig, {
+      fileSize: fs.statSync(filePath).size,
+      epochs,
+      createsWhitelist: !accessGroup || !sealManager.listAccessGroups().some(group => group.name === accessGroup)
+    });
+    if (!preflight.canStore) {
+      console.log(JSON.stringify(preflight, null, 2));
+      throw new InsufficientBalanceError(preflight);
     }
 
     const blobParams: BlobParams = {
       clientConf: clientConfig,
       epochs,
       deletable,
-      attributes
+      attributes,
+      keepSource,
+      accessGroup
     };
 
     const result: StoreResult = await store(filePath, blobParams, sealManager);
@@ -247,7 +314,7 @@ Examples:
       throw new Error('blobId is required');
     }
 
-    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment);
+    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment, params.passphrase);
 
     const blobParams: BlobParams = {
       clientConf: clientConfig
@@ -258,12 +325,12 @@ Examples:
   }
 
   private async handleListBlobs(params: any): Promise<void> {
-    const { userName = 'walia', walletsDir = './dev-wallets', environment = 'testnet', includeExpired = false } = params;
+    const { userName = 'walia', walletsDir = './dev-wallets', environment = 'testnet', includeExpired = false, ...query } = params;
 
-    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment);
+    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment, params.passphrase);
 
-    const blobs: BlobObject[] = await list_blobs(clientConfig, includeExpired);
-    console.log(JSON.stringify(blobs, null, 2));
+    const page: BlobPage = await queryBlobs(clientConfig, { ...query, includeExpired });
+    console.log(JSON.stringify(page, null, 2));
   }
 
   private async handleGetBlobAttributes(params: any): Promise<void> {
@@ -273,7 +340,7 @@ Examples:
       throw new Error('blobObjectId is required');
     }
 
-    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment);
+    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment, params.passphrase);
 
     const attributes: BlobAttributes = await get_blob_attributes(clientConfig, blobObjectId);
     console.log(JSON.stringify(attributes, null, 2));
@@ -289,7 +356,7 @@ Examples:
       throw new Error('attributes are required');
     }
 
-    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment);
+    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment, params.passphrase);
 
     await add_blob_attributes(clientConfig, blobObjectId, attributes);
     console.log(JSON.stringify({ message: `Attributes added successfully to blob: ${blobObjectId}` }, null, 2));
@@ -298,7 +365,7 @@ Examples:
   private async handleBurnBlobs(params: any): Promise<void> {
     const { userName = 'walia', walletsDir = './dev-wallets', environment = 'testnet', blobObjectIds, all_expired = false, all = false } = params;
 
-    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment);
+    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment, params.passphrase);
 
     const burnParams: BurnParams = {
       blobObjectIds,
@@ -317,7 +384,7 @@ Examples:
       throw new Error('storageId, storageStartEpoch, storageEndEpoch, storageSize, and amountWAL are required');
     }
 
-    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment);
+    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment, params.passphrase);
 
     const storage: StorageObject = {
       id: storageId,
@@ -340,12 +407,60 @@ Examples:
       throw new Error('destinationAddress is required');
     }
 
-    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment);
+    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment, params.passphrase);
 
     await sendBlob(blobObjectId, destinationAddress, sealManager);
     console.log(JSON.stringify({ message: `Blob ${blobObjectId} sent successfully to ${destinationAddress}` }, null, 2));
   }
 
+  private async handleShareBlob(params: any): Promise<void> {
+    const { userName = 'walia', walletsDir = './dev-wallets', environment = 'testnet', blobObjectId, addresses, expiresInDays } = params;
+
+    if (!blobObjectId) {
+      throw new Error('blobObjectId is required');
+    }
+    if (!Array.isArray(addresses) || addresses.length === 0) {
+      throw new Error('addresses must be a non-empty array');
+    }
+
+    const { sealManager } = await this.initializeComponents(userName, walletsDir, environment, params.passphrase);
+
+    const result = expiresInDays !== undefined
+      ? await shareBlobTemporarily(blobObjectId, addresses, expiryFromDays(expiresInDays), sealManager)
+      : await shareBlob(blobObjectId, addresses, sealManager);
+    console.log(JSON.stringify(result, null, 2));
+  }
+
+  private async handleRevokeAccess(params: any): Promise<void> {
+    const { userName = 'walia', walletsDir = './dev-wallets', environment = 'testnet', blobObjectId, addresses, rotateKey = false } = params;
+
+    if (!blobObjectId) {
+      throw new Error('blobObjectId is required');
+    }
+    if (!Array.isArray(addresses) || addresses.length === 0) {
+      throw new Error('addresses must be a non-empty array');
+    }
+
+    const { sealManager } = await this.initializeComponents(userName, walletsDir, environment, params.passphrase);
+
+    const result = await revokeBlob(blobObjectId, addresses, sealManager);
+    const rotation = rotateKey ? await rotateBlobKey(blobObjectId, sealManager) : undefined;
+    console.log(JSON.stringify(rotation ? { ...result, rotation } : result, null, 2));
+  }
+
+  private async handleRotateBlobKey(params: any): Promise<void> {
+    const { userName = 'walia', walletsDir = './dev-wallets', environment = 'testnet', blobObjectId, newWhitelist = false, epochs } = params;
+
+    if (!blobObjectId) {
+      throw new Error('blobObjectId is required');
+    }
+
+    const { sealManager } = await this.initializeComponents(userName, walletsDir, environment, params.passphrase);
+
+    const result = await rotateBlobKey(blobObjectId, sealManager, { newWhitelist, epochs });
+    console.log(JSON.stringify(result, null, 2));
+  }
+
   private async handleGetBlobObjectId(params: any): Promise<void> {
     const { userName = 'walia', walletsDir = './dev-wallets', environment = 'testnet', blobId } = params;
 
@@ -353,7 +468,7 @@ Examples:
       throw new Error('blobId is required');
     }
 
-    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment);
+    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment, params.passphrase);
 
     const objectId = await getBlobObjectIdByBlobId(blobId, clientConfig);
     
@@ -367,11 +482,106 @@ Examples:
   private async handleGetWalletBalance(params: any): Promise<void> {
     const { userName = 'walia', walletsDir = './dev-wallets', environment = 'testnet' } = params;
 
-    const { walletManagement } = await this.initializeComponents(userName, walletsDir, environment);
+    const { walletManagement } = await this.initializeComponents(userName, walletsDir, environment, params.passphrase);
 
     const balance = await walletManagement.getBalance();
     console.log(JSON.stringify(balance, null, 2));
   }
+
+  private async handleExtend(params: any): Promise<void> {
+    const { userName = 'walia', walletsDir = './dev-wallets', environment = 'testnet', blobObjectId, epochs, dryRun = false } = params;
+
+    if (!blobObjectId || !epochs) {
+      throw new Error('blobObjectId and epochs are required');
+    }
+
+    const { clientConfig } = await this.initializeComponents(userName, walletsDir, environment, params.passphrase);
+
+    const result = await extendBlob(clientConfig, blobObjectId, epochs, { dryRun });
+    console.log(JSON.stringify(result, null, 2));
+  }
+
+  private async handleRenewBlobs(params: any): Promise<void> {
+    const {
+      userName = 'walia',
+      walletsDir = './dev-wallets',
+      environment = 'testnet',
+      walBudget = process.env.WALIA_RENEW_WAL_BUDGET,
+      renewWithinEpochs,
+      extendEpochs,
+      dryRun = false
+    } = params;
+
+    if (!walBudget) {
+      throw new Error('walBudget is required when WALIA_RENEW_WAL_BUDGET is not set');
+    }
+
+    const { walletManagement } = await this.initializeComponents(userName, walletsDir, environment, params.passphrase);
+
+    const report = await runAutoRenewal([walletManagement], { walBudget, renewWithinEpochs, extendEpochs, dryRun });
+    console.log(JSON.stringify(report, null, 2));
+  }
+
+  private async handleEstimateCost(params: any): Promise<void> {
+    const { userName = 'walia', walletsDir = './dev-wallets', environment = 'testnet', filePath, sizeBytes, days, epochs } = params;
+
+    const { clientConfig } = await this.initializeComponents(userName, walletsDir, environment, params.passphrase);
+
+    const estimator = new WalrusCostEstimator(clientConfig);
+    const result = await estimator.quote({ filePath, sizeBytes, days, epochs });
+    console.log(JSON.stringify(result, null, 2));
+  }
+
+  private async handleListAccessGroups(params: any): Promise<void> {
+    const { userName = 'walia', walletsDir = './dev-wallets', environment = 'testnet' } = params;
+
+    const { sealManager } = await this.initializeComponents(userName, walletsDir, environment, params.passphrase);
+
+    console.log(JSON.stringify(sealManager.listAccessGroups(), null, 2));
+  }
+
+  private async handleTransfer(params: any): Promise<void> {
+    const { userName = 'walia', walletsDir = './dev-wallets', environment = 'testnet', recipient, sui, wal, dryRun = false } = params;
+
+    if (!recipient) {
+      throw new Error('recipient is required');
+    }
+
+    const { walletManagement } = await this.initializeComponents(userName, walletsDir, environment, params.passphrase);
+
+    const result = await walletManagement.transfer(recipient, { sui, wal }, { dryRun });
+    console.log(JSON.stringify(result, null, 2));
+  }
+
+  private async handleExchangeWal(params: any): Promise<void> {
+    const { userName = 'walia', walletsDir = './dev-wallets', environment = 'testnet', sui, wal, dryRun = false } = params;
+
+    const { walletManagement } = await this.initializeComponents(userName, walletsDir, environment, params.passphrase);
+
+    const result = await walletManagement.exchangeWal({ sui, wal }, { dryRun });
+    console.log(JSON.stringify(result, null, 2));
+  }
+
+  private async handleImportWallet(params: any): Promise<void> {
+    const { userName = 'walia', walletsDir = './dev-wallets', environment = 'testnet', mnemonic, privateKey, passphrase } = params;
+
+    const wallet = await importWallet(userName, { mnemonic, privateKey }, walletsDir, environment as EnvironmentType, passphrase);
+    console.log(JSON.stringify({ userName, address: wallet.address }, null, 2));
+  }
+
+  private async handleEncryptWallets(params: any): Promise<void> {
+    const { userName, walletsDir = './dev-wallets' } = params;
+
+    const passphrase = getKeystorePassphrase(params.passphrase);
+    if (!passphrase) {
+      throw new Error(`${KEYSTORE_SECRET_ENV} or passphrase is required`);
+    }
+
+    const result = userName
+      ? { userName, encrypted: encryptWalletSecrets(userName, passphrase, walletsDir) }
+      : encryptAllWalletSecrets(passphrase, walletsDir);
+    console.log(JSON.stringify(result, null, 2));
+  }
 }
 
 // Run CLI if this file is executed directly
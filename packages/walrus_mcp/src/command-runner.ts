@@ -0,0 +1,118 @@
+import * as path from "path";
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+// Output of commands such as `walrus list-blobs --json` can be large
+const MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+const OBJECT_ID_PATTERN = /^0x[0-9a-fA-F]{1,64}$/;
+// Walrus blob IDs are URL-safe base64 without padding
+const BLOB_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+// User names become wallet directory names and keystore aliases
+const USER_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,127}$/;
+
+export interface CommandResult {
+    stdout: string;
+    stderr: string;
+}
+
+/**
+ * Runs a program with an argument vector. No shell is involved, so arguments are
+ * passed to the program verbatim and cannot start other commands.
+ */
+export async function runCommand(program: string, args: string[]): Promise<CommandResult> {
+    for (const arg of args) {
+        if (typeof arg !== 'string' || arg.includes('\0')) {
+            throw new Error(`Invalid argument for ${program}: ${JSON.stringify(arg)}`);
+        }
+    }
+
+    try {
+        const { stdout, stderr } = await execFileAsync(program, args, {
+            maxBuffer: MAX_OUTPUT_BYTES,
+            encoding: 'utf8',
+        });
+        if (stderr) {
+            console.error('CLI warning:', stderr);
+        }
+        return { stdout, stderr };
+    } catch (error: any) {
+        const details = error?.stderr || error?.message || error;
+        throw new Error(`Command ${program} ${args[0] || ''} failed: ${details}`);
+    }
+}
+
+/**
+ * Runs a program with an argument vector and parses its stdout as JSON
+ */
+export async function runJsonCommand<T>(program: string, args: string[]): Promise<T> {
+    const { stdout } = await runCommand(program, args);
+    try {
+        return JSON.parse(stdout) as T;
+    } catch (error) {
+        throw new Error(`Invalid JSON output from ${program} ${args[0] || ''}: ${error}`);
+    }
+}
+
+/**
+ * Validates a Sui object ID or address
+ */
+export function validateObjectId(value: string, name = 'object ID'): string {
+    if (typeof value !== 'string' || !OBJECT_ID_PATTERN.test(value)) {
+        throw new Error(`Invalid ${name}: ${JSON.stringify(value)}`);
+    }
+    return value;
+}
+
+/**
+ * Validates a Walrus blob ID
+ */
+export function validateBlobId(value: string): string {
+    if (typeof value !== 'string' || !BLOB_ID_PATTERN.test(value)) {
+        throw new Error(`Invalid blob ID: ${JSON.stringify(value)}`);
+    }
+    return value;
+}
+
+/**
+ * Validates a user name, which must be usable as a single path segment
+ */
+export function validateUserName(value: string): string {
+    if (typeof value !== 'string' || !USER_NAME_PATTERN.test(value)) {
+        throw new Error(`Invalid user name: ${JSON.stringify(value)}`);
+    }
+    return value;
+}
+
+/**
+ * Validates a file path and makes it absolute, so it can never be read as an option
+ */
+export function validateFilePath(value: string): string {
+    if (typeof value !== 'string' || value.length === 0 || value.includes('\0')) {
+        throw new Error(`Invalid file path: ${JSON.stringify(value)}`);
+    }
+    return path.resolve(value);
+}
+
+/**
+ * Validates a free-form argument value (e.g. an attribute key or value).
+ * Values starting with '-' are rejected because the CLI would parse them as options.
+ */
+export function validateArgument(value: string, name = 'argument'): string {
+    if (typeof value !== 'string' || value.includes('\0') || value.startsWith('-')) {
+        throw new Error(`Invalid ${name}: ${JSON.stringify(value)}`);
+    }
+    return value;
+}
+
+/**
+ * Validates a non-negative integer, such as a number of epochs or an amount
+ */
+export function validateInteger(value: number, name = 'number'): number {
+    if (!Number.isSafeInteger(value) || value < 0) {
+        throw new Error(`Invalid ${name}: ${JSON.stringify(value)}`);
+    }
+    return value;
+}
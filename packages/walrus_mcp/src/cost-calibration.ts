@@ -0,0 +1,139 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ClientConfig, EnvironmentType, getClientEnvironment } from "./wallet-management";
+import { WalrusInfo } from "./walrus-cost-estimator";
+
+/**
+ * Calibration of the RS2 encoding model of the cost estimator. Every blob stored records
+ * its observed sizes and cost in cost_samples.json of the wallet directory, per
+ * environment. The encoded size is fitted as `overhead + factor * unencodedSize` to those
+ * samples, or to the example blobs of `walrus info` until a wallet has stored anything.
+ */
+const COST_SAMPLES_FILE = 'cost_samples.json';
+// Most recent samples kept per environment
+const MAX_SAMPLES = 100;
+
+/**
+ * Sizes and cost of a blob, as reported by Walrus when it was stored
+ */
+export interface CostSample {
+  unencodedSize: number;
+  encodedSize: number;
+  /** Storage cost in FROST */
+  cost: number;
+  epochs: number;
+  timestamp: string;
+}
+
+export type CalibrationSource = 'samples' | 'exampleBlobs' | 'default';
+
+/**
+ * Error of the encoded sizes predicted for the calibration data, as fractions of the
+ * observed sizes. Sizes are compared instead of costs, which change with the prices.
+ */
+export interface EstimationError {
+  source: CalibrationSource;
+  sampleCount: number;
+  meanRelativeError: number | null;
+  maxRelativeError: number | null;
+}
+
+export interface EncodingCalibration {
+  /** Absent when there is nothing to calibrate from */
+  rs2InflationFactor?: number;
+  encodingOverheadBytes?: number;
+  estimationError: EstimationError;
+}
+
+type CostSamplesFile = { [Env in EnvironmentType]?: CostSample[] };
+
+function getCostSamplesPath(clientConf: ClientConfig): string {
+  return path.join(path.dirname(clientConf.suiConfPath), COST_SAMPLES_FILE);
+}
+
+function readCostSamplesFile(clientConf: ClientConfig): CostSamplesFile {
+  const samplesPath = getCostSamplesPath(clientConf);
+  if (!fs.existsSync(samplesPath)) {
+    return {};
+  }
+  try {
+    return JSON.parse(fs.readFileSync(samplesPath, 'utf8'));
+  } catch (error) {
+    console.warn(`Ignoring invalid cost samples file ${samplesPath}:`, error);
+    return {};
+  }
+}
+
+/**
+ * Gets the samples recorded for the active environment of the client configuration
+ */
+export function loadCostSamples(clientConf: ClientConfig): CostSample[] {
+  return readCostSamplesFile(clientConf)[getClientEnvironment(clientConf)] || [];
+}
+
+/**
+ * Records the sizes and cost of a stored blob for the active environment
+ */
+export function recordCostSample(clientConf: ClientConfig, sample: Omit<CostSample, 'timestamp'>): void {
+  const samples = readCostSamplesFile(clientConf);
+  const env = getClientEnvironment(clientConf);
+  samples[env] = [...(samples[env] || []), { ...sample, timestamp: new Date().toISOString() }].slice(-MAX_SAMPLES);
+  fs.writeFileSync(getCostSamplesPath(clientConf), JSON.stringify(samples, null, 2));
+}
+
+/**
+ * Fits the encoding model to the recorded samples, else to the RS2 example blobs of the
+ * Walrus info. A single blob size only gives the overhead, with the default factor.
+ */
+export function calibrateEncoding(
+  samples: CostSample[],
+  walrusInfo: WalrusInfo | null,
+  defaultInflationFactor: number
+): EncodingCalibration {
+  const exampleBlobs = walrusInfo?.priceInfo.encodingDependentPriceInfo
+    .filter(info => info.encodingType === 'RS2')
+    .flatMap(info => info.exampleBlobs) || [];
+
+  let source: CalibrationSource;
+  let points: { unencodedSize: number; encodedSize: number }[];
+  if (samples.length > 0) {
+    source = 'samples';
+    points = samples;
+  } else if (exampleBlobs.length > 0) {
+    source = 'exampleBlobs';
+    points = exampleBlobs;
+  } else {
+    return {
+      estimationError: { source: 'default', sampleCount: 0, meanRelativeError: null, maxRelativeError: null },
+    };
+  }
+
+  // Least squares fit of the encoded size, the overhead and factor cannot be negative
+  const n = points.length;
+  const meanUnencoded = points.reduce((total, p) => total + p.unencodedSize, 0) / n;
+  const meanEncoded = points.reduce((total, p) => total + p.encodedSize, 0) / n;
+  const variance = points.reduce((total, p) => total + (p.unencodedSize - meanUnencoded) ** 2, 0);
+  const covariance = points.reduce(
+    (total, p) => total + (p.unencodedSize - meanUnencoded) * (p.encodedSize - meanEncoded),
+    0
+  );
+  let factor = variance > 0 && covariance > 0 ? covariance / variance : defaultInflationFactor;
+  let overhead = meanEncoded - factor * meanUnencoded;
+  if (overhead < 0) {
+    overhead = 0;
+    factor = points.reduce((total, p) => total + p.unencodedSize * p.encodedSize, 0)
+      / points.reduce((total, p) => total + p.unencodedSize ** 2, 0) || defaultInflationFactor;
+  }
+
+  const errors = points.map(p => Math.abs(overhead + factor * p.unencodedSize - p.encodedSize) / p.encodedSize);
+  return {
+    rs2InflationFactor: factor,
+    encodingOverheadBytes: Math.round(overhead),
+    estimationError: {
+      source,
+      sampleCount: n,
+      meanRelativeError: errors.reduce((total, error) => total + error, 0) / n,
+      maxRelativeError: Math.max(...errors),
+    },
+  };
+}
@@ -0,0 +1,149 @@
+import * as fs from "fs";
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+/**
+ * Envelope format of encrypted files:
+ *
+ *   magic (8) | version (1) | sealed key length (4, BE) | sealed key | IV (12) | ciphertext | auth tag (16)
+ *
+ * The content is encrypted with AES-256-GCM under a random data key, and only the
+ * data key is encrypted with Seal ("sealed key"). Files without the magic prefix are
+ * legacy blobs whose whole content was encrypted with Seal.
+ */
+const ENVELOPE_MAGIC = Buffer.from('WALIAENV', 'ascii');
+const ENVELOPE_VERSION = 1;
+const CIPHER_ALGORITHM = 'aes-256-gcm';
+const DATA_KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+const FIXED_HEADER_LENGTH = ENVELOPE_MAGIC.length + 1 + 4;
+// Seal encrypted objects of a 32 byte key are a few hundred bytes
+const MAX_SEALED_KEY_LENGTH = 64 * 1024;
+
+export interface EnvelopeHeader {
+  version: number;
+  sealedKey: Uint8Array;
+  iv: Buffer;
+  /** Offset of the ciphertext in the file */
+  headerLength: number;
+}
+
+/**
+ * Generates a random AES-256 data key
+ */
+export function generateDataKey(): Buffer {
+  return randomBytes(DATA_KEY_LENGTH);
+}
+
+/**
+ * Encrypts a file into an envelope, streaming the content so memory use does not
+ * depend on the file size
+ */
+export async function encryptFileToEnvelope(
+  inputPath: string,
+  outputPath: string,
+  dataKey: Buffer,
+  sealedKey: Uint8Array
+): Promise<void> {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(CIPHER_ALGORITHM, dataKey, iv, { authTagLength: AUTH_TAG_LENGTH });
+
+  const fixedHeader = Buffer.alloc(FIXED_HEADER_LENGTH);
+  ENVELOPE_MAGIC.copy(fixedHeader, 0);
+  fixedHeader.writeUInt8(ENVELOPE_VERSION, ENVELOPE_MAGIC.length);
+  fixedHeader.writeUInt32BE(sealedKey.length, ENVELOPE_MAGIC.length + 1);
+
+  try {
+    await pipeline(
+      fs.createReadStream(inputPath),
+      async function* (source: AsyncIterable<Buffer>) {
+        yield Buffer.concat([fixedHeader, Buffer.from(sealedKey), iv]);
+        for await (const chunk of source) {
+          yield cipher.update(chunk);
+        }
+        yield cipher.final();
+        yield cipher.getAuthTag();
+      },
+      fs.createWriteStream(outputPath)
+    );
+  } catch (error) {
+    fs.rmSync(outputPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Reads the header of an envelope, or returns null for files in the legacy format
+ */
+export async function readEnvelopeHeader(filePath: string): Promise<EnvelopeHeader | null> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const fileSize = (await handle.stat()).size;
+    const fixedHeader = Buffer.alloc(FIXED_HEADER_LENGTH);
+    const { bytesRead } = await handle.read(fixedHeader, 0, FIXED_HEADER_LENGTH, 0);
+    if (bytesRead < FIXED_HEADER_LENGTH || !fixedHeader.subarray(0, ENVELOPE_MAGIC.length).equals(ENVELOPE_MAGIC)) {
+      return null;
+    }
+
+    const version = fixedHeader.readUInt8(ENVELOPE_MAGIC.length);
+    if (version !== ENVELOPE_VERSION) {
+      throw new Error(`Unsupported envelope version ${version}`);
+    }
+    const sealedKeyLength = fixedHeader.readUInt32BE(ENVELOPE_MAGIC.length + 1);
+    const headerLength = FIXED_HEADER_LENGTH + sealedKeyLength + IV_LENGTH;
+    if (sealedKeyLength > MAX_SEALED_KEY_LENGTH || headerLength + AUTH_TAG_LENGTH > fileSize) {
+      throw new Error('Corrupted envelope header');
+    }
+
+    const rest = Buffer.alloc(sealedKeyLength + IV_LENGTH);
+    await handle.read(rest, 0, rest.length, FIXED_HEADER_LENGTH);
+    return {
+      version,
+      sealedKey: new Uint8Array(rest.subarray(0, sealedKeyLength)),
+      iv: rest.subarray(sealedKeyLength),
+      headerLength,
+    };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Decrypts the content of an envelope with its data key, streaming to the output file.
+ * The output only appears once the authentication tag has been verified.
+ */
+export async function decryptEnvelopeToFile(
+  filePath: string,
+  header: EnvelopeHeader,
+  dataKey: Buffer,
+  outputPath: string
+): Promise<void> {
+  const fileSize = (await fs.promises.stat(filePath)).size;
+  const tagOffset = fileSize - AUTH_TAG_LENGTH;
+
+  const authTag = Buffer.alloc(AUTH_TAG_LENGTH);
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    await handle.read(authTag, 0, AUTH_TAG_LENGTH, tagOffset);
+  } finally {
+    await handle.close();
+  }
+
+  const decipher = createDecipheriv(CIPHER_ALGORITHM, dataKey, header.iv, { authTagLength: AUTH_TAG_LENGTH });
+  decipher.setAuthTag(authTag);
+
+  const partialPath = `${outputPath}.partial`;
+  try {
+    // An empty range (no content) would make createReadStream read to the end of the file
+    const source = tagOffset > header.headerLength
+      ? fs.createReadStream(filePath, { start: header.headerLength, end: tagOffset - 1 })
+      : Readable.from([]);
+    await pipeline(source, decipher, fs.createWriteStream(partialPath));
+    fs.renameSync(partialPath, outputPath);
+  } catch (error) {
+    fs.rmSync(partialPath, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,100 @@
+import { ClientConfig, EnvironmentType, getClientEnvironment } from "./wallet-management";
+import { EpochInfo, SizeInfo, getInfo } from "./walrus-cost-estimator";
+
+/**
+ * Conversion between Walrus epochs and wall-clock time, from the epoch info of
+ * `walrus info`: epochs last a day on testnet and two weeks on mainnet. The epoch and
+ * size info are cached per environment until the current epoch ends.
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Time to wait before fetching the epoch info again when the network is late to change epoch
+const LATE_EPOCH_RETRY_MS = 60 * 1000;
+
+/**
+ * Expiry of a blob stored until an end epoch
+ */
+export interface BlobExpiry {
+  /** Start of the end epoch, when the blob stops being available */
+  expiresAt: Date;
+  epochsUntilExpiry: number;
+  /** Whole days left, 0 on the last day */
+  daysUntilExpiry: number;
+  isExpired: boolean;
+}
+
+interface CachedInfo {
+  epochInfo: EpochInfo;
+  sizeInfo: SizeInfo;
+}
+
+const infoCache = new Map<EnvironmentType, CachedInfo & { validUntil: number }>();
+
+/**
+ * Gets the epoch info of the environment of a client configuration, cached until the
+ * current epoch ends. Explicit backends are not tied to an environment and are not cached.
+ */
+export async function getEpochInfo(clientConf: ClientConfig): Promise<EpochInfo> {
+  return (await getCachedInfo(clientConf)).epochInfo;
+}
+
+/**
+ * Gets the size info of the environment of a client configuration, cached like the epoch info
+ */
+export async function getSizeInfo(clientConf: ClientConfig): Promise<SizeInfo> {
+  return (await getCachedInfo(clientConf)).sizeInfo;
+}
+
+async function getCachedInfo(clientConf: ClientConfig): Promise<CachedInfo> {
+  if (clientConf.walrusBackend) {
+    return await getInfo(clientConf);
+  }
+
+  const env = getClientEnvironment(clientConf);
+  const cached = infoCache.get(env);
+  if (cached && cached.validUntil > Date.now()) {
+    return cached;
+  }
+
+  const { epochInfo, sizeInfo } = await getInfo(clientConf);
+  const epochEnd = getEpochStartTime(epochInfo, epochInfo.currentEpoch + 1);
+  infoCache.set(env, { epochInfo, sizeInfo, validUntil: Math.max(epochEnd, Date.now() + LATE_EPOCH_RETRY_MS) });
+  return { epochInfo, sizeInfo };
+}
+
+/**
+ * Gets the duration of an epoch in ms
+ */
+export function getEpochDurationMs(epochInfo: EpochInfo): number {
+  return epochInfo.epochDuration.secs * 1000 + Math.floor(epochInfo.epochDuration.nanos / 1_000_000);
+}
+
+/**
+ * Gets the time at which an epoch starts (or started) in ms, assuming epochs keep their duration
+ */
+export function getEpochStartTime(epochInfo: EpochInfo, epoch: number): number {
+  return Date.parse(epochInfo.startOfCurrentEpoch.DateTime)
+    + (epoch - epochInfo.currentEpoch) * getEpochDurationMs(epochInfo);
+}
+
+/**
+ * Gets when a blob stored until an end epoch expires
+ */
+export function getBlobExpiry(epochInfo: EpochInfo, endEpoch: number, now = Date.now()): BlobExpiry {
+  const expiresAt = getEpochStartTime(epochInfo, endEpoch);
+  const isExpired = endEpoch <= epochInfo.currentEpoch;
+  return {
+    expiresAt: new Date(expiresAt),
+    epochsUntilExpiry: Math.max(0, endEpoch - epochInfo.currentEpoch),
+    daysUntilExpiry: isExpired ? 0 : Math.max(0, Math.floor((expiresAt - now) / DAY_MS)),
+    isExpired,
+  };
+}
+
+/**
+ * Gets the epochs to store a blob for so that it is available for a duration from now.
+ * The current epoch has partly elapsed, so it is counted from its start.
+ */
+export function epochsForDuration(epochInfo: EpochInfo, durationMs: number, now = Date.now()): number {
+  const elapsedMs = Math.max(0, now - Date.parse(epochInfo.startOfCurrentEpoch.DateTime));
+  return Math.max(1, Math.ceil((elapsedMs + durationMs) / getEpochDurationMs(epochInfo)));
+}
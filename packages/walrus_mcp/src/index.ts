@@ -36,8 +36,8 @@ async function main() {
         // Build transaction
         console.log('Building transaction from Alice to Bob...');
         try {
-            const tx = await buildAndSerializeTransaction('alice', 'bob', '1000000', '0');
-            console.log('Transaction:', JSON.parse(tx));
+            const tx = await buildAndSerializeTransaction('alice', 'bob', '0.001', '0');
+            console.log('Transaction bytes:', tx);
         } catch (error: any) {
             console.error('Error building transaction:', error.message);
         }
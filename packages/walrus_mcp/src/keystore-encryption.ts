@@ -0,0 +1,128 @@
+import * as fs from "fs";
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+
+/**
+ * Wallet secrets (sui.keystore and keypair.json) can be stored encrypted at rest. The
+ * content is encrypted with AES-256-GCM under a key derived with scrypt from a passphrase,
+ * either the server master secret in WALIA_KEYSTORE_SECRET or a per-user passphrase.
+ * The encrypted file replaces the plaintext one and holds a JSON object, so plaintext
+ * wallets (whose files hold a JSON array or a keytool object) are still readable.
+ */
+export const KEYSTORE_SECRET_ENV = 'WALIA_KEYSTORE_SECRET';
+
+const ENCRYPTED_SECRET_VERSION = 1;
+const CIPHER_ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+// Interactive login strength, about 100 ms per unlock
+const SCRYPT_COST = 2 ** 15;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+const SCRYPT_MAX_MEMORY = 64 * 1024 * 1024;
+
+/**
+ * Content of an encrypted wallet secret file, binary fields are base64
+ */
+export interface EncryptedSecret {
+  walia_encrypted: number;
+  kdf: 'scrypt';
+  N: number;
+  r: number;
+  p: number;
+  salt: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+/**
+ * Gets the passphrase that unlocks wallet secrets, the given one or the server master secret
+ */
+export function getKeystorePassphrase(passphrase?: string): string | undefined {
+  return passphrase || process.env[KEYSTORE_SECRET_ENV] || undefined;
+}
+
+export function isEncryptedSecret(value: any): value is EncryptedSecret {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    value.walia_encrypted === ENCRYPTED_SECRET_VERSION && value.kdf === 'scrypt';
+}
+
+export function encryptSecret(plaintext: string, passphrase: string): EncryptedSecret {
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const key = deriveKey(passphrase, salt, SCRYPT_COST, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELIZATION);
+  const cipher = createCipheriv(CIPHER_ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return {
+    walia_encrypted: ENCRYPTED_SECRET_VERSION,
+    kdf: 'scrypt',
+    N: SCRYPT_COST,
+    r: SCRYPT_BLOCK_SIZE,
+    p: SCRYPT_PARALLELIZATION,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+}
+
+export function decryptSecret(secret: EncryptedSecret, passphrase: string): string {
+  const key = deriveKey(passphrase, Buffer.from(secret.salt, 'base64'), secret.N, secret.r, secret.p);
+  const decipher = createDecipheriv(CIPHER_ALGORITHM, key, Buffer.from(secret.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(secret.tag, 'base64'));
+  try {
+    return Buffer.concat([decipher.update(Buffer.from(secret.ciphertext, 'base64')), decipher.final()]).toString('utf8');
+  } catch {
+    throw new Error('Wrong passphrase or corrupted wallet secret');
+  }
+}
+
+/**
+ * Checks whether a wallet secret file is encrypted
+ */
+export function isWalletSecretEncrypted(filePath: string): boolean {
+  try {
+    return isEncryptedSecret(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reads a wallet secret file, decrypting it in memory when it is encrypted
+ */
+export function readWalletSecret(filePath: string, passphrase?: string): string {
+  const content = fs.readFileSync(filePath, 'utf8');
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return content;
+  }
+  if (!isEncryptedSecret(parsed)) {
+    return content;
+  }
+
+  const unlockPassphrase = getKeystorePassphrase(passphrase);
+  if (!unlockPassphrase) {
+    throw new Error(`${filePath} is encrypted, set ${KEYSTORE_SECRET_ENV} or provide the wallet passphrase`);
+  }
+  return decryptSecret(parsed, unlockPassphrase);
+}
+
+/**
+ * Writes a wallet secret file readable only by its owner, encrypted when a passphrase is given
+ */
+export function writeWalletSecret(filePath: string, content: string, passphrase?: string): void {
+  const data = passphrase ? JSON.stringify(encryptSecret(content, passphrase), null, 2) : content;
+  // Write to a temporary file first so a crash never leaves a truncated secret
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, data, { mode: 0o600 });
+  fs.renameSync(tempPath, filePath);
+}
+
+function deriveKey(passphrase: string, salt: Buffer, N: number, r: number, p: number): Buffer {
+  return scryptSync(passphrase, salt, KEY_LENGTH, { N, r, p, maxmem: SCRYPT_MAX_MEMORY });
+}
@@ -0,0 +1,1001 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from "crypto";
+import { bcs } from "@mysten/sui/bcs";
+import {
+  BalanceChange,
+  CoinBalance,
+  DevInspectResults,
+  DevInspectTransactionBlockParams,
+  DryRunTransactionBlockParams,
+  DryRunTransactionBlockResponse,
+  GetBalanceParams,
+  GetCoinsParams,
+  GetNormalizedMoveFunctionParams,
+  GetObjectParams,
+  GetOwnedObjectsParams,
+  MultiGetObjectsParams,
+  PaginatedCoins,
+  PaginatedObjectsResponse,
+  SuiClient,
+  SuiMoveNormalizedFunction,
+  SuiMoveNormalizedType,
+  SuiObjectResponse,
+  SuiTransactionBlockResponse,
+} from "@mysten/sui/client";
+import { Signer } from "@mysten/sui/cryptography";
+import { Transaction } from "@mysten/sui/transactions";
+import { fromBase64, fromHex, normalizeStructTag, normalizeSuiAddress, toBase58, toHex } from "@mysten/sui/utils";
+import type { DecryptOptions, EncryptOptions } from "@mysten/seal";
+import { SealCipher } from "./seal";
+
+const WHITELIST_MODULE_NAME = 'whitelist';
+const WAL_EXCHANGE_MODULE_NAME = 'wal_exchange';
+const SUI_COIN_TYPE = '0x2::sui::SUI';
+const CLOCK_OBJECT_ID = normalizeSuiAddress('0x6');
+// Whitelist functions added after the first published version of walia_seal
+const TIMED_GRANT_FUNCTIONS = ['add_temporary', 'remove_temporary', 'get_temporary_members', 'seal_approve_timed'];
+
+// Abort codes of the walia_seal::whitelist module
+const ENoAccess = 1;
+const EInvalidCap = 2;
+const EDuplicate = 3;
+const ENotInWhitelist = 4;
+const EInvalidExpiry = 5;
+// Abort code of wal_exchange when the exchange lacks WAL
+const EInsufficientFundsInExchange = 0;
+
+/**
+ * Ownership of a local object, in the same shape as the Sui RPC
+ */
+export type LocalObjectOwner =
+  | { AddressOwner: string }
+  | { Shared: { initial_shared_version: string } };
+
+/**
+ * Object stored by the local network
+ */
+export interface LocalObject {
+  objectId: string;
+  type: string;
+  owner: LocalObjectOwner;
+  version: number;
+  fields: Record<string, any>;
+}
+
+/**
+ * Signed change of the balance of an address made by a transaction
+ */
+export interface LocalBalanceChange {
+  owner: string;
+  coinType: string;
+  amount: bigint;
+}
+
+/**
+ * Coin split off by a transaction command and not yet transferred
+ */
+interface LocalCoin {
+  coinType: string;
+  amount: bigint;
+}
+
+export interface LocalNetworkOptions {
+  /** Package that the whitelist module is published under */
+  waliaSealPackageId: string;
+  /** Coin type used to pay for Walrus storage */
+  walCoinType?: string;
+  /** Seed for object IDs and Seal keys, fixed by default so runs are reproducible */
+  seed?: string;
+  /** Whether the package has the time-limited grant functions, true by default, false as first published */
+  timedGrants?: boolean;
+}
+
+/**
+ * Error raised when a Move call aborts, recorded as a failed transaction
+ */
+class MoveAbortError extends Error {
+  constructor(moduleName: string, functionName: string, code: number, command: number) {
+    super(`MoveAbort(${moduleName}::${functionName}, ${code}) in command ${command}`);
+  }
+}
+
+/**
+ * Error raised when a coin is split for more than its balance, recorded as a failed transaction
+ */
+class InsufficientCoinBalanceError extends Error {
+  constructor(command: number) {
+    super(`InsufficientCoinBalance in command ${command}`);
+  }
+}
+
+/**
+ * In-process stand-in for a Sui network running the walia_seal whitelist package.
+ *
+ * Keeps objects, balances and the Walrus epoch in memory. Each balance stands for a
+ * single coin object. Its Sui client interprets the whitelist, transfer, coin and
+ * WAL exchange transactions built by SealManager, storage.ts and WalletManagement, and
+ * its Seal client enforces the same seal_approve policy as the Move module. Used
+ * together with MemoryWalrusBackend to run the storage flow without a network.
+ */
+export class LocalNetwork {
+  readonly suiClient: LocalSuiClient;
+  readonly sealClient: LocalSealClient;
+  readonly waliaSealPackageId: string;
+  readonly walCoinType: string;
+  readonly walExchangePackageId = normalizeSuiAddress('0x5678');
+  readonly timedGrants: boolean;
+
+  private objects = new Map<string, LocalObject>();
+  private blobContents = new Map<string, Buffer>();
+  private balances = new Map<string, bigint>();
+  // Coin object ID -> balance key of the coin
+  private coinIds = new Map<string, string>();
+  private seed: string;
+  private nextId = 0;
+  private currentEpoch = 1;
+  private epochStart = new Date();
+  private clockOffsetMs = 0;
+
+  constructor(options: LocalNetworkOptions) {
+    this.waliaSealPackageId = normalizeSuiAddress(options.waliaSealPackageId);
+    this.walCoinType = options.walCoinType || `${normalizeSuiAddress('0x1234')}::wal::WAL`;
+    this.seed = options.seed || 'walia-local-network';
+    this.timedGrants = options.timedGrants ?? true;
+    this.suiClient = new LocalSuiClient(this);
+    this.sealClient = new LocalSealClient(this);
+  }
+
+  /**
+   * Gets the current Walrus epoch
+   */
+  getCurrentEpoch(): number {
+    return this.currentEpoch;
+  }
+
+  /**
+   * Gets the time at which the current Walrus epoch started
+   */
+  getEpochStart(): Date {
+    return this.epochStart;
+  }
+
+  /**
+   * Moves the Walrus epoch forward, expiring blobs whose end epoch is reached
+   */
+  advanceEpochs(epochs: number): void {
+    this.currentEpoch += epochs;
+    this.epochStart = new Date();
+  }
+
+  /**
+   * Gets the time of the on-chain clock in ms
+   */
+  now(): number {
+    return Date.now() + this.clockOffsetMs;
+  }
+
+  /**
+   * Moves the on-chain clock forward, expiring time-limited whitelist members
+   */
+  advanceClock(ms: number): void {
+    this.clockOffsetMs += ms;
+  }
+
+  /**
+   * Credits an address with coins (SUI by default), amounts are in MIST/FROST
+   */
+  mint(owner: string, amount: bigint, coinType: string = SUI_COIN_TYPE): void {
+    const key = this.balanceKey(owner, coinType);
+    this.balances.set(key, (this.balances.get(key) || 0n) + amount);
+  }
+
+  /**
+   * Debits an address, failing if the balance is insufficient
+   */
+  debit(owner: string, amount: bigint, coinType: string = SUI_COIN_TYPE): void {
+    const key = this.balanceKey(owner, coinType);
+    const balance = this.balances.get(key) || 0n;
+    if (balance < amount) {
+      throw new Error(`Insufficient balance of ${coinType} for ${owner}: ${balance} < ${amount}`);
+    }
+    this.balances.set(key, balance - amount);
+  }
+
+  getBalance(owner: string, coinType: string = SUI_COIN_TYPE): bigint {
+    return this.balances.get(this.balanceKey(owner, coinType)) || 0n;
+  }
+
+  /**
+   * Gets the ID of the coin object that stands for the balance of an address
+   */
+  getCoinObjectId(owner: string, coinType: string = SUI_COIN_TYPE): string {
+    const key = this.balanceKey(owner, coinType);
+    const objectId = normalizeSuiAddress(toHex(createHash('sha256').update(`${this.seed}:coin:${key}`).digest()));
+    this.coinIds.set(objectId, key);
+    return objectId;
+  }
+
+  /**
+   * Creates a shared wal_exchange::Exchange holding WAL, which gives `rate.wal` WAL for `rate.sui` SUI
+   */
+  createWalExchange(walBalance: bigint, rate: { wal: bigint; sui: bigint } = { wal: 1n, sui: 1n }): LocalObject {
+    return this.createObject(
+      `${this.walExchangePackageId}::${WAL_EXCHANGE_MODULE_NAME}::Exchange`,
+      { Shared: { initial_shared_version: '1' } },
+      {
+        wal: walBalance.toString(),
+        sui: '0',
+        rate: { fields: { wal: rate.wal.toString(), sui: rate.sui.toString() } },
+        admin: normalizeSuiAddress('0x0'),
+      }
+    );
+  }
+
+  /**
+   * Creates an object with a fresh ID
+   */
+  createObject(type: string, owner: LocalObjectOwner, fields: Record<string, any>): LocalObject {
+    const objectId = this.newObjectId();
+    const object: LocalObject = {
+      objectId,
+      type,
+      owner,
+      version: 1,
+      fields: { id: { id: objectId }, ...fields },
+    };
+    this.objects.set(objectId, object);
+    return object;
+  }
+
+  getObject(objectId: string): LocalObject | undefined {
+    return this.objects.get(normalizeSuiAddress(objectId));
+  }
+
+  /**
+   * Gets an object, failing if it does not exist
+   */
+  requireObject(objectId: string): LocalObject {
+    const object = this.getObject(objectId);
+    if (!object) {
+      throw new Error(`Object ${objectId} does not exist`);
+    }
+    return object;
+  }
+
+  deleteObject(objectId: string): void {
+    this.objects.delete(normalizeSuiAddress(objectId));
+  }
+
+  /**
+   * Lists all objects of a type, regardless of owner
+   */
+  getObjectsByType(type: string): LocalObject[] {
+    const structType = normalizeStructTag(type);
+    return Array.from(this.objects.values()).filter(object => normalizeStructTag(object.type) === structType);
+  }
+
+  /**
+   * Lists the objects owned by an address, optionally of a single type
+   */
+  getOwnedObjects(owner: string, type?: string): LocalObject[] {
+    const address = normalizeSuiAddress(owner);
+    const structType = type ? normalizeStructTag(type) : undefined;
+    return Array.from(this.objects.values()).filter(object =>
+      'AddressOwner' in object.owner &&
+      object.owner.AddressOwner === address &&
+      (!structType || normalizeStructTag(object.type) === structType)
+    );
+  }
+
+  /**
+   * Stores the content of a Walrus blob
+   */
+  putBlobContent(blobId: string, content: Buffer): void {
+    this.blobContents.set(blobId, content);
+  }
+
+  getBlobContent(blobId: string): Buffer | undefined {
+    return this.blobContents.get(blobId);
+  }
+
+  /**
+   * Allocates a fresh object ID
+   */
+  newObjectId(): string {
+    const hash = createHash('sha256').update(`${this.seed}:${this.nextId++}`).digest();
+    return normalizeSuiAddress(toHex(hash));
+  }
+
+  /**
+   * Derives the symmetric key that stands in for the Seal key of an identity
+   */
+  deriveSealKey(packageId: string, id: string): Buffer {
+    return createHmac('sha256', this.seed)
+      .update(normalizeSuiAddress(packageId))
+      .update(toHex(fromHex(id)))
+      .digest();
+  }
+
+  /**
+   * Evaluates the seal_approve calls of a transaction for a sender, as the key servers would
+   * @returns The key IDs approved by the transaction
+   */
+  approveSealRequest(sender: string, packageId: string, txBytes: Uint8Array): string[] {
+    const data = Transaction.fromKind(txBytes).getData();
+    const approvedIds: string[] = [];
+
+    data.commands.forEach((command, index) => {
+      const call = command.MoveCall;
+      if (!call || normalizeSuiAddress(call.package) !== normalizeSuiAddress(packageId)) {
+        throw new Error(`Command ${index} is not a seal_approve call of package ${packageId}`);
+      }
+      const timed = call.function === 'seal_approve_timed';
+      if (call.module !== WHITELIST_MODULE_NAME || (call.function !== 'seal_approve' && !timed) || !this.hasWhitelistFunction(call.function)) {
+        throw new Error(`Unsupported approval function ${call.module}::${call.function}`);
+      }
+      // seal_approve keeps the (id, whitelist) signature of the first published version
+      if (call.arguments.length !== (timed ? 3 : 2)) {
+        throw new Error(`${call.function} takes ${timed ? 3 : 2} arguments, got ${call.arguments.length}`);
+      }
+
+      const id = bcs.vector(bcs.u8()).parse(this.pureInput(data.inputs, call.arguments[0]));
+      const whitelist = this.requireObject(this.objectInput(data.inputs, call.arguments[1]));
+      if (timed) {
+        this.requireClock(data.inputs, call.arguments[2]);
+      }
+      // Without the clock, time-limited grants are not checked
+      const nowMs = timed ? this.now() : undefined;
+      if (!this.checkPolicy(normalizeSuiAddress(sender), Uint8Array.from(id), whitelist, nowMs)) {
+        throw new MoveAbortError(WHITELIST_MODULE_NAME, call.function, ENoAccess, index);
+      }
+      approvedIds.push(toHex(Uint8Array.from(id)));
+    });
+
+    return approvedIds;
+  }
+
+  /**
+   * Executes a transaction on behalf of the sender.
+   * State is left untouched if any command fails, or if it is a dry run.
+   */
+  execute(
+    sender: string,
+    tx: Transaction,
+    dryRun = false
+  ): { created: LocalObject[]; balanceChanges: LocalBalanceChange[]; error?: string } {
+    const snapshot = new Map(Array.from(this.objects, ([id, object]) => [id, structuredClone(object)]));
+    const balancesSnapshot = new Map(this.balances);
+    const created: LocalObject[] = [];
+    const data = tx.getData();
+    const address = normalizeSuiAddress(sender);
+    // Coins split off by each command, set to undefined once transferred
+    const results: (LocalCoin | undefined)[][] = [];
+
+    try {
+      data.commands.forEach((command, index) => {
+        let produced: LocalCoin[] = [];
+        if (command.MoveCall) {
+          const call = command.MoveCall;
+          const packageId = normalizeSuiAddress(call.package);
+          if (packageId === this.walExchangePackageId && call.module === WAL_EXCHANGE_MODULE_NAME) {
+            produced = [this.executeExchangeCall(call.function, call.arguments, data.inputs, results, index)];
+          } else if (packageId === this.waliaSealPackageId && call.module === WHITELIST_MODULE_NAME) {
+            created.push(...this.executeWhitelistCall(address, call.function, call.arguments, data.inputs, index));
+          } else {
+            throw new Error(`Unsupported Move call ${call.package}::${call.module}::${call.function}`);
+          }
+        } else if (command.SplitCoins) {
+          const coinType = this.coinInputType(address, data.inputs, command.SplitCoins.coin);
+          produced = command.SplitCoins.amounts.map(arg => ({
+            coinType,
+            amount: BigInt(bcs.u64().parse(this.pureInput(data.inputs, arg))),
+          }));
+          const total = produced.reduce((sum, coin) => sum + coin.amount, 0n);
+          if (this.getBalance(address, coinType) < total) {
+            throw new InsufficientCoinBalanceError(index);
+          }
+          this.debit(address, total, coinType);
+        } else if (command.MergeCoins) {
+          // Balances are a single coin per type, so merging only checks the coin types
+          const coinType = this.coinInputType(address, data.inputs, command.MergeCoins.destination);
+          for (const source of command.MergeCoins.sources) {
+            if (this.coinInputType(address, data.inputs, source) !== coinType) {
+              throw new Error(`Cannot merge a coin that is not of type ${coinType}`);
+            }
+          }
+        } else if (command.TransferObjects) {
+          const recipient = normalizeSuiAddress(bcs.Address.parse(this.pureInput(data.inputs, command.TransferObjects.address)));
+          for (const arg of command.TransferObjects.objects) {
+            if (arg.$kind === 'Result' || arg.$kind === 'NestedResult') {
+              const coin = this.takeResult(results, arg);
+              this.mint(recipient, coin.amount, coin.coinType);
+              continue;
+            }
+            const object = this.requireOwnedObject(address, this.objectInput(data.inputs, arg));
+            object.owner = { AddressOwner: recipient };
+            object.version++;
+          }
+        } else {
+          throw new Error(`Unsupported command ${command.$kind}`);
+        }
+        results.push(produced);
+      });
+
+      // Coins that were split off but not transferred stay with the sender
+      for (const coin of results.flat()) {
+        if (coin) {
+          this.mint(address, coin.amount, coin.coinType);
+        }
+      }
+      const balanceChanges = this.getBalanceChanges(balancesSnapshot);
+      if (dryRun) {
+        this.objects = snapshot;
+        this.balances = balancesSnapshot;
+      }
+      return { created, balanceChanges };
+    } catch (error) {
+      this.objects = snapshot;
+      this.balances = balancesSnapshot;
+      if (error instanceof MoveAbortError || error instanceof InsufficientCoinBalanceError) {
+        return { created: [], balanceChanges: [], error: error.message };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Runs a read-only transaction and returns the BCS bytes and type of the return values of each command
+   */
+  inspect(tx: Transaction): [number[], string][][] {
+    const data = tx.getData();
+    return data.commands.map(command => {
+      const call = command.MoveCall;
+      if (!call || call.module !== WHITELIST_MODULE_NAME) {
+        throw new Error(`Unsupported inspection of ${command.$kind}`);
+      }
+      if (!this.hasWhitelistFunction(call.function)) {
+        throw new Error(`Function ${WHITELIST_MODULE_NAME}::${call.function} does not exist`);
+      }
+      const whitelist = this.requireObject(this.objectInput(data.inputs, call.arguments[0]));
+      switch (call.function) {
+        case 'get_addresses':
+          return [[Array.from(bcs.vector(bcs.Address).serialize(whitelist.fields.addresses).toBytes()), 'vector<address>']];
+        case 'get_temporary_members': {
+          const members: Record<string, number> = whitelist.fields.temporary_members || {};
+          return [
+            [Array.from(bcs.vector(bcs.Address).serialize(Object.keys(members)).toBytes()), 'vector<address>'],
+            [Array.from(bcs.vector(bcs.u64()).serialize(Object.values(members)).toBytes()), 'vector<u64>'],
+          ];
+        }
+        default:
+          throw new Error(`Unsupported inspection of ${call.module}::${call.function}`);
+      }
+    });
+  }
+
+  /**
+   * Gets the normalized signature of a whitelist function, as needed to build transactions
+   */
+  getWhitelistFunction(functionName: string): SuiMoveNormalizedFunction {
+    const struct = (module: string, name: string, address = this.waliaSealPackageId): SuiMoveNormalizedType => ({
+      Struct: { address, module, name, typeArguments: [] },
+    });
+    const txContext = struct('tx_context', 'TxContext', '0x2');
+    const whitelist = struct(WHITELIST_MODULE_NAME, 'Whitelist');
+    const cap = struct(WHITELIST_MODULE_NAME, 'Cap');
+    const clock = struct('clock', 'Clock', '0x2');
+
+    const parameters: Record<string, SuiMoveNormalizedType[]> = {
+      create_whitelist_entry: [{ MutableReference: txContext }],
+      add: [{ MutableReference: whitelist }, { Reference: cap }, 'Address'],
+      remove: [{ MutableReference: whitelist }, { Reference: cap }, 'Address'],
+      add_temporary: [{ MutableReference: whitelist }, { Reference: cap }, 'Address', 'U64', { Reference: clock }],
+      remove_temporary: [{ MutableReference: whitelist }, { Reference: cap }, 'Address'],
+      get_addresses: [{ Reference: whitelist }],
+      get_temporary_members: [{ Reference: whitelist }],
+      seal_approve: [{ Vector: 'U8' }, { Reference: whitelist }, { Reference: txContext }],
+      seal_approve_timed: [{ Vector: 'U8' }, { Reference: whitelist }, { Reference: clock }, { Reference: txContext }],
+      create_walia_obj_cap: [cap, struct('object', 'ID', '0x2'), { MutableReference: txContext }],
+      burn_walia_obj_cap: [struct(WHITELIST_MODULE_NAME, 'WaliaObjCap')],
+    };
+    if (!parameters[functionName] || !this.hasWhitelistFunction(functionName)) {
+      throw new Error(`Function ${WHITELIST_MODULE_NAME}::${functionName} does not exist`);
+    }
+
+    return {
+      visibility: 'Public',
+      isEntry: true,
+      typeParameters: [],
+      parameters: parameters[functionName],
+      return: [],
+    };
+  }
+
+  /**
+   * Gets the normalized signature of a wal_exchange function, as needed to build transactions
+   */
+  getWalExchangeFunction(functionName: string): SuiMoveNormalizedFunction {
+    if (functionName !== 'exchange_all_for_wal') {
+      throw new Error(`Function ${WAL_EXCHANGE_MODULE_NAME}::${functionName} does not exist`);
+    }
+    const [walPackage, walModule, walName] = this.walCoinType.split('::');
+    const coin = (typeArgument: SuiMoveNormalizedType): SuiMoveNormalizedType => ({
+      Struct: { address: '0x2', module: 'coin', name: 'Coin', typeArguments: [typeArgument] },
+    });
+    const sui: SuiMoveNormalizedType = { Struct: { address: '0x2', module: 'sui', name: 'SUI', typeArguments: [] } };
+    const wal: SuiMoveNormalizedType = { Struct: { address: walPackage, module: walModule, name: walName, typeArguments: [] } };
+
+    return {
+      visibility: 'Public',
+      isEntry: false,
+      typeParameters: [],
+      parameters: [
+        { MutableReference: { Struct: { address: this.walExchangePackageId, module: WAL_EXCHANGE_MODULE_NAME, name: 'Exchange', typeArguments: [] } } },
+        coin(sui),
+        { MutableReference: { Struct: { address: '0x2', module: 'tx_context', name: 'TxContext', typeArguments: [] } } },
+      ],
+      return: [coin(wal)],
+    };
+  }
+
+  /**
+   * Exchanges a SUI coin produced by an earlier command for WAL, as wal_exchange::exchange_all_for_wal
+   */
+  private executeExchangeCall(
+    functionName: string,
+    args: any[],
+    inputs: any[],
+    results: (LocalCoin | undefined)[][],
+    command: number
+  ): LocalCoin {
+    if (functionName !== 'exchange_all_for_wal') {
+      throw new Error(`Unsupported Move call ${WAL_EXCHANGE_MODULE_NAME}::${functionName}`);
+    }
+    const exchange = this.requireObject(this.objectInput(inputs, args[0]));
+    const sui = this.takeResult(results, args[1]);
+    if (sui.coinType !== normalizeStructTag(SUI_COIN_TYPE)) {
+      throw new Error(`Expected a SUI coin, got ${sui.coinType}`);
+    }
+
+    const rate = exchange.fields.rate.fields;
+    const wal = sui.amount * BigInt(rate.wal) / BigInt(rate.sui);
+    if (wal > BigInt(exchange.fields.wal)) {
+      throw new MoveAbortError(WAL_EXCHANGE_MODULE_NAME, functionName, EInsufficientFundsInExchange, command);
+    }
+    exchange.fields.wal = (BigInt(exchange.fields.wal) - wal).toString();
+    exchange.fields.sui = (BigInt(exchange.fields.sui) + sui.amount).toString();
+    exchange.version++;
+    return { coinType: normalizeStructTag(this.walCoinType), amount: wal };
+  }
+
+  private executeWhitelistCall(
+    sender: string,
+    functionName: string,
+    args: any[],
+    inputs: any[],
+    index: number
+  ): LocalObject[] {
+    const whitelistType = `${this.waliaSealPackageId}::${WHITELIST_MODULE_NAME}::Whitelist`;
+    const capType = `${this.waliaSealPackageId}::${WHITELIST_MODULE_NAME}::Cap`;
+    const abort = (code: number) => new MoveAbortError(WHITELIST_MODULE_NAME, functionName, code, index);
+    if (!this.hasWhitelistFunction(functionName)) {
+      throw new Error(`Function ${WHITELIST_MODULE_NAME}::${functionName} does not exist`);
+    }
+
+    switch (functionName) {
+      case 'create_whitelist_entry': {
+        const whitelist = this.createObject(whitelistType, { Shared: { initial_shared_version: '1' } }, { addresses: [] });
+        const cap = this.createObject(capType, { AddressOwner: sender }, { wl_id: whitelist.objectId });
+        return [cap, whitelist];
+      }
+      case 'add':
+      case 'remove': {
+        const whitelist = this.requireObject(this.objectInput(inputs, args[0]));
+        const cap = this.requireOwnedObject(sender, this.objectInput(inputs, args[1]));
+        const account = normalizeSuiAddress(bcs.Address.parse(this.pureInput(inputs, args[2])));
+        if (cap.fields.wl_id !== whitelist.objectId) {
+          throw abort(EInvalidCap);
+        }
+        const addresses: string[] = whitelist.fields.addresses;
+        if (functionName === 'add') {
+          if (addresses.includes(account)) {
+            throw abort(EDuplicate);
+          }
+          addresses.push(account);
+        } else {
+          if (!addresses.includes(account)) {
+            throw abort(ENotInWhitelist);
+          }
+          whitelist.fields.addresses = addresses.filter(address => address !== account);
+        }
+        whitelist.version++;
+        return [];
+      }
+      case 'add_temporary':
+      case 'remove_temporary': {
+        const whitelist = this.requireObject(this.objectInput(inputs, args[0]));
+        const cap = this.requireOwnedObject(sender, this.objectInput(inputs, args[1]));
+        const account = normalizeSuiAddress(bcs.Address.parse(this.pureInput(inputs, args[2])));
+        if (cap.fields.wl_id !== whitelist.objectId) {
+          throw abort(EInvalidCap);
+        }
+        const members: Record<string, number> = whitelist.fields.temporary_members || {};
+        if (functionName === 'add_temporary') {
+          const expiresAt = Number(bcs.u64().parse(this.pureInput(inputs, args[3])));
+          this.requireClock(inputs, args[4]);
+          if ((whitelist.fields.addresses as string[]).includes(account)) {
+            throw abort(EDuplicate);
+          }
+          if (expiresAt <= this.now()) {
+            throw abort(EInvalidExpiry);
+          }
+          members[account] = expiresAt;
+        } else {
+          if (members[account] === undefined) {
+            throw abort(ENotInWhitelist);
+          }
+          delete members[account];
+        }
+        whitelist.fields.temporary_members = members;
+        whitelist.version++;
+        return [];
+      }
+      case 'create_walia_obj_cap': {
+        const cap = this.requireOwnedObject(sender, this.objectInput(inputs, args[0]));
+        const walrusObjId = normalizeSuiAddress(bcs.Address.parse(this.pureInput(inputs, args[1])));
+        this.deleteObject(cap.objectId);
+        const objCap = this.createObject(`${this.waliaSealPackageId}::${WHITELIST_MODULE_NAME}::WaliaObjCap`, { AddressOwner: sender }, {
+          cap: { id: { id: cap.objectId }, wl_id: cap.fields.wl_id },
+          walrus_obj_id: walrusObjId,
+        });
+        return [objCap];
+      }
+      case 'burn_walia_obj_cap': {
+        const objCap = this.requireOwnedObject(sender, this.objectInput(inputs, args[0]));
+        this.deleteObject(objCap.objectId);
+        return [];
+      }
+      default:
+        throw new Error(`Unsupported whitelist function ${functionName}`);
+    }
+  }
+
+  /**
+   * Same policy as whitelist::check_policy: the key ID must start with the
+   * whitelist ID and the caller must be on the whitelist, or have a grant
+   * that has not expired
+   */
+  private checkPolicy(caller: string, id: Uint8Array, whitelist: LocalObject, nowMs?: number): boolean {
+    const prefix = fromHex(whitelist.objectId);
+    if (prefix.length > id.length || prefix.some((byte, i) => byte !== id[i])) {
+      return false;
+    }
+    const expiresAt = whitelist.fields.temporary_members?.[caller];
+    return (whitelist.fields.addresses as string[]).includes(caller) ||
+      (expiresAt !== undefined && nowMs !== undefined && nowMs < expiresAt);
+  }
+
+  private hasWhitelistFunction(functionName: string): boolean {
+    return this.timedGrants || !TIMED_GRANT_FUNCTIONS.includes(functionName);
+  }
+
+  private requireClock(inputs: any[], arg: any): void {
+    if (this.objectInput(inputs, arg) !== CLOCK_OBJECT_ID) {
+      throw new Error('Expected the clock object argument');
+    }
+  }
+
+  /**
+   * Gets the coin type of a coin argument, the gas coin or a coin of the sender
+   */
+  private coinInputType(sender: string, inputs: any[], arg: any): string {
+    if (arg?.$kind === 'GasCoin') {
+      return normalizeStructTag(SUI_COIN_TYPE);
+    }
+    const objectId = this.objectInput(inputs, arg);
+    const key = this.coinIds.get(objectId);
+    if (!key) {
+      throw new Error(`Object ${objectId} is not a coin`);
+    }
+    if (!key.startsWith(`${sender}:`)) {
+      throw new Error(`Coin ${objectId} is not owned by ${sender}`);
+    }
+    return key.slice(sender.length + 1);
+  }
+
+  private takeResult(results: (LocalCoin | undefined)[][], arg: any): LocalCoin {
+    const [command, index] = arg.$kind === 'Result' ? [arg.Result, 0] : arg.NestedResult;
+    const coin = results[command]?.[index];
+    if (!coin) {
+      throw new Error(`Result ${index} of command ${command} is not an unused coin`);
+    }
+    results[command][index] = undefined;
+    return coin;
+  }
+
+  private getBalanceChanges(before: Map<string, bigint>): LocalBalanceChange[] {
+    const keys = new Set([...before.keys(), ...this.balances.keys()]);
+    const changes: LocalBalanceChange[] = [];
+    for (const key of keys) {
+      const amount = (this.balances.get(key) || 0n) - (before.get(key) || 0n);
+      if (amount !== 0n) {
+        const separator = key.indexOf(':');
+        changes.push({ owner: key.slice(0, separator), coinType: key.slice(separator + 1), amount });
+      }
+    }
+    return changes;
+  }
+
+  private requireOwnedObject(sender: string, objectId: string): LocalObject {
+    const object = this.requireObject(objectId);
+    if (!('AddressOwner' in object.owner) || object.owner.AddressOwner !== sender) {
+      throw new Error(`Object ${objectId} is not owned by ${sender}`);
+    }
+    return object;
+  }
+
+  private pureInput(inputs: any[], arg: any): Uint8Array {
+    const input = arg?.$kind === 'Input' ? inputs[arg.Input] : undefined;
+    if (!input?.Pure) {
+      throw new Error('Expected a pure input argument');
+    }
+    return fromBase64(input.Pure.bytes);
+  }
+
+  private objectInput(inputs: any[], arg: any): string {
+    const input = arg?.$kind === 'Input' ? inputs[arg.Input] : undefined;
+    const objectId = input?.UnresolvedObject?.objectId ??
+      input?.Object?.ImmOrOwnedObject?.objectId ??
+      input?.Object?.SharedObject?.objectId;
+    if (!objectId) {
+      throw new Error('Expected an object input argument');
+    }
+    return normalizeSuiAddress(objectId);
+  }
+
+  private balanceKey(owner: string, coinType: string): string {
+    return `${normalizeSuiAddress(owner)}:${normalizeStructTag(coinType)}`;
+  }
+}
+
+/**
+ * Sui client backed by a LocalNetwork. Calls that are not emulated fail
+ * instead of reaching a real fullnode.
+ */
+export class LocalSuiClient extends SuiClient {
+  private localNetwork: LocalNetwork;
+  private transactionCount = 0;
+
+  constructor(network: LocalNetwork) {
+    super({
+      transport: {
+        request: async ({ method }) => {
+          throw new Error(`${method} is not supported by the local network`);
+        },
+        subscribe: async () => {
+          throw new Error('Subscriptions are not supported by the local network');
+        },
+      },
+    });
+    this.localNetwork = network;
+  }
+
+  async getObject(input: GetObjectParams): Promise<SuiObjectResponse> {
+    const object = this.localNetwork.getObject(input.id);
+    if (!object) {
+      return { error: { code: 'notExists', object_id: input.id } };
+    }
+    return { data: toObjectData(object) };
+  }
+
+  async multiGetObjects(input: MultiGetObjectsParams): Promise<SuiObjectResponse[]> {
+    return Promise.all(input.ids.map(id => this.getObject({ id, options: input.options })));
+  }
+
+  async getOwnedObjects(input: GetOwnedObjectsParams): Promise<PaginatedObjectsResponse> {
+    const filter = input.filter as { StructType?: string } | undefined;
+    const objects = this.localNetwork.getOwnedObjects(input.owner, filter?.StructType);
+    return {
+      data: objects.map(object => ({ data: toObjectData(object) })),
+      hasNextPage: false,
+      nextCursor: null,
+    };
+  }
+
+  async getBalance(input: GetBalanceParams): Promise<CoinBalance> {
+    const coinType = input.coinType || SUI_COIN_TYPE;
+    return {
+      coinType,
+      coinObjectCount: 1,
+      totalBalance: this.localNetwork.getBalance(input.owner, coinType).toString(),
+      lockedBalance: {},
+    };
+  }
+
+  async getCoins(input: GetCoinsParams): Promise<PaginatedCoins> {
+    const coinType = input.coinType || SUI_COIN_TYPE;
+    const balance = this.localNetwork.getBalance(input.owner, coinType);
+    const coinObjectId = this.localNetwork.getCoinObjectId(input.owner, coinType);
+    return {
+      data: balance === 0n ? [] : [{
+        coinType,
+        coinObjectId,
+        version: '1',
+        digest: toBase58(createHash('sha256').update(`${coinObjectId}:${balance}`).digest()),
+        balance: balance.toString(),
+        previousTransaction: toBase58(createHash('sha256').update(coinObjectId).digest()),
+      }],
+      hasNextPage: false,
+      nextCursor: null,
+    };
+  }
+
+  async getReferenceGasPrice(): Promise<bigint> {
+    return 1000n;
+  }
+
+  async getNormalizedMoveFunction(input: GetNormalizedMoveFunctionParams): Promise<SuiMoveNormalizedFunction> {
+    const packageId = normalizeSuiAddress(input.package);
+    if (packageId === this.localNetwork.walExchangePackageId && input.module === WAL_EXCHANGE_MODULE_NAME) {
+      return this.localNetwork.getWalExchangeFunction(input.function);
+    }
+    if (packageId !== this.localNetwork.waliaSealPackageId || input.module !== WHITELIST_MODULE_NAME) {
+      throw new Error(`Package ${input.package}::${input.module} is not published on the local network`);
+    }
+    return this.localNetwork.getWhitelistFunction(input.function);
+  }
+
+  async devInspectTransactionBlock(input: DevInspectTransactionBlockParams): Promise<DevInspectResults> {
+    const tx = toTransaction(input.transactionBlock);
+    try {
+      const returnValues = this.localNetwork.inspect(tx);
+      return {
+        effects: successEffects(),
+        events: [],
+        results: returnValues.map(values => ({ returnValues: values })),
+      } as unknown as DevInspectResults;
+    } catch (error) {
+      return { effects: successEffects(), events: [], error: String(error) } as unknown as DevInspectResults;
+    }
+  }
+
+  async dryRunTransactionBlock(input: DryRunTransactionBlockParams): Promise<DryRunTransactionBlockResponse> {
+    const tx = toTransaction(input.transactionBlock);
+    const sender = tx.getData().sender;
+    if (!sender) {
+      throw new Error('Dry run transactions need a sender');
+    }
+    const { balanceChanges, error } = this.localNetwork.execute(sender, tx, true);
+
+    return {
+      effects: error ? { status: { status: 'failure', error } } : successEffects(),
+      balanceChanges: balanceChanges.map(toRpcBalanceChange),
+      events: [],
+      objectChanges: [],
+    } as unknown as DryRunTransactionBlockResponse;
+  }
+
+  async signAndExecuteTransaction({ transaction, signer }: {
+    transaction: Uint8Array | Transaction;
+    signer: Signer;
+  }): Promise<SuiTransactionBlockResponse> {
+    const sender = signer.toSuiAddress();
+    const digest = toBase58(createHash('sha256').update(`tx:${this.transactionCount++}`).digest());
+    const { created, balanceChanges, error } = this.localNetwork.execute(sender, toTransaction(transaction));
+
+    return {
+      digest,
+      effects: error ? { status: { status: 'failure', error } } : successEffects(),
+      balanceChanges: balanceChanges.map(toRpcBalanceChange),
+      objectChanges: created.map(object => ({
+        type: 'created',
+        sender,
+        owner: object.owner,
+        objectType: object.type,
+        objectId: object.objectId,
+        version: String(object.version),
+        digest,
+      })),
+    } as unknown as SuiTransactionBlockResponse;
+  }
+
+  async waitForTransaction(input: { digest: string }): Promise<SuiTransactionBlockResponse> {
+    return { digest: input.digest } as SuiTransactionBlockResponse;
+  }
+}
+
+/**
+ * Seal client backed by a LocalNetwork. Encrypts with AES-256-GCM under a key
+ * derived from the identity, and only releases it when the seal_approve calls
+ * in txBytes pass for the session key address.
+ */
+export class LocalSealClient implements SealCipher {
+  private network: LocalNetwork;
+
+  constructor(network: LocalNetwork) {
+    this.network = network;
+  }
+
+  async encrypt({ packageId, id, data }: EncryptOptions): Promise<{ encryptedObject: Uint8Array; key: Uint8Array }> {
+    const key = this.network.deriveSealKey(packageId, id);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(data), cipher.final(), cipher.getAuthTag()]);
+
+    const encryptedObject = LocalEncryptedObject.serialize({
+      packageId,
+      id: Array.from(fromHex(id)),
+      iv: Array.from(iv),
+      ciphertext: Array.from(ciphertext),
+    }).toBytes();
+    return { encryptedObject, key };
+  }
+
+  async decrypt({ data, sessionKey, txBytes }: DecryptOptions): Promise<Uint8Array> {
+    const encrypted = LocalEncryptedObject.parse(data);
+    const id = toHex(Uint8Array.from(encrypted.id));
+
+    if (sessionKey.isExpired()) {
+      throw new Error('Session key has expired');
+    }
+    if (normalizeSuiAddress(sessionKey.getPackageId()) !== normalizeSuiAddress(encrypted.packageId)) {
+      throw new Error(`Session key is for package ${sessionKey.getPackageId()}, not ${encrypted.packageId}`);
+    }
+    const approvedIds = this.network.approveSealRequest(sessionKey.getAddress(), encrypted.packageId, txBytes);
+    if (!approvedIds.includes(id)) {
+      throw new Error(`Access to key ID ${id} was not requested`);
+    }
+
+    const key = this.network.deriveSealKey(encrypted.packageId, id);
+    const ciphertext = Buffer.from(encrypted.ciphertext);
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(encrypted.iv));
+    decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+    return Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+  }
+}
+
+// Encrypted object layout produced by LocalSealClient
+const LocalEncryptedObject = bcs.struct('LocalEncryptedObject', {
+  packageId: bcs.Address,
+  id: bcs.vector(bcs.u8()),
+  iv: bcs.vector(bcs.u8()),
+  ciphertext: bcs.vector(bcs.u8()),
+});
+
+function toTransaction(transaction: Uint8Array | Transaction | string): Transaction {
+  if (transaction instanceof Transaction) {
+    return transaction;
+  }
+  return Transaction.from(transaction);
+}
+
+function toObjectData(object: LocalObject) {
+  return {
+    objectId: object.objectId,
+    version: String(object.version),
+    digest: toBase58(createHash('sha256').update(`${object.objectId}:${object.version}`).digest()),
+    type: object.type,
+    owner: object.owner,
+    content: {
+      dataType: 'moveObject' as const,
+      type: object.type,
+      hasPublicTransfer: true,
+      fields: object.fields,
+    },
+  };
+}
+
+function toRpcBalanceChange(change: LocalBalanceChange): BalanceChange {
+  return {
+    owner: { AddressOwner: change.owner },
+    coinType: change.coinType,
+    amount: change.amount.toString(),
+  };
+}
+
+// The local network does not charge gas
+function successEffects() {
+  return {
+    status: { status: 'success' },
+    gasUsed: { computationCost: '0', storageCost: '0', storageRebate: '0', nonRefundableStorageFee: '0' },
+  };
+}
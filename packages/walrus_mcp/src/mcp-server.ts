@@ -16,25 +16,44 @@ config();
 import { 
   store, 
   read, 
-  list_blobs, 
   add_blob_attributes, 
   get_blob_attributes, 
   burnBlobs, 
   fundSharedBlob, 
+  extendBlob,
   sendBlob,
+  shareBlob,
+  shareBlobTemporarily,
+  expiryFromDays,
+  revokeBlob,
+  rotateBlobKey,
   getBlobObjectIdByBlobId,
   BlobParams,
   BurnParams,
   StoreResult,
-  BlobObject,
   BlobAttributes,
   StorageObject
 } from './storage.js';
 import { SealManager } from './seal.js';
-import { WalletManagement, ClientConfig, EnvironmentType } from './wallet-management.js';
+import { getNetworkConfig } from './network-registry.js';
+import { WalletManagement, ClientConfig, EnvironmentType, ExchangeWalResult, importWallet, parseCoinAmount, removeStaleUnlockedConfigs } from './wallet-management.js';
+import { InsufficientBalanceError, preflightStore } from './store-preflight.js';
+import { WalrusCostEstimator } from './walrus-cost-estimator.js';
+import { runAutoRenewal } from './auto-renewal.js';
+import { BLOB_SORT_KEYS, BlobPage, queryBlobs } from './blob-query.js';
 import * as path from 'path';
 import * as fs from 'fs';
 
+// Tool arguments that are never written to the log
+const SECRET_ARGUMENTS = ['passphrase', 'mnemonic', 'privateKey'];
+
+function redactSecrets(args: Record<string, unknown> | undefined): Record<string, unknown> | undefined {
+  if (!args) {
+    return args;
+  }
+  return Object.fromEntries(Object.entries(args).filter(([key]) => !SECRET_ARGUMENTS.includes(key)));
+}
+
 class WaliaStorageMCPServer {
   private server: Server;
 
@@ -83,34 +102,16 @@ class WaliaStorageMCPServer {
   }
 
   private getWaliaSealPackageId(environment: string): string {
-    // Default fallback package ID
-    const DEFAULT_PACKAGE_ID = '0xf5083045ffb970f16dde2bbad407909b9e761f6c93342500530d9efdf7b09507';
-    
-    // Try to get environment-specific package ID from environment variables
-    const envVarName = `WALIA_SEAL_PACKAGE_ID_${environment.toUpperCase()}`;
-    const envSpecificId = process.env[envVarName];
-    
-    if (envSpecificId) {
-      return envSpecificId;
-    }
-    
-    // Fallback to generic environment variable
-    const fallbackId = process.env.WALIA_SEAL_PACKAGE_ID;
-    if (fallbackId) {
-      return fallbackId;
-    }
-    
-    // Final fallback to hardcoded default
-    return DEFAULT_PACKAGE_ID;
+    return getNetworkConfig(environment as EnvironmentType).waliaSealPackageId;
   }
 
-  private async initializeComponents(userName: string, walletsDir: string, environment: string): Promise<{
+  private async initializeComponents(userName: string, walletsDir: string, environment: string, passphrase?: string): Promise<{
     walletManagement: WalletManagement;
     sealManager: SealManager;
     clientConfig: ClientConfig;
   }> {
-    // Initialize wallet management
-    const walletManagement = new WalletManagement(userName, walletsDir, environment as EnvironmentType);
+    // Initialize wallet management, a per-user passphrase unlocks its keystore instead of WALIA_KEYSTORE_SECRET
+    const walletManagement = new WalletManagement(userName, walletsDir, environment as EnvironmentType, { passphrase });
     
     // Initialize seal manager
     const waliaSealPackageId = this.getWaliaSealPackageId(environment);
@@ -119,7 +120,8 @@ class WaliaStorageMCPServer {
     // Set up client configuration
     const clientConfig: ClientConfig = {
       suiConfPath: path.join(walletManagement.getWalletDirectory(), 'sui_client.yaml'),
-      walrusConfPath: path.join(walletManagement.getWalletDirectory(), 'walrus_client_config.yaml')
+      walrusConfPath: path.join(walletManagement.getWalletDirectory(), 'walrus_client_config.yaml'),
+      passphrase
     };
 
     // Verify configuration files exist
@@ -146,6 +148,10 @@ class WaliaStorageMCPServer {
                 type: 'string',
                 description: 'Username for wallet management'
               },
+              passphrase: {
+                type: 'string',
+                description: 'Passphrase of a wallet encrypted with its own passphrase, defaults to WALIA_KEYSTORE_SECRET'
+              },
               filePath: {
                 type: 'string',
                 description: 'Path to the file to store'
@@ -159,12 +165,25 @@ class WaliaStorageMCPServer {
                 description: 'Whether the blob should be deletable',
                 default: false
               },
+              keepSource: {
+                type: 'boolean',
+                description: 'Whether to keep the local file after storing it',
+                default: true
+              },
+              accessGroup: {
+                type: 'string',
+                description: 'Access group whose whitelist protects the file, created on first use. Without a group, a new whitelist is created for the file'
+              },
               attributes: {
                 type: 'object',
                 description: 'Additional attributes to store with the blob',
                 additionalProperties: {
                   type: 'string'
                 }
+              },
+              autoExchange: {
+                type: 'boolean',
+                description: 'Exchange the SUI needed for the estimated storage cost when the WAL balance is short. Defaults to WALIA_AUTO_EXCHANGE_WAL'
               }
             },
             required: ['userName', 'filePath']
@@ -180,6 +199,10 @@ class WaliaStorageMCPServer {
                 type: 'string',
                 description: 'Username for wallet management'
               },
+              passphrase: {
+                type: 'string',
+                description: 'Passphrase of a wallet encrypted with its own passphrase, defaults to WALIA_KEYSTORE_SECRET'
+              },
               blobId: {
                 type: 'string',
                 description: 'Blob ID to read'
@@ -190,7 +213,7 @@ class WaliaStorageMCPServer {
         },
         {
           name: 'walia_list_blobs',
-          description: 'List all blobs in Walrus storage',
+          description: 'List the blobs in Walrus storage matching optional filters, sorted and one page at a time',
           inputSchema: {
             type: 'object',
             properties: {
@@ -198,10 +221,59 @@ class WaliaStorageMCPServer {
                 type: 'string',
                 description: 'Username for wallet management'
               },
+              passphrase: {
+                type: 'string',
+                description: 'Passphrase of a wallet encrypted with its own passphrase, defaults to WALIA_KEYSTORE_SECRET'
+              },
               includeExpired: {
                 type: 'boolean',
                 description: 'Whether to include expired blobs',
                 default: false
+              },
+              attributes: {
+                type: 'object',
+                description: 'Only blobs with these attribute values',
+                additionalProperties: {
+                  type: 'string'
+                }
+              },
+              name: {
+                type: 'string',
+                description: 'Glob matched against the blob names, case-insensitive, such as "*.pdf"'
+              },
+              minSize: {
+                type: 'number',
+                description: 'Minimum size in bytes'
+              },
+              maxSize: {
+                type: 'number',
+                description: 'Maximum size in bytes'
+              },
+              expiringWithinEpochs: {
+                type: 'number',
+                description: 'Only blobs that expire within this many epochs'
+              },
+              deletable: {
+                type: 'boolean',
+                description: 'Only deletable or only permanent blobs'
+              },
+              sortBy: {
+                type: 'string',
+                enum: [...BLOB_SORT_KEYS],
+                description: 'Sort key, defaults to registeredEpoch'
+              },
+              order: {
+                type: 'string',
+                enum: ['asc', 'desc'],
+                default: 'asc'
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of blobs to return, all of them by default'
+              },
+              cursor: {
+                type: 'string',
+                description: 'nextCursor of the previous page'
               }
             },
             required: ['userName']
@@ -217,6 +289,10 @@ class WaliaStorageMCPServer {
                 type: 'string',
                 description: 'Username for wallet management'
               },
+              passphrase: {
+                type: 'string',
+                description: 'Passphrase of a wallet encrypted with its own passphrase, defaults to WALIA_KEYSTORE_SECRET'
+              },
               blobObjectId: {
                 type: 'string',
                 description: 'Blob object ID'
@@ -235,6 +311,10 @@ class WaliaStorageMCPServer {
                 type: 'string',
                 description: 'Username for wallet management'
               },
+              passphrase: {
+                type: 'string',
+                description: 'Passphrase of a wallet encrypted with its own passphrase, defaults to WALIA_KEYSTORE_SECRET'
+              },
               blobObjectId: {
                 type: 'string',
                 description: 'Blob object ID'
@@ -260,6 +340,10 @@ class WaliaStorageMCPServer {
                 type: 'string',
                 description: 'Username for wallet management'
               },
+              passphrase: {
+                type: 'string',
+                description: 'Passphrase of a wallet encrypted with its own passphrase, defaults to WALIA_KEYSTORE_SECRET'
+              },
               blobObjectIds: {
                 type: 'array',
                 items: {
@@ -291,6 +375,10 @@ class WaliaStorageMCPServer {
                 type: 'string',
                 description: 'Username for wallet management'
               },
+              passphrase: {
+                type: 'string',
+                description: 'Passphrase of a wallet encrypted with its own passphrase, defaults to WALIA_KEYSTORE_SECRET'
+              },
               storageId: {
                 type: 'string',
                 description: 'Storage object ID'
@@ -325,6 +413,10 @@ class WaliaStorageMCPServer {
                 type: 'string',
                 description: 'Username for wallet management'
               },
+              passphrase: {
+                type: 'string',
+                description: 'Passphrase of a wallet encrypted with its own passphrase, defaults to WALIA_KEYSTORE_SECRET'
+              },
               blobObjectId: {
                 type: 'string',
                 description: 'Blob object ID to send'
@@ -337,6 +429,104 @@ class WaliaStorageMCPServer {
             required: ['userName', 'blobObjectId', 'destinationAddress']
           },
         },
+        {
+          name: 'walia_share_blob',
+          description: 'Grant Sui addresses access to a blob by adding them to its whitelist, without transferring the blob',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              userName: {
+                type: 'string',
+                description: 'Username for wallet management'
+              },
+              passphrase: {
+                type: 'string',
+                description: 'Passphrase of a wallet encrypted with its own passphrase, defaults to WALIA_KEYSTORE_SECRET'
+              },
+              blobObjectId: {
+                type: 'string',
+                description: 'Blob object ID'
+              },
+              addresses: {
+                type: 'array',
+                description: 'Sui addresses to grant access to',
+                items: {
+                  type: 'string'
+                }
+              },
+              expiresInDays: {
+                type: 'number',
+                description: 'Make the access expire after this many days instead of keeping it until revoked'
+              }
+            },
+            required: ['userName', 'blobObjectId', 'addresses']
+          },
+        },
+        {
+          name: 'walia_revoke_access',
+          description: 'Revoke the access of Sui addresses to a blob by removing them from its whitelist',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              userName: {
+                type: 'string',
+                description: 'Username for wallet management'
+              },
+              passphrase: {
+                type: 'string',
+                description: 'Passphrase of a wallet encrypted with its own passphrase, defaults to WALIA_KEYSTORE_SECRET'
+              },
+              blobObjectId: {
+                type: 'string',
+                description: 'Blob object ID'
+              },
+              addresses: {
+                type: 'array',
+                description: 'Sui addresses to revoke access from',
+                items: {
+                  type: 'string'
+                }
+              },
+              rotateKey: {
+                type: 'boolean',
+                description: 'Whether to re-encrypt the blob under a new key afterwards, so the revoked addresses cannot use keys they already obtained',
+                default: false
+              }
+            },
+            required: ['userName', 'blobObjectId', 'addresses']
+          },
+        },
+        {
+          name: 'walia_rotate_blob_key',
+          description: 'Re-encrypt a blob under a new key and store it as a new blob with the same attributes. The old blob is burned if it is deletable',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              userName: {
+                type: 'string',
+                description: 'Username for wallet management'
+              },
+              passphrase: {
+                type: 'string',
+                description: 'Passphrase of a wallet encrypted with its own passphrase, defaults to WALIA_KEYSTORE_SECRET'
+              },
+              blobObjectId: {
+                type: 'string',
+                description: 'Blob object ID'
+              },
+              newWhitelist: {
+                type: 'boolean',
+                description: 'Whether to move the blob to a new whitelist with the same members and time-limited grants, instead of a new key ID of its whitelist',
+                default: false
+              },
+              epochs: {
+                type: 'number',
+                description: 'Number of epochs to store the new blob, defaults to the epochs left on the old one'
+              }
+            },
+            required: ['userName', 'blobObjectId']
+          },
+        },
         {
           name: 'walia_get_blob_object_id',
           description: 'Get blob object ID from blob ID',
@@ -347,6 +537,10 @@ class WaliaStorageMCPServer {
                 type: 'string',
                 description: 'Username for wallet management'
               },
+              passphrase: {
+                type: 'string',
+                description: 'Passphrase of a wallet encrypted with its own passphrase, defaults to WALIA_KEYSTORE_SECRET'
+              },
               blobId: {
                 type: 'string',
                 description: 'Blob ID'
@@ -364,6 +558,130 @@ class WaliaStorageMCPServer {
               userName: {
                 type: 'string',
                 description: 'Username for wallet management'
+              },
+              passphrase: {
+                type: 'string',
+                description: 'Passphrase of a wallet encrypted with its own passphrase, defaults to WALIA_KEYSTORE_SECRET'
+              }
+            },
+            required: ['userName']
+          },
+        },
+        {
+          name: 'walia_estimate_cost',
+          description: 'Quote the WAL cost of storing a file or a number of bytes for a number of days or epochs, before calling walia_store',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              userName: {
+                type: 'string',
+                description: 'Username for wallet management'
+              },
+              passphrase: {
+                type: 'string',
+                description: 'Passphrase of a wallet encrypted with its own passphrase, defaults to WALIA_KEYSTORE_SECRET'
+              },
+              filePath: {
+                type: 'string',
+                description: 'Path to the file to quote'
+              },
+              sizeBytes: {
+                type: 'number',
+                description: 'Size to quote in bytes, instead of a file'
+              },
+              days: {
+                type: 'number',
+                description: 'Storage duration in days, converted to epochs with the network epoch duration'
+              },
+              epochs: {
+                type: 'number',
+                description: 'Storage duration in epochs, used when days is not provided'
+              }
+            },
+            required: ['userName']
+          },
+        },
+        {
+          name: 'walia_extend_blob',
+          description: 'Extend the storage of a blob by a number of epochs before it expires, paid in WAL. The chunks of a large file are extended with it',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              userName: {
+                type: 'string',
+                description: 'Username for wallet management'
+              },
+              passphrase: {
+                type: 'string',
+                description: 'Passphrase of a wallet encrypted with its own passphrase, defaults to WALIA_KEYSTORE_SECRET'
+              },
+              blobObjectId: {
+                type: 'string',
+                description: 'Object ID of the blob to extend'
+              },
+              epochs: {
+                type: 'number',
+                description: 'Number of epochs to extend the blob by'
+              },
+              dryRun: {
+                type: 'boolean',
+                description: 'Only quote the cost of the extension, without extending',
+                default: false
+              }
+            },
+            required: ['userName', 'blobObjectId', 'epochs']
+          },
+        },
+        {
+          name: 'walia_renew_blobs',
+          description: 'Renew the blobs close to expiry that have a renewal policy (renew_policy=keep-forever or renew_until=<date> attributes), within a WAL budget, and report what was renewed, skipped or lacked funds',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              userName: {
+                type: 'string',
+                description: 'Username for wallet management'
+              },
+              passphrase: {
+                type: 'string',
+                description: 'Passphrase of a wallet encrypted with its own passphrase, defaults to WALIA_KEYSTORE_SECRET'
+              },
+              walBudget: {
+                type: 'string',
+                description: 'Most WAL to spend, such as "1". Defaults to WALIA_RENEW_WAL_BUDGET'
+              },
+              renewWithinEpochs: {
+                type: 'number',
+                description: 'Renew blobs that expire within this many epochs',
+                default: 2
+              },
+              extendEpochs: {
+                type: 'number',
+                description: 'Epochs added to keep-forever blobs',
+                default: 5
+              },
+              dryRun: {
+                type: 'boolean',
+                description: 'Report what would be renewed without extending',
+                default: false
+              }
+            },
+            required: ['userName']
+          },
+        },
+        {
+          name: 'walia_list_access_groups',
+          description: 'List the access groups of a wallet, with their whitelist and cap IDs',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              userName: {
+                type: 'string',
+                description: 'Username for wallet management'
+              },
+              passphrase: {
+                type: 'string',
+                description: 'Passphrase of a wallet encrypted with its own passphrase, defaults to WALIA_KEYSTORE_SECRET'
               }
             },
             required: ['userName']
@@ -378,6 +696,102 @@ class WaliaStorageMCPServer {
               userName: {
                 type: 'string',
                 description: 'Username for wallet management'
+              },
+              passphrase: {
+                type: 'string',
+                description: 'Passphrase of a wallet encrypted with its own passphrase, defaults to WALIA_KEYSTORE_SECRET'
+              }
+            },
+            required: ['userName']
+          },
+        },
+        {
+          name: 'walia_transfer',
+          description: 'Send SUI and/or WAL tokens to another managed user or a Sui address',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              userName: {
+                type: 'string',
+                description: 'Username of the sending wallet'
+              },
+              passphrase: {
+                type: 'string',
+                description: 'Passphrase of a wallet encrypted with its own passphrase, defaults to WALIA_KEYSTORE_SECRET'
+              },
+              recipient: {
+                type: 'string',
+                description: 'Username of another managed wallet, or a Sui address'
+              },
+              sui: {
+                type: 'string',
+                description: 'Amount of SUI to send, such as "0.5"'
+              },
+              wal: {
+                type: 'string',
+                description: 'Amount of WAL to send, such as "1"'
+              },
+              dryRun: {
+                type: 'boolean',
+                description: 'Simulate the transfer and return the balance changes without sending it',
+                default: false
+              }
+            },
+            required: ['userName', 'recipient']
+          },
+        },
+        {
+          name: 'walia_exchange_wal',
+          description: 'Exchange SUI for WAL through a Walrus WAL exchange (testnet). Give the WAL to receive or the SUI to spend',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              userName: {
+                type: 'string',
+                description: 'Username for wallet management'
+              },
+              passphrase: {
+                type: 'string',
+                description: 'Passphrase of a wallet encrypted with its own passphrase, defaults to WALIA_KEYSTORE_SECRET'
+              },
+              wal: {
+                type: 'string',
+                description: 'Amount of WAL to receive, such as "1". Exactly the SUI needed is spent'
+              },
+              sui: {
+                type: 'string',
+                description: 'Amount of SUI to spend, such as "0.5"'
+              },
+              dryRun: {
+                type: 'boolean',
+                description: 'Simulate the exchange and return the balance changes without executing it',
+                default: false
+              }
+            },
+            required: ['userName']
+          },
+        },
+        {
+          name: 'walia_import_wallet',
+          description: 'Import an existing wallet for a user from a mnemonic or a suiprivkey private key',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              userName: {
+                type: 'string',
+                description: 'Username for wallet management, must not have a wallet yet'
+              },
+              passphrase: {
+                type: 'string',
+                description: 'Passphrase that encrypts the imported wallet at rest, defaults to WALIA_KEYSTORE_SECRET'
+              },
+              mnemonic: {
+                type: 'string',
+                description: 'Recovery phrase of the wallet (provide this or privateKey)'
+              },
+              privateKey: {
+                type: 'string',
+                description: 'Private key of the wallet in suiprivkey format (provide this or mnemonic)'
               }
             },
             required: ['userName']
@@ -389,7 +803,7 @@ class WaliaStorageMCPServer {
     this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
-      console.log('MCP Server: Received request:', { name, args });
+      console.log('MCP Server: Received request:', { name, args: redactSecrets(args) });
 
       try {
         let result;
@@ -418,6 +832,15 @@ class WaliaStorageMCPServer {
           case 'walia_send_blob':
             result = await this.handleSendBlob(args);
             break;
+          case 'walia_share_blob':
+            result = await this.handleShareBlob(args);
+            break;
+          case 'walia_revoke_access':
+            result = await this.handleRevokeAccess(args);
+            break;
+          case 'walia_rotate_blob_key':
+            result = await this.handleRotateBlobKey(args);
+            break;
           case 'walia_get_blob_object_id':
             result = await this.handleGetBlobObjectId(args);
             break;
@@ -427,6 +850,27 @@ class WaliaStorageMCPServer {
           case 'walia_get_wallet_address':
             result = await this.handleGetWalletAddress(args);
             break;
+          case 'walia_list_access_groups':
+            result = await this.handleListAccessGroups(args);
+            break;
+          case 'walia_transfer':
+            result = await this.handleTransfer(args);
+            break;
+          case 'walia_estimate_cost':
+            result = await this.handleEstimateCost(args);
+            break;
+          case 'walia_extend_blob':
+            result = await this.handleExtendBlob(args);
+            break;
+          case 'walia_renew_blobs':
+            result = await this.handleRenewBlobs(args);
+            break;
+          case 'walia_exchange_wal':
+            result = await this.handleExchangeWal(args);
+            break;
+          case 'walia_import_wallet':
+            result = await this.handleImportWallet(args);
+            break;
           default:
             throw new McpError(
               ErrorCode.MethodNotFound,
@@ -459,10 +903,19 @@ class WaliaStorageMCPServer {
 
 
   private async handleStore(args: any) {
-    console.log('MCP Server: handleStore called with args:', args);
+    console.log('MCP Server: handleStore called with args:', redactSecrets(args));
     
     const { walletsDir, environment } = this.getEnvironmentConfig();
-    const { userName, filePath, epochs, deletable = false, attributes = {} } = args;
+    const {
+      userName,
+      filePath,
+      epochs,
+      deletable = false,
+      keepSource = true,
+      accessGroup,
+      attributes = {},
+      autoExchange = process.env.WALIA_AUTO_EXCHANGE_WAL === 'true'
+    } = args;
 
     console.log('MCP Server: handleStore - parsed params:', {
       userName,
@@ -471,7 +924,10 @@ class WaliaStorageMCPServer {
       filePath,
       epochs,
       deletable,
-      attributes
+      keepSource,
+      accessGroup,
+      attributes,
+      autoExchange
     });
 
     // Validate required parameters
@@ -504,39 +960,40 @@ class WaliaStorageMCPServer {
     console.log('MCP Server: handleStore - File exists, initializing components');
 
     try {
-      const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment);
+      const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment, args.passphrase);
 
       console.log('MCP Server: handleStore - Components initialized, checking balance');
 
-      // Check wallet balance before proceeding with storage
-      const balance = await walletManagement.getBalance();
-      console.log('MCP Server: handleStore - Current balance:', balance);
-      
-      const suiBalance = parseFloat(balance.sui);
-      const walBalance = parseFloat(balance.wal);
-
-      const MIN_SUI_REQUIRED = 0.3;
-      const MIN_WAL_REQUIRED = 0.3;
-
-      if (suiBalance < MIN_SUI_REQUIRED || walBalance < MIN_WAL_REQUIRED) {
-        const insufficientBalances = [];
-        if (suiBalance < MIN_SUI_REQUIRED) {
-          insufficientBalances.push(`SUI: ${balance.sui} (required: ${MIN_SUI_REQUIRED})`);
-        }
-        if (walBalance < MIN_WAL_REQUIRED) {
-          insufficientBalances.push(`WAL: ${balance.wal} (required: ${MIN_WAL_REQUIRED})`);
-        }
+      // Estimate the gas and storage cost of this file and check them against the wallet balances
+      const preflightOptions = {
+        fileSize: fs.statSync(filePath).size,
+        epochs,
+        createsWhitelist: !accessGroup || !sealManager.listAccessGroups().some(group => group.name === accessGroup)
+      };
+      let preflight = await preflightStore(sealManager, clientConfig, preflightOptions);
+      console.log('MCP Server: handleStore - Balance preflight:', preflight);
+
+      // In auto-exchange mode, the missing WAL is exchanged from SUI
+      let walExchange: ExchangeWalResult | null = null;
+      if (autoExchange && preflight.shortfalls.some(shortfall => shortfall.coin === 'WAL')) {
+        walExchange = await walletManagement.topUpWal(parseCoinAmount(preflight.needed.wal));
+        console.log('MCP Server: handleStore - Exchanged SUI for WAL:', walExchange);
+        preflight = await preflightStore(sealManager, clientConfig, preflightOptions);
+      }
 
-        const errorMessage = 
-          `Insufficient balance to store file. Please top up your account.\n` +
-          `Current balances: ${insufficientBalances.join(', ')}\n` +
-          `Please ensure you have at least ${MIN_SUI_REQUIRED} SUI and ${MIN_WAL_REQUIRED} WAL tokens before storing files.`;
-        
+      // Returned as a tool error so clients get the structured shortfall
+      if (!preflight.canStore) {
+        const errorMessage = `${new InsufficientBalanceError(preflight).message}. Please top up your account.`;
         console.error('MCP Server: handleStore - Insufficient balance:', errorMessage);
-        throw new McpError(
-          ErrorCode.InvalidParams,
-          errorMessage
-        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ error: errorMessage, preflight }, null, 2),
+            },
+          ],
+          isError: true,
+        };
       }
 
       console.log('MCP Server: handleStore - Balance check passed, preparing blob params');
@@ -545,7 +1002,9 @@ class WaliaStorageMCPServer {
         clientConf: clientConfig,
         epochs,
         deletable,
-        attributes
+        attributes,
+        keepSource,
+        accessGroup
       };
 
       console.log('MCP Server: handleStore - Calling store function');
@@ -558,7 +1017,7 @@ class WaliaStorageMCPServer {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(result, null, 2),
+            text: JSON.stringify(walExchange ? { ...result, walExchange } : result, null, 2),
           },
         ],
       };
@@ -591,7 +1050,7 @@ class WaliaStorageMCPServer {
     const { walletsDir, environment } = this.getEnvironmentConfig();
     const { userName, blobId } = args;
 
-    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment);
+    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment, args.passphrase);
 
     const blobParams: BlobParams = {
       clientConf: clientConfig
@@ -611,25 +1070,22 @@ class WaliaStorageMCPServer {
 
   private async handleListBlobs(args: any) {
     const { walletsDir, environment } = this.getEnvironmentConfig();
-    const { userName, includeExpired = false } = args;
+    const { userName, includeExpired = false, ...query } = args;
 
     console.error('userName:', userName);
     console.log('walletsDir:', walletsDir);
     console.log('environment:', environment);
     console.log('includeExpired:', includeExpired);
 
-    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment);
+    const { clientConfig } = await this.initializeComponents(userName, walletsDir, environment, args.passphrase);
 
-    console.log('walletManagement:', walletManagement);
-    console.log('clientConfig:', clientConfig);
-
-    const blobs: BlobObject[] = await list_blobs(clientConfig, includeExpired);
+    const page: BlobPage = await queryBlobs(clientConfig, { ...query, includeExpired });
 
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(blobs, null, 2),
+          text: JSON.stringify(page, null, 2),
         },
       ],
     };
@@ -639,7 +1095,7 @@ class WaliaStorageMCPServer {
     const { walletsDir, environment } = this.getEnvironmentConfig();
     const { userName, blobObjectId } = args;
 
-    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment);
+    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment, args.passphrase);
 
     const attributes: BlobAttributes = await get_blob_attributes(clientConfig, blobObjectId);
 
@@ -657,7 +1113,7 @@ class WaliaStorageMCPServer {
     const { walletsDir, environment } = this.getEnvironmentConfig();
     const { userName, blobObjectId, attributes } = args;
 
-    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment);
+    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment, args.passphrase);
 
     await add_blob_attributes(clientConfig, blobObjectId, attributes);
 
@@ -675,7 +1131,7 @@ class WaliaStorageMCPServer {
     const { walletsDir, environment } = this.getEnvironmentConfig();
     const { userName, blobObjectIds, all_expired = false, all = false } = args;
 
-    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment);
+    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment, args.passphrase);
 
     const burnParams: BurnParams = {
       blobObjectIds,
@@ -699,7 +1155,7 @@ class WaliaStorageMCPServer {
     const { walletsDir, environment } = this.getEnvironmentConfig();
     const { userName, storageId, storageStartEpoch, storageEndEpoch, storageSize, amountWAL } = args;
 
-    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment);
+    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment, args.passphrase);
 
     const storage: StorageObject = {
       id: storageId,
@@ -724,7 +1180,7 @@ class WaliaStorageMCPServer {
     const { walletsDir, environment } = this.getEnvironmentConfig();
     const { userName, blobObjectId, destinationAddress } = args;
 
-    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment);
+    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment, args.passphrase);
 
     await sendBlob(blobObjectId, destinationAddress, sealManager);
 
@@ -738,11 +1194,68 @@ class WaliaStorageMCPServer {
     };
   }
 
+  private async handleShareBlob(args: any) {
+    const { walletsDir, environment } = this.getEnvironmentConfig();
+    const { userName, blobObjectId, addresses = [], expiresInDays } = args;
+
+    const { sealManager } = await this.initializeComponents(userName, walletsDir, environment, args.passphrase);
+
+    const result = expiresInDays !== undefined
+      ? await shareBlobTemporarily(blobObjectId, addresses, expiryFromDays(expiresInDays), sealManager)
+      : await shareBlob(blobObjectId, addresses, sealManager);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleRevokeAccess(args: any) {
+    const { walletsDir, environment } = this.getEnvironmentConfig();
+    const { userName, blobObjectId, addresses = [], rotateKey = false } = args;
+
+    const { sealManager } = await this.initializeComponents(userName, walletsDir, environment, args.passphrase);
+
+    const result = await revokeBlob(blobObjectId, addresses, sealManager);
+    const rotation = rotateKey ? await rotateBlobKey(blobObjectId, sealManager) : undefined;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(rotation ? { ...result, rotation } : result, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleRotateBlobKey(args: any) {
+    const { walletsDir, environment } = this.getEnvironmentConfig();
+    const { userName, blobObjectId, newWhitelist = false, epochs } = args;
+
+    const { sealManager } = await this.initializeComponents(userName, walletsDir, environment, args.passphrase);
+
+    const result = await rotateBlobKey(blobObjectId, sealManager, { newWhitelist, epochs });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
   private async handleGetBlobObjectId(args: any) {
     const { walletsDir, environment } = this.getEnvironmentConfig();
     const { userName, blobId } = args;
 
-    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment);
+    const { walletManagement, sealManager, clientConfig } = await this.initializeComponents(userName, walletsDir, environment, args.passphrase);
 
     const objectId = await getBlobObjectIdByBlobId(blobId, clientConfig);
 
@@ -760,7 +1273,7 @@ class WaliaStorageMCPServer {
     const { walletsDir, environment } = this.getEnvironmentConfig();
     const { userName } = args;
 
-    const { walletManagement } = await this.initializeComponents(userName, walletsDir, environment);
+    const { walletManagement } = await this.initializeComponents(userName, walletsDir, environment, args.passphrase);
 
     const balance = await walletManagement.getBalance();
 
@@ -774,11 +1287,51 @@ class WaliaStorageMCPServer {
     };
   }
 
+  private async handleEstimateCost(args: any) {
+    const { walletsDir, environment } = this.getEnvironmentConfig();
+    const { userName, filePath, sizeBytes, days, epochs } = args;
+
+    if (!userName) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'userName is required'
+      );
+    }
+
+    if ((filePath === undefined) === (sizeBytes === undefined)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Either filePath or sizeBytes is required'
+      );
+    }
+
+    if (days === undefined && epochs === undefined) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Either days or epochs is required'
+      );
+    }
+
+    const { clientConfig } = await this.initializeComponents(userName, walletsDir, environment, args.passphrase);
+
+    const estimator = new WalrusCostEstimator(clientConfig);
+    const result = await estimator.quote({ filePath, sizeBytes, days, epochs });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
   private async handleGetWalletAddress(args: any) {
     const { walletsDir, environment } = this.getEnvironmentConfig();
     const { userName } = args;
 
-    const { walletManagement } = await this.initializeComponents(userName, walletsDir, environment);
+    const { walletManagement } = await this.initializeComponents(userName, walletsDir, environment, args.passphrase);
 
     const address = await walletManagement.getWalletAddress();
 
@@ -792,7 +1345,190 @@ class WaliaStorageMCPServer {
     };
   }
 
+  private async handleExtendBlob(args: any) {
+    const { walletsDir, environment } = this.getEnvironmentConfig();
+    const { userName, blobObjectId, epochs, dryRun = false } = args;
+
+    if (!userName || !blobObjectId) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'userName and blobObjectId are required'
+      );
+    }
+
+    if (!Number.isInteger(epochs) || epochs <= 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'epochs must be a positive integer'
+      );
+    }
+
+    const { clientConfig } = await this.initializeComponents(userName, walletsDir, environment, args.passphrase);
+
+    const result = await extendBlob(clientConfig, blobObjectId, epochs, { dryRun });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleRenewBlobs(args: any) {
+    const { walletsDir, environment } = this.getEnvironmentConfig();
+    const { userName, walBudget = process.env.WALIA_RENEW_WAL_BUDGET, renewWithinEpochs, extendEpochs, dryRun = false } = args;
+
+    if (!userName) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'userName is required'
+      );
+    }
+
+    if (!walBudget) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'walBudget is required when WALIA_RENEW_WAL_BUDGET is not set'
+      );
+    }
+
+    const { walletManagement } = await this.initializeComponents(userName, walletsDir, environment, args.passphrase);
+
+    const report = await runAutoRenewal([walletManagement], { walBudget, renewWithinEpochs, extendEpochs, dryRun });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(report, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleExchangeWal(args: any) {
+    const { walletsDir, environment } = this.getEnvironmentConfig();
+    const { userName, sui, wal, dryRun = false } = args;
+
+    if (!userName) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'userName is required'
+      );
+    }
+
+    if (!sui === !wal) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Either the wal amount to receive or the sui amount to spend is required'
+      );
+    }
+
+    const { walletManagement } = await this.initializeComponents(userName, walletsDir, environment, args.passphrase);
+
+    const result = await walletManagement.exchangeWal({ sui, wal }, { dryRun });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleTransfer(args: any) {
+    const { walletsDir, environment } = this.getEnvironmentConfig();
+    const { userName, recipient, sui, wal, dryRun = false } = args;
+
+    if (!userName || !recipient) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'userName and recipient are required'
+      );
+    }
+
+    if (!sui && !wal) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'sui or wal amount is required'
+      );
+    }
+
+    const { walletManagement } = await this.initializeComponents(userName, walletsDir, environment, args.passphrase);
+
+    const result = await walletManagement.transfer(recipient, { sui, wal }, { dryRun });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleImportWallet(args: any) {
+    const { walletsDir, environment } = this.getEnvironmentConfig();
+    const { userName, mnemonic, privateKey, passphrase } = args;
+
+    if (!userName) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'userName is required'
+      );
+    }
+
+    if (!mnemonic === !privateKey) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Exactly one of mnemonic or privateKey is required'
+      );
+    }
+
+    const wallet = await importWallet(userName, { mnemonic, privateKey }, walletsDir, environment as EnvironmentType, passphrase);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ userName, address: wallet.address }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleListAccessGroups(args: any) {
+    const { walletsDir, environment } = this.getEnvironmentConfig();
+    const { userName } = args;
+
+    const { sealManager } = await this.initializeComponents(userName, walletsDir, environment, args.passphrase);
+
+    const groups = sealManager.listAccessGroups();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(groups, null, 2),
+        },
+      ],
+    };
+  }
+
   async run(): Promise<void> {
+    // Keystores unlocked for the walrus CLI by a server that died are still on disk
+    try {
+      removeStaleUnlockedConfigs(this.getEnvironmentConfig().walletsDir);
+    } catch (error) {
+      console.error('Failed to remove stale unlocked keystores:', error);
+    }
+
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     console.error('Walia Storage MCP Server running on stdio');
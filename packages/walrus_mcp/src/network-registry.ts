@@ -0,0 +1,190 @@
+import * as fs from "fs";
+import * as yaml from "js-yaml";
+import { EnvironmentType } from "./wallet-management";
+
+/**
+ * Per-network addresses used by Walia: RPC, WAL coin, walia_seal package, Walrus
+ * system objects and Seal key servers. The defaults below can be overridden per
+ * network from a JSON or YAML file whose path is set in WALIA_NETWORKS_CONFIG.
+ */
+export const NETWORKS_CONFIG_ENV = 'WALIA_NETWORKS_CONFIG';
+
+/**
+ * Shared objects of the Walrus system, as in the contexts of walrus_client_config.yaml
+ */
+export interface WalrusSystemObjects {
+  systemObject: string;
+  stakingObject: string;
+  subsidiesObject: string;
+  exchangeObjects: string[];
+}
+
+export interface NetworkConfig {
+  rpcUrl: string;
+  /** Unset for networks without a known WAL deployment */
+  walCoinType?: string;
+  /** Unset for networks where walia_seal is not published */
+  waliaSealPackageId?: string;
+  walrus: WalrusSystemObjects;
+  /** Object IDs of the Seal key servers, each with weight 1 */
+  keyServers: string[];
+}
+
+export type NetworkRegistry = Record<EnvironmentType, NetworkConfig>;
+
+/**
+ * Overrides of a config file, any field of any network can be left out
+ */
+export type NetworkRegistryOverrides = {
+  [Env in EnvironmentType]?: Partial<Omit<NetworkConfig, 'walrus'>> & { walrus?: Partial<WalrusSystemObjects> };
+};
+
+// Published on testnet only, other networks need their own package ID
+const TESTNET_WALIA_SEAL_PACKAGE_ID = '0xf5083045ffb970f16dde2bbad407909b9e761f6c93342500530d9efdf7b09507';
+
+const TESTNET_WAL_COIN_TYPE = '0x8270feb7375eee355e64fdb69c50abb6b5f9393a722883c1cf45f8e26048810a::wal::WAL';
+
+// Open mode key servers run by Mysten Labs on testnet
+const TESTNET_KEY_SERVERS = [
+  '0x73d05d62c18d9374e3ea529e8e0ed6161da1a141a94d3f76ae3fe4e99356db75',
+  '0xf5d14a81a982144ae441cd7d64b09027f116a468bd36e7eca494f750591623c8',
+];
+
+const TESTNET_WALRUS: WalrusSystemObjects = {
+  systemObject: '0x6c2547cbbc38025cf3adac45f63cb0a8d12ecf777cdc75a4971612bf97fdf6af',
+  stakingObject: '0xbe46180321c30aab2f8b3501e24048377287fa708018a5b7c2792b35fe339ee3',
+  subsidiesObject: '0xda799d85db0429765c8291c594d334349ef5bc09220e79ad397b30106161a0af',
+  exchangeObjects: [
+    '0xf4d164ea2def5fe07dc573992a029e010dba09b1a8dcbc44c5c2e79567f39073',
+    '0x19825121c52080bb1073662231cfea5c0e4d905fd13e95f21e9a018f2ef41862',
+    '0x83b454e524c71f30803f4d6c302a86fb6a39e96cdfb873c2d1e93bc1c26a3bc5',
+    '0x8d63209cf8589ce7aef8f262437163c67577ed09f3e636a9d8e0813843fb8bf1',
+  ],
+};
+
+export const DEFAULT_NETWORKS: NetworkRegistry = {
+  testnet: {
+    rpcUrl: 'https://fullnode.testnet.sui.io:443',
+    walCoinType: TESTNET_WAL_COIN_TYPE,
+    waliaSealPackageId: TESTNET_WALIA_SEAL_PACKAGE_ID,
+    walrus: TESTNET_WALRUS,
+    keyServers: TESTNET_KEY_SERVERS,
+  },
+  mainnet: {
+    rpcUrl: 'https://fullnode.mainnet.sui.io:443',
+    walCoinType: '0x356a26eb9e012a68958082340d4c4116e7f55615cf27affcff209cf0ae544f59::wal::WAL',
+    walrus: {
+      systemObject: '0x2134d52768ea07e8c43570ef975eb3e4c27a39fa6396bef985b5abc58d03ddd2',
+      stakingObject: '0x10b9d30c28448939ce6c4d6c6e0ffce4a7f8a4ada8248bdad09ef8b70e4a3904',
+      subsidiesObject: '0xb606eb177899edc2130c93bf65985af7ec959a2755dc126c953755e59324209e',
+      exchangeObjects: [],
+    },
+    // Mainnet key servers are permissioned, configure the ones Walia is registered with
+    keyServers: [],
+  },
+  devnet: {
+    rpcUrl: 'https://fullnode.devnet.sui.io:443',
+    walrus: { systemObject: '0x5', stakingObject: '0x6', subsidiesObject: '0x7', exchangeObjects: [] },
+    keyServers: TESTNET_KEY_SERVERS,
+  },
+  localnet: {
+    rpcUrl: 'http://127.0.0.1:9000',
+    walrus: { systemObject: '0x8', stakingObject: '0x9', subsidiesObject: '0xa', exchangeObjects: [] },
+    keyServers: TESTNET_KEY_SERVERS,
+  },
+};
+
+/**
+ * Loads the network registry, the defaults merged with the overrides of the config file
+ * @param configPath Config file, defaults to WALIA_NETWORKS_CONFIG
+ */
+export function loadNetworkRegistry(configPath = process.env[NETWORKS_CONFIG_ENV]): NetworkRegistry {
+  // WALIA_SEAL_PACKAGE_ID replaces the default package ID of every network
+  const registry = { ...DEFAULT_NETWORKS };
+  if (process.env.WALIA_SEAL_PACKAGE_ID) {
+    for (const env of Object.keys(registry) as EnvironmentType[]) {
+      registry[env] = { ...registry[env], waliaSealPackageId: process.env.WALIA_SEAL_PACKAGE_ID };
+    }
+  }
+
+  if (!configPath) {
+    return registry;
+  }
+  if (!fs.existsSync(configPath)) {
+    throw new Error(`Network config file not found: ${configPath}`);
+  }
+
+  let overrides: NetworkRegistryOverrides;
+  try {
+    overrides = (yaml.load(fs.readFileSync(configPath, 'utf8')) || {}) as NetworkRegistryOverrides;
+  } catch (error: any) {
+    throw new Error(`Invalid network config file ${configPath}: ${error.message}`);
+  }
+
+  for (const [env, override] of Object.entries(overrides)) {
+    const defaults = registry[env as EnvironmentType];
+    if (!defaults) {
+      throw new Error(`Unknown network ${env} in ${configPath}`);
+    }
+    registry[env as EnvironmentType] = {
+      ...defaults,
+      ...override,
+      walrus: { ...defaults.walrus, ...override?.walrus },
+    };
+  }
+  return registry;
+}
+
+/**
+ * Gets the addresses of a network, which may lack a walia_seal package or WAL coin type.
+ * WALIA_SEAL_PACKAGE_ID_<NETWORK>, WALIA_RPC_URL_<NETWORK> and WALIA_SEAL_KEY_SERVERS_<NETWORK>
+ * (comma separated object IDs) take precedence over the config file.
+ */
+export function resolveNetworkConfig(env: EnvironmentType, configPath?: string): NetworkConfig {
+  const config = loadNetworkRegistry(configPath)[env];
+  if (!config) {
+    throw new Error(`Unknown network ${env}`);
+  }
+
+  const waliaSealPackageId = process.env[`WALIA_SEAL_PACKAGE_ID_${env.toUpperCase()}`] || config.waliaSealPackageId;
+  const keyServers = process.env[`WALIA_SEAL_KEY_SERVERS_${env.toUpperCase()}`]
+    ?.split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+  return {
+    ...config,
+    rpcUrl: getRpcUrlOverride(env) || config.rpcUrl,
+    waliaSealPackageId,
+    keyServers: keyServers?.length ? keyServers : config.keyServers,
+  };
+}
+
+/**
+ * Gets the addresses of a network that Walia encrypts files on, which needs a walia_seal package
+ */
+export function getNetworkConfig(env: EnvironmentType, configPath?: string): NetworkConfig & { waliaSealPackageId: string } {
+  const config = resolveNetworkConfig(env, configPath);
+  if (!config.waliaSealPackageId) {
+    throw new Error(`No walia_seal package configured for ${env}, set WALIA_SEAL_PACKAGE_ID_${env.toUpperCase()} or waliaSealPackageId in ${NETWORKS_CONFIG_ENV}`);
+  }
+  return { ...config, waliaSealPackageId: config.waliaSealPackageId };
+}
+
+/**
+ * Gets the coin type of WAL on a network
+ */
+export function getWalCoinType(env: EnvironmentType, configPath?: string): string {
+  const { walCoinType } = resolveNetworkConfig(env, configPath);
+  if (!walCoinType) {
+    throw new Error(`No WAL coin type configured for ${env}, set walCoinType in ${NETWORKS_CONFIG_ENV}`);
+  }
+  return walCoinType;
+}
+
+/**
+ * Gets the RPC URL forced for a network with WALIA_RPC_URL_<NETWORK>, if any. It takes
+ * precedence over the RPC URL of the user's sui_client.yaml.
+ */
+export function getRpcUrlOverride(env: EnvironmentType): string | undefined {
+  return process.env[`WALIA_RPC_URL_${env.toUpperCase()}`] || undefined;
+}
@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+
+import { config } from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Load environment variables from .env file
+config();
+
+import { AutoRenewalOptions, RenewalReport, runAutoRenewal, startAutoRenewal } from './auto-renewal.js';
+import { EnvironmentType, WalletManagement, listManagedUsers, removeStaleUnlockedConfigs } from './wallet-management.js';
+
+/**
+ * Renews the blobs of every user of the wallets directory that have a renewal policy,
+ * once with --once or every WALIA_RENEW_INTERVAL_MINUTES. The report of each run is
+ * printed and written to renewal_report.json in the wallets directory.
+ */
+const REPORT_FILE = 'renewal_report.json';
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+const args = process.argv.slice(2);
+const once = args.includes('--once');
+const dryRun = args.includes('--dry-run');
+
+function getOptions(): AutoRenewalOptions {
+  const walBudget = process.env.WALIA_RENEW_WAL_BUDGET;
+  if (!walBudget) {
+    throw new Error('WALIA_RENEW_WAL_BUDGET environment variable is required');
+  }
+
+  // Such as "alice:2,bob:0.5"
+  const userBudgets: Record<string, string> = {};
+  for (const entry of (process.env.WALIA_RENEW_USER_BUDGETS || '').split(',').filter(Boolean)) {
+    const [userName, budget] = entry.split(':').map(part => part.trim());
+    if (!userName || !budget) {
+      throw new Error(`Invalid WALIA_RENEW_USER_BUDGETS entry: ${entry}`);
+    }
+    userBudgets[userName] = budget;
+  }
+
+  return {
+    walBudget,
+    userBudgets,
+    renewWithinEpochs: process.env.WALIA_RENEW_WITHIN_EPOCHS ? Number(process.env.WALIA_RENEW_WITHIN_EPOCHS) : undefined,
+    extendEpochs: process.env.WALIA_RENEW_EXTEND_EPOCHS ? Number(process.env.WALIA_RENEW_EXTEND_EPOCHS) : undefined,
+    dryRun,
+  };
+}
+
+async function main(): Promise<void> {
+  const walletsDir = process.env.WALLET_DIR || process.env.WALIA_WALLETS_DIR;
+  const environment = process.env.WALLET_ENV as EnvironmentType;
+  if (!walletsDir || !environment) {
+    throw new Error('WALLET_DIR (or WALIA_WALLETS_DIR) and WALLET_ENV environment variables are required');
+  }
+  const options = getOptions();
+  // Keystores unlocked for the walrus CLI by a daemon that died are still on disk
+  removeStaleUnlockedConfigs(walletsDir);
+
+  const getWallets = () => listManagedUsers(walletsDir).map(userName => new WalletManagement(userName, walletsDir, environment));
+  const onReport = (report: RenewalReport) => {
+    fs.writeFileSync(path.join(walletsDir, REPORT_FILE), JSON.stringify(report, null, 2));
+    console.log(JSON.stringify(report, null, 2));
+  };
+
+  if (once) {
+    onReport(await runAutoRenewal(getWallets(), options));
+    return;
+  }
+
+  const intervalMinutes = Number(process.env.WALIA_RENEW_INTERVAL_MINUTES || DEFAULT_INTERVAL_MINUTES);
+  console.log(`Renewing blobs in ${walletsDir} (${environment}) every ${intervalMinutes} minutes`);
+  const stop = startAutoRenewal(getWallets, options, intervalMinutes * 60 * 1000, onReport);
+  process.on('SIGINT', () => {
+    stop();
+    process.exit(0);
+  });
+}
+
+main().catch((error) => {
+  console.error('Renewal daemon error:', error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
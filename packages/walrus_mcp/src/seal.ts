@@ -1,17 +1,24 @@
 import * as fs from "fs";
+import * as path from "path";
+import { randomBytes } from "crypto";
+import { bcs } from "@mysten/sui/bcs";
 import { Transaction } from "@mysten/sui/transactions";
-import { fromHex } from "@mysten/sui/utils";
+import { fromHex, normalizeSuiAddress, toHex } from "@mysten/sui/utils";
 import { WalletManagement } from "./wallet-management";
+import { getNetworkConfig } from "./network-registry";
+import { AccessGroup, AccessGroupRegistry } from "./access-groups";
+import { decryptEnvelopeToFile, encryptFileToEnvelope, generateDataKey, readEnvelopeHeader } from "./envelope";
 
 import {
     SealClient,
-    getAllowlistedKeyServers,
     SessionKey
 } from '@mysten/seal';
 
 
 const WHITELIST_MODULE_NAME = 'whitelist';
 const WHITELIST_FUNCTION_NAME = 'create_whitelist_entry';
+// Random suffix appended to the whitelist ID to make the key ID of each file
+const KEY_ID_NONCE_LENGTH = 16;
 
 // Interface for WaliaObjCap fields
 interface WaliaObjCapObj {
@@ -31,6 +38,14 @@ export interface WhitelistCreationResult {
   capId: string;
 }
 
+/**
+ * Time-limited member of a whitelist
+ */
+export interface TemporaryGrant {
+  address: string;
+  expiresAt: Date;
+}
+
 /**
  * Access policy for encryption/decryption
  */
@@ -52,10 +67,17 @@ interface KeyServerResponse {
   error?: string;
 }
 
+/**
+ * Seal client operations used by SealManager
+ */
+export type SealCipher = Pick<SealClient, 'encrypt' | 'decrypt'>;
+
 interface EncodedFileResult {
   encodedFilePath: string;
   capId: string;
   whitelistId: string;
+  /** Seal identity of the file, the whitelist ID followed by a nonce */
+  keyId: string;
 }
 
 /**
@@ -64,30 +86,36 @@ interface EncodedFileResult {
  */
 export class SealManager {
   private wallet: WalletManagement;
-  private sealClient: SealClient;
+  private sealClient: SealCipher;
   private waliaSealPackageId: string;
+  private timedGrantsSupported?: boolean;
 
-  constructor(wallet: WalletManagement, waliaSealPackageId: string) {
+  /**
+   * @param sealClient Optional Seal client, defaults to one using the key servers of the network registry
+   */
+  constructor(wallet: WalletManagement, waliaSealPackageId: string, sealClient?: SealCipher) {
     this.wallet = wallet;
-    
-    // Get the network and key servers with fallback
-    const network = this.mapEnvironmentToNetwork(wallet.getActiveEnvironment());
-    const keyServers = getAllowlistedKeyServers(network);
+    this.sealClient = sealClient || this.createSealClient();
+    this.waliaSealPackageId = waliaSealPackageId;
+  }
+
+  /**
+   * Creates a Seal client for the key servers of the wallet network
+   */
+  private createSealClient(): SealClient {
+    const network = this.wallet.getActiveEnvironment();
+    const keyServers = getNetworkConfig(network).keyServers;
     
     // Debug logging
     console.log(`SealManager: network=${network}, keyServers=`, keyServers);
     
-    // Handle the case where keyServers might be undefined or empty
-    const serverConfigs = keyServers && keyServers.length > 0 
-      ? keyServers.map((id) => ({ objectId: id, weight: 1 }))
-      : []; // Use empty array as fallback
+    const serverConfigs = keyServers.map((id) => ({ objectId: id, weight: 1 }));
     
-    this.sealClient = new SealClient({
+    return new SealClient({
       suiClient: this.wallet.getSuiClient(),
       serverConfigs,
       verifyKeyServers: false,
     });
-    this.waliaSealPackageId = waliaSealPackageId;
   }
 
   /**
@@ -98,45 +126,40 @@ export class SealManager {
   }
 
   /**
-   * Maps EnvironmentType to supported Seal network types
+   * Encrypts a file with envelope encryption: the content is streamed through AES-GCM
+   * under a random data key and only the data key is encrypted with Seal, under a fresh
+   * key ID of the whitelist. The source file is left untouched.
+   * @param outputDir Directory for the encrypted copy, defaults to the directory of the source
+   * @param whitelist Existing whitelist to encrypt under, such as the one of an access group.
+   *   Without it, a new whitelist is created for the file.
    */
-  private mapEnvironmentToNetwork(env: string): "testnet" | "mainnet" {
-    switch (env) {
-      case 'mainnet':
-        return 'mainnet';
-      case 'testnet':
-      case 'devnet':
-      case 'localnet':
-      default:
-        return 'testnet';
-    }
-  }
-
-  async encodeFile(filePath: string): Promise<EncodedFileResult> {
+  async encodeFile(
+    filePath: string,
+    outputDir: string = path.dirname(filePath),
+    whitelist?: WhitelistCreationResult
+  ): Promise<EncodedFileResult> {
     try {
-      // Read the file
-      const fileData = fs.readFileSync(filePath);
-      
-      // Create whitelist and cap
-      const { whitelistId, capId } = await this.createWhitelistWithCap();
-      
-      // Add wallet address to the whitelist
-      const walletAddress = this.wallet.getKeypair().getPublicKey().toSuiAddress();
-      console.log(`Whitelist ID: ${whitelistId}`);
-      console.log(`filePath: ${filePath}. is exist ${fs.existsSync(filePath)}`);
-      // Add 1 second timeout to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      await this.addMembersToWhitelistViaCap(whitelistId, capId, [walletAddress]);
-      console.log(`Passed addMembersToWhitelistViaCaps`);
-
-      // Encrypt the file data
-      const encryptedData = await this.encrypt(fileData, whitelistId);
+      // The file is only streamed after the whitelist is ready, so check it first
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`File not found: ${filePath}`);
+      }
+
+      const { whitelistId, capId } = whitelist || await this.createOwnWhitelist();
+      const keyId = this.createKeyId(whitelistId);
+
+      // Random data key for the content, only this key is encrypted with Seal
+      const dataKey = generateDataKey();
       
-      // Create output file path with .enc suffix
-      const encodedFilePath = filePath + '.enc';
+      // Unique output file path with .enc suffix, so concurrent stores of the same file do not collide
+      const encodedFileName = `${path.basename(filePath)}.${randomBytes(8).toString('hex')}.enc`;
+      const encodedFilePath = path.join(outputDir, encodedFileName);
       
-      // Write encrypted data to new file
-      fs.writeFileSync(encodedFilePath, encryptedData);
+      try {
+        const sealedKey = await this.encrypt(dataKey, keyId);
+        await encryptFileToEnvelope(filePath, encodedFilePath, dataKey, sealedKey);
+      } finally {
+        dataKey.fill(0);
+      }
       
       console.log(`File encoded successfully: ${encodedFilePath}`);
       console.log(`Whitelist ID: ${whitelistId}`);
@@ -145,21 +168,85 @@ export class SealManager {
       return {
         encodedFilePath,
         capId,
-        whitelistId
+        whitelistId,
+        keyId
       };
     } catch (error) {
       throw new Error(`Failed to encode file: ${error}`);
     }
   }
 
-  async decodeFile(filePath: string, whitelistId: string): Promise<string> {
-    try {
-      const fileData = fs.readFileSync(filePath);
-      
-      const encryptedData = await this.decrypt(fileData, whitelistId);
+  /**
+   * Returns the access group with this name from the wallet registry, creating its
+   * whitelist with the wallet address as first member if it does not exist yet
+   */
+  async getOrCreateAccessGroup(name: string): Promise<AccessGroup> {
+    const registry = new AccessGroupRegistry(this.wallet.getWalletDirectory(), this.wallet.getActiveEnvironment());
+    const existing = registry.get(name);
+    if (existing) {
+      return existing;
+    }
+
+    const { whitelistId, capId } = await this.createOwnWhitelist();
+    const group: AccessGroup = { name, whitelistId, capId, createdAt: new Date().toISOString() };
+    registry.save(group);
+    return group;
+  }
+
+  /**
+   * Lists the access groups of the wallet
+   */
+  listAccessGroups(): AccessGroup[] {
+    return new AccessGroupRegistry(this.wallet.getWalletDirectory(), this.wallet.getActiveEnvironment()).list();
+  }
 
-      const decodedFilePath = filePath.replace('.enc', '');
-      fs.writeFileSync(decodedFilePath, encryptedData);
+  /**
+   * Creates a whitelist with the wallet address as its only member
+   */
+  private async createOwnWhitelist(): Promise<WhitelistCreationResult> {
+    const { whitelistId, capId } = await this.createWhitelistWithCap();
+
+    // Add wallet address to the whitelist
+    const walletAddress = this.wallet.getKeypair().getPublicKey().toSuiAddress();
+    console.log(`Whitelist ID: ${whitelistId}`);
+    // Add 1 second timeout to avoid rate limiting
+    await new Promise(resolve => setTimeout(resolve, 1000));
+    await this.addMembersToWhitelistViaCap(whitelistId, capId, [walletAddress]);
+    console.log(`Passed addMembersToWhitelistViaCaps`);
+
+    return { whitelistId, capId };
+  }
+
+  /**
+   * Creates a key ID of the form [whitelist id][nonce], which seal_approve accepts for
+   * members of the whitelist
+   */
+  createKeyId(whitelistId: string): string {
+    const nonce = randomBytes(KEY_ID_NONCE_LENGTH);
+    return toHex(Uint8Array.from([...fromHex(whitelistId), ...nonce]));
+  }
+
+  /**
+   * Decrypts a file written by encodeFile, in constant memory. Files encrypted entirely
+   * with Seal by earlier versions are still supported.
+   * @param keyId Seal identity of the file, files of earlier versions use the whitelist ID
+   */
+  async decodeFile(filePath: string, whitelistId: string, keyId: string = whitelistId): Promise<string> {
+    try {
+      const decodedFilePath = filePath.replace(/\.enc$/, '');
+      const header = await readEnvelopeHeader(filePath);
+
+      if (header) {
+        const dataKey = await this.decrypt(header.sealedKey, whitelistId, keyId);
+        try {
+          await decryptEnvelopeToFile(filePath, header, dataKey, decodedFilePath);
+        } finally {
+          dataKey.fill(0);
+        }
+      } else {
+        const encryptedData = await this.decrypt(fs.readFileSync(filePath), whitelistId, keyId);
+        fs.writeFileSync(decodedFilePath, encryptedData);
+      }
 
       // console.log(`File decoded successfully: ${decodedFilePath}`);
 
@@ -196,9 +283,14 @@ async encrypt(data: string | Buffer,
    * Decrypt data using Seal with whitelist verification
    */
   async decrypt(encryptedBytes: Uint8Array,
-    id: string): Promise<Buffer> {
+    whitelistId: string, keyId: string = whitelistId): Promise<Buffer> {
     try {
-        const txBytes = await this.constructTxBytes([id]);
+        // Only members with a time-limited grant need seal_approve_timed, which the first
+        // published version of walia_seal lacks
+        const ownAddress = normalizeSuiAddress(this.wallet.getKeypair().getPublicKey().toSuiAddress());
+        const members = (await this.getWhitelistEntries(whitelistId)) || [];
+        const timed = !members.some(member => normalizeSuiAddress(member) === ownAddress);
+        const txBytes = await this.constructTxBytes([keyId], whitelistId, timed);
 
 		const sessionKey = new SessionKey({
 			address: this.wallet.getKeypair().getPublicKey().toSuiAddress(),
@@ -263,16 +355,41 @@ async encrypt(data: string | Buffer,
     }
   }
 
+  /**
+   * Estimates the gas, in MIST, of creating the whitelist of a file. The creation is dry-run,
+   * and adding the wallet address to the new whitelist is assumed to cost as much.
+   */
+  async estimateWhitelistCreationGas(): Promise<bigint> {
+    const suiClient = this.wallet.getSuiClient();
+    const tx = new Transaction();
+    tx.setSender(this.wallet.getKeypair().toSuiAddress());
+    tx.moveCall({
+      target: `${this.waliaSealPackageId}::${WHITELIST_MODULE_NAME}::${WHITELIST_FUNCTION_NAME}`,
+      arguments: [],
+    });
+
+    const result = await suiClient.dryRunTransactionBlock({ transactionBlock: await tx.build({ client: suiClient }) });
+    if (result.effects.status.status !== 'success') {
+      throw new Error(`Whitelist creation dry run failed: ${result.effects.status.error}`);
+    }
+    const { computationCost, storageCost, storageRebate } = result.effects.gasUsed;
+    return 2n * (BigInt(computationCost) + BigInt(storageCost) - BigInt(storageRebate));
+  }
+
 
 
-async constructTxBytes(innerIds: string[]): Promise<Uint8Array> {
+/**
+ * Builds the seal_approve calls for key IDs of a whitelist, or the seal_approve_timed
+ * calls that also accept time-limited grants
+ */
+async constructTxBytes(keyIds: string[], whitelistId: string, timed = false): Promise<Uint8Array> {
 	const tx = new Transaction();
-	for (const innerId of innerIds) {
-		const keyIdArg = tx.pure.vector('u8', fromHex(innerId));
-		const objectArg = tx.object(innerId);
+	for (const keyId of keyIds) {
+		const keyIdArg = tx.pure.vector('u8', fromHex(keyId));
+		const objectArg = tx.object(whitelistId);
 		tx.moveCall({
-			target: `${this.waliaSealPackageId}::${WHITELIST_MODULE_NAME}::seal_approve`,
-			arguments: [keyIdArg, objectArg],
+			target: `${this.waliaSealPackageId}::${WHITELIST_MODULE_NAME}::${timed ? 'seal_approve_timed' : 'seal_approve'}`,
+			arguments: timed ? [keyIdArg, objectArg, tx.object.clock()] : [keyIdArg, objectArg],
 		});
 	}
 	return await tx.build({ client: this.wallet.getSuiClient(), onlyTransactionKind: true });
@@ -373,6 +490,125 @@ async constructTxBytes(innerIds: string[]): Promise<Uint8Array> {
     }
   }
 
+  /**
+   * Grant an address access to the whitelist until expiresAt. Key servers check the
+   * expiry against the on-chain clock, so the grant does not need to be revoked.
+   * Granting again to the same address changes the expiry.
+   */
+  async grantTemporaryAccess(
+    whitelistId: string,
+    capId: string,
+    address: string,
+    expiresAt: Date
+  ): Promise<void> {
+    if (expiresAt.getTime() <= Date.now()) {
+      throw new Error(`Expiry ${expiresAt.toISOString()} is not in the future`);
+    }
+    const tx = new Transaction();
+    tx.moveCall({
+      target: `${this.waliaSealPackageId}::${WHITELIST_MODULE_NAME}::add_temporary`,
+      arguments: [
+        tx.object(whitelistId),
+        tx.object(capId),
+        tx.pure.address(address),
+        tx.pure.u64(expiresAt.getTime()),
+        tx.object.clock(),
+      ],
+    });
+    await this.executeWhitelistTransaction(tx);
+    console.log(`Granted ${address} access to whitelist ${whitelistId} until ${expiresAt.toISOString()}`);
+  }
+
+  /**
+   * Remove a time-limited grant before it expires
+   */
+  async revokeTemporaryAccess(
+    whitelistId: string,
+    capId: string,
+    address: string
+  ): Promise<void> {
+    const tx = new Transaction();
+    tx.moveCall({
+      target: `${this.waliaSealPackageId}::${WHITELIST_MODULE_NAME}::remove_temporary`,
+      arguments: [
+        tx.object(whitelistId),
+        tx.object(capId),
+        tx.pure.address(address),
+      ],
+    });
+    await this.executeWhitelistTransaction(tx);
+  }
+
+  /**
+   * Get the time-limited members of a whitelist, including expired grants. Packages
+   * published before time-limited grants have none.
+   */
+  async getTemporaryGrants(whitelistId: string): Promise<TemporaryGrant[]> {
+    if (!(await this.supportsTemporaryGrants())) {
+      return [];
+    }
+
+    const tx = new Transaction();
+    tx.moveCall({
+      target: `${this.waliaSealPackageId}::${WHITELIST_MODULE_NAME}::get_temporary_members`,
+      arguments: [tx.object(whitelistId)],
+    });
+
+    const response = await this.wallet.getSuiClient().devInspectTransactionBlock({
+      transactionBlock: tx,
+      sender: this.wallet.getKeypair().getPublicKey().toSuiAddress(),
+    });
+    const returnValues = response.results?.[0]?.returnValues;
+    if (response.error?.includes('MoveAbort')) {
+      console.warn(`Reading the temporary members of whitelist ${whitelistId} aborted, assuming none:`, response.error);
+      return [];
+    }
+    if (response.error || !returnValues || returnValues.length < 2) {
+      throw new Error(`Could not read the temporary members of whitelist ${whitelistId}: ${response.error}`);
+    }
+
+    const addresses = bcs.vector(bcs.Address).parse(Uint8Array.from(returnValues[0][0]));
+    const expiries = bcs.vector(bcs.u64()).parse(Uint8Array.from(returnValues[1][0]));
+    return addresses.map((address, index) => ({
+      address,
+      expiresAt: new Date(Number(expiries[index])),
+    }));
+  }
+
+  /**
+   * Whether the walia_seal package has the time-limited grant functions, which its first
+   * published version lacks
+   */
+  async supportsTemporaryGrants(): Promise<boolean> {
+    if (this.timedGrantsSupported === undefined) {
+      try {
+        await this.wallet.getSuiClient().getNormalizedMoveFunction({
+          package: this.waliaSealPackageId,
+          module: WHITELIST_MODULE_NAME,
+          function: 'get_temporary_members',
+        });
+        this.timedGrantsSupported = true;
+      } catch (error) {
+        console.warn(`Package ${this.waliaSealPackageId} has no time-limited grants:`, error);
+        this.timedGrantsSupported = false;
+      }
+    }
+    return this.timedGrantsSupported;
+  }
+
+  private async executeWhitelistTransaction(tx: Transaction): Promise<void> {
+    const result = await this.wallet.getSuiClient().signAndExecuteTransaction({
+      transaction: tx,
+      signer: this.wallet.getKeypair(),
+      options: {
+        showEffects: true,
+      },
+    });
+    if (result.effects?.status.status !== 'success') {
+      throw new Error(`Transaction failed: ${result.effects?.status.error}`);
+    }
+  }
+
   /**
    * Create a WaliaObjCap for a Walrus blob
    */
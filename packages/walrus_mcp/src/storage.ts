@@ -2,12 +2,28 @@ import * as fs from "fs";
 import * as path from "path";
 import { SuiClient } from "@mysten/sui/client";
 import { Transaction } from "@mysten/sui/transactions";
-import { exec } from "child_process";
-import { promisify } from "util";
-import { SealManager } from "./seal";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import {
+    CHUNK_OBJECTS_ATTRIBUTE,
+    CHUNK_ROLE,
+    MANIFEST_ROLE,
+    ROLE_ATTRIBUTE,
+    assembleChunks,
+    createManifest,
+    getChunkObjectIds,
+    getMaxBlobSize,
+    parseManifest,
+    removeChunks,
+    splitFile
+} from "./chunked-storage";
+import { findCatalogEntry, invalidateBlobCatalog, loadBlobCatalog, saveBlobCatalog } from "./blob-catalog";
+import { validateBlobId, validateObjectId } from "./command-runner";
+import { CostSample, recordCostSample } from "./cost-calibration";
+import { getBlobExpiry, getEpochInfo } from "./epoch-clock";
+import { SealManager, TemporaryGrant, WhitelistCreationResult } from "./seal";
 import { ClientConfig, WalletManagement, readSuiKeypair } from "./wallet-management";
-
-const execAsync = promisify(exec);
+import { getWalrusBackend } from "./walrus-backend";
+import { EpochInfo, WalrusCostEstimator } from "./walrus-cost-estimator";
 
 const WAL_TO_FROST = 1_000_000_000; // 1 WAL = 1,000,000,000 FROST
 
@@ -22,6 +38,12 @@ export interface BlobParams {
     deletable?: boolean;
     clientConf: ClientConfig;
     attributes?: BlobAttributes;
+    /** Keep the source file after storing, defaults to true */
+    keepSource?: boolean;
+    /** Access group whose whitelist protects the file, instead of a new whitelist per file */
+    accessGroup?: string;
+    /** Existing whitelist that protects the file, takes precedence over accessGroup */
+    whitelist?: WhitelistCreationResult;
 }
 
 export interface StorageObject {
@@ -48,34 +70,13 @@ export interface BlobObject {
     timestamp?: string;
     formattedSize?: string;
     isExpired?: boolean;
+    /** When the blob stops being available, as an ISO timestamp */
+    expiresAt?: string;
+    epochsUntilExpiry?: number;
     daysUntilExpiry?: number;
     attributes?: BlobAttributes;
 }
 
-interface WalrusStoreResponse {
-    blobStoreResult: {
-        newlyCreated?: {
-            blobObject: BlobObject;
-            resourceOperation: {
-                reuseStorage?: {
-                    encodedLength: number;
-                };
-                registerFromScratch?: {
-                    encodedLength: number;
-                    epochsAhead: number;
-                };
-            };
-            cost: number;
-        };
-        alreadyCertified?: {
-            blobId: string;
-            object: string;
-            endEpoch: number;
-        };
-    };
-    path: string;
-}
-
 export interface StoreResult {
     blobId: string;
     objectId: string;
@@ -93,137 +94,180 @@ export function getDataDir(walletManagement: WalletManagement): string {
     return dataDir;
 }
 
-// remove files after storing
-async function removeFiles(filePath: string, encodedFilePath: string): Promise<void> {
-    if (fs.existsSync(filePath)) {
+// remove a file if it exists
+function removeFile(filePath: string | undefined): void {
+    if (filePath && fs.existsSync(filePath)) {
         fs.unlinkSync(filePath);
     }
-    if (fs.existsSync(encodedFilePath)) {
-        fs.unlinkSync(encodedFilePath);
-    }
 }
 
+/**
+ * Encrypts a file and stores it on Walrus. Walrus is given a temporary encrypted copy
+ * in the wallet data directory, which is always removed. The source file is only
+ * removed on success and when keepSource is false.
+ * Files larger than the maximum blob size are stored as chunks plus a manifest blob,
+ * and the returned IDs are those of the manifest.
+ */
 export async function store(filePath: string, params: BlobParams, sealManager: SealManager): Promise<StoreResult> {
     let encodedFilePath: string | undefined;
     
     try {
-        const encodedFileResult = await sealManager.encodeFile(filePath);
+        const whitelist = params.whitelist
+            || (params.accessGroup ? await sealManager.getOrCreateAccessGroup(params.accessGroup) : undefined);
+        const encodedFileResult = await sealManager.encodeFile(filePath, getDataDir(sealManager.getWallet()), whitelist);
         encodedFilePath = encodedFileResult.encodedFilePath;
         const capId = encodedFileResult.capId;
         const whitelistId = encodedFileResult.whitelistId;
-        // Add seal management attributes to track capId and whitelistId
+        // Add seal management attributes to track capId, whitelistId and the key ID of the file
         if (!params.attributes) {
             params.attributes = {};
         }
         params.attributes.capId = capId;
         params.attributes.whitelistId = whitelistId;
-
-        let command = `walrus store --json "${encodedFilePath}"`;
-        
-        if (params.epochs) {
-            command += ` --epochs ${params.epochs}`;
+        params.attributes.keyId = encodedFileResult.keyId;
+        if (params.accessGroup) {
+            params.attributes.accessGroup = params.accessGroup;
         }
-        if (params.deletable) {
-            command += ` --deletable`;
-        }
-        
-        command += ` --config "${params.clientConf.walrusConfPath}"`;
-        command += ` --wallet "${params.clientConf.suiConfPath}"`;
 
-        const { stdout, stderr } = await execAsync(command);
-        if (stderr) {
-            console.error('CLI warning:', stderr);
-        }
+        const maxBlobSize = await getMaxBlobSize(params.clientConf);
+        const result = maxBlobSize && fs.statSync(encodedFilePath).size > maxBlobSize
+            ? await storeChunks(encodedFilePath, maxBlobSize, params)
+            : await storeBlob(encodedFilePath, params);
 
-        const responses: WalrusStoreResponse[] = JSON.parse(stdout);
-        
-        if (!Array.isArray(responses) || responses.length === 0) {
-            throw new Error('Invalid response: expected non-empty array');
+        // If attributes are provided, add them to the blob
+        if (params.attributes && Object.keys(params.attributes).length > 0) {
+            await add_blob_attributes(params.clientConf, result.objectId, params.attributes);
         }
 
-        const response = responses[0];
-        if (!response.blobStoreResult) {
-            throw new Error('Invalid response: missing blobStoreResult');
+        if (params.keepSource === false) {
+            removeFile(filePath);
         }
 
-        const storeResult = response.blobStoreResult;
-        let result: StoreResult;
-        
-        if (storeResult?.newlyCreated?.blobObject) {
-            const resourceOp = storeResult.newlyCreated.resourceOperation;
-            const encodedLength = resourceOp?.registerFromScratch?.encodedLength || resourceOp?.reuseStorage?.encodedLength || 0;
-            
-            result = {
-                blobId: storeResult.newlyCreated.blobObject.blobId,
-                objectId: storeResult.newlyCreated.blobObject.id,
-                storageCost: storeResult.newlyCreated.cost,
+        return result;
+    } catch (error) {
+        console.error('Failed to store file:', error);
+        throw error;
+    } finally {
+        // Only the temporary encrypted copy is ours to clean up
+        removeFile(encodedFilePath);
+    }
+}
+
+// store a single file as one blob
+async function storeBlob(filePath: string, params: BlobParams): Promise<StoreResult> {
+    const storeResult = await getWalrusBackend(params.clientConf).store(filePath, {
+        epochs: params.epochs,
+        deletable: params.deletable
+    });
+    
+    if (storeResult?.newlyCreated?.blobObject) {
+        const resourceOp = storeResult.newlyCreated.resourceOperation;
+        const encodedLength = resourceOp?.registerFromScratch?.encodedLength || resourceOp?.reuseStorage?.encodedLength || 0;
+        if (encodedLength > 0) {
+            recordStoreSample(params, {
                 unencodedSize: storeResult.newlyCreated.blobObject.size,
                 encodedSize: encodedLength,
-                encodingType: storeResult.newlyCreated.blobObject.encodingType
-            };
-            
-            // If attributes are provided and blob was newly created, add them
-            if (params.attributes && Object.keys(params.attributes).length > 0) {
-                await add_blob_attributes(params.clientConf, result.objectId, params.attributes);
-            }
-            
-            // remove files after storing
-            await removeFiles(filePath, encodedFilePath);
-            
-            return result;
-        } else if (storeResult?.alreadyCertified?.blobId) {
-            // For already certified blobs, we need to get the additional info
-        
-            result = {
-                blobId: storeResult.alreadyCertified.blobId,
-                objectId: storeResult.alreadyCertified.object,
-                storageCost: 0,
-                unencodedSize: 0,
-                encodedSize: 0,
-                encodingType: 'RS2'
-            };
-            
-            // If attributes are provided and blob was already certified, add them
-            if (params.attributes && Object.keys(params.attributes).length > 0) {
-                await add_blob_attributes(params.clientConf, result.objectId, params.attributes);
-            }
-            
-            // remove files after storing
-            await removeFiles(filePath, encodedFilePath);
-            
-            return result;
-        } else {
-            await removeFiles(filePath, encodedFilePath);
-            console.error('Unexpected response structure:', response);
-            throw new Error('Failed to store file: Invalid response from Walrus CLI');
-        }
-    } catch (error) {
-        // Clean up files on error
-        if (fs.existsSync(filePath)) {
-            fs.unlinkSync(filePath);
-        }
-        if (encodedFilePath && fs.existsSync(encodedFilePath)) {
-            fs.unlinkSync(encodedFilePath);
+                cost: storeResult.newlyCreated.cost,
+                epochs: resourceOp.registerFromScratch?.epochsAhead || params.epochs || 1,
+            });
         }
         
-        console.error('Failed to store file:', error);
-        throw error;
+        return {
+            blobId: storeResult.newlyCreated.blobObject.blobId,
+            objectId: storeResult.newlyCreated.blobObject.id,
+            storageCost: storeResult.newlyCreated.cost,
+            unencodedSize: storeResult.newlyCreated.blobObject.size,
+            encodedSize: encodedLength,
+            encodingType: storeResult.newlyCreated.blobObject.encodingType
+        };
+    } else if (storeResult?.alreadyCertified?.blobId) {
+        // For already certified blobs, we need to get the additional info
+    
+        return {
+            blobId: storeResult.alreadyCertified.blobId,
+            objectId: storeResult.alreadyCertified.object,
+            storageCost: 0,
+            unencodedSize: 0,
+            encodedSize: 0,
+            encodingType: 'RS2'
+        };
+    } else {
+        console.error('Unexpected response structure:', storeResult);
+        throw new Error('Failed to store file: Invalid response from Walrus');
     }
 }
 
+// calibrate the cost estimator with the observed sizes, the blob is stored either way
+function recordStoreSample(params: BlobParams, sample: Omit<CostSample, 'timestamp'>): void {
+    try {
+        recordCostSample(params.clientConf, sample);
+    } catch (error) {
+        console.warn('Failed to record the cost sample of the blob:', error);
+    }
+}
+
+/**
+ * Stores an encrypted file as chunks of at most chunkSize bytes, followed by a manifest
+ * blob listing them. All chunks are slices of one envelope, so they share its whitelist.
+ * The manifest attributes are added to params.attributes.
+ */
+async function storeChunks(encodedFilePath: string, chunkSize: number, params: BlobParams): Promise<StoreResult> {
+    const chunks = await splitFile(encodedFilePath, chunkSize, path.dirname(encodedFilePath));
+    const manifestPath = `${encodedFilePath}.manifest`;
+    const storedObjectIds: string[] = [];
 
-export async function read(blobId: string, params: BlobParams, sealManager: SealManager): Promise<string> {
     try {
-        const outputPath =  path.join(getDataDir(sealManager.getWallet()),  `${blobId}.enc`);
-        let command = `walrus read --json "${blobId}" --out "${outputPath}"`;
+        const chunkResults: StoreResult[] = [];
+        for (const chunk of chunks) {
+            const chunkResult = await storeBlob(chunk.path, params);
+            storedObjectIds.push(chunkResult.objectId);
+            await add_blob_attributes(params.clientConf, chunkResult.objectId, {
+                [ROLE_ATTRIBUTE]: CHUNK_ROLE,
+                capId: params.attributes!.capId,
+                whitelistId: params.attributes!.whitelistId,
+            });
+            chunkResults.push(chunkResult);
+            removeFile(chunk.path);
+        }
+
+        fs.writeFileSync(manifestPath, JSON.stringify(createManifest(chunks, chunkResults)));
+        const manifestResult = await storeBlob(manifestPath, params);
 
-        command += ` --config "${params.clientConf.walrusConfPath}"`;
-        command += ` --wallet "${params.clientConf.suiConfPath}"`;
+        params.attributes![ROLE_ATTRIBUTE] = MANIFEST_ROLE;
+        params.attributes![CHUNK_OBJECTS_ATTRIBUTE] = chunkResults.map(chunkResult => chunkResult.objectId).join(',');
 
-        const { stdout, stderr } = await execAsync(command);
-        if (stderr) {
-            console.error('CLI warning:', stderr);
+        const results = [...chunkResults, manifestResult];
+        return {
+            blobId: manifestResult.blobId,
+            objectId: manifestResult.objectId,
+            storageCost: results.reduce((total, r) => total + r.storageCost, 0),
+            unencodedSize: results.reduce((total, r) => total + r.unencodedSize, 0),
+            encodedSize: results.reduce((total, r) => total + r.encodedSize, 0),
+            encodingType: manifestResult.encodingType
+        };
+    } catch (error: any) {
+        // Chunks without their manifest cannot be read, so they are burned rather than left on chain
+        if (storedObjectIds.length > 0) {
+            try {
+                await burnBlobs(params.clientConf, { blobObjectIds: storedObjectIds });
+            } catch (burnError) {
+                console.error('Failed to burn the chunks of the failed store:', burnError);
+                throw new Error(`${error.message}. The chunks already stored could not be burned: ${storedObjectIds.join(', ')}`);
+            }
         }
+        throw error;
+    } finally {
+        removeChunks(chunks);
+        removeFile(manifestPath);
+    }
+}
+
+export async function read(blobId: string, params: BlobParams, sealManager: SealManager): Promise<string> {
+    let outputPath: string | undefined;
+    try {
+        // The blob ID becomes part of a local path, so it must be validated first
+        outputPath =  path.join(getDataDir(sealManager.getWallet()),  `${validateBlobId(blobId)}.enc`);
+        await getWalrusBackend(params.clientConf).read(blobId, outputPath);
 
         const blobObjectId = await getBlobObjectIdByBlobId(blobId, params.clientConf);
         if (!blobObjectId) {
@@ -233,9 +277,15 @@ export async function read(blobId: string, params: BlobParams, sealManager: Seal
         const attributes = await get_blob_attributes(params.clientConf, blobObjectId);
         const capId = attributes.capId;
         const whitelistId = attributes.whitelistId;
+
+        // A manifest blob lists the chunks of a large file, reassemble them in its place
+        if (attributes[ROLE_ATTRIBUTE] === MANIFEST_ROLE) {
+            const manifest = parseManifest(fs.readFileSync(outputPath, 'utf8'));
+            await assembleChunks(params.clientConf, manifest, outputPath);
+        }
         
         // Decrypt the file data
-        const decryptedFilePath = await sealManager.decodeFile(outputPath, whitelistId);
+        const decryptedFilePath = await sealManager.decodeFile(outputPath, whitelistId, attributes.keyId || whitelistId);
         fs.unlinkSync(outputPath);
         // Ensure decryptedFilePath is absolute
         const absoluteDecryptedFilePath = path.isAbsolute(decryptedFilePath)
@@ -244,6 +294,7 @@ export async function read(blobId: string, params: BlobParams, sealManager: Seal
         
         return decryptedFilePath;
     } catch (error) {
+        removeFile(outputPath);
         console.error('Failed to read file:', error);
         throw error;
     }
@@ -251,20 +302,8 @@ export async function read(blobId: string, params: BlobParams, sealManager: Seal
 
 export async function add_blob_attributes(clientConf: ClientConfig, blobObjectId: string, attributes: BlobAttributes): Promise<void> {
     try {
-        let command = `walrus set-blob-attribute "${blobObjectId}"`;
-        
-        // Add each attribute as a separate --attr flag
-        for (const [key, value] of Object.entries(attributes)) {
-            command += ` --attr "${key}" "${value}"`;
-        }
-
-        command += ` --config "${clientConf.walrusConfPath}"`;
-        command += ` --wallet "${clientConf.suiConfPath}"`;
-
-        const { stdout, stderr } = await execAsync(command);
-        if (stderr) {
-            console.error('CLI warning:', stderr);
-        }
+        await getWalrusBackend(clientConf).setBlobAttributes(blobObjectId, attributes);
+        invalidateBlobCatalog(clientConf, [blobObjectId]);
     } catch (error) {
         console.error('Failed to set blob attributes:', error);
         throw error;
@@ -273,24 +312,11 @@ export async function add_blob_attributes(clientConf: ClientConfig, blobObjectId
 
 export async function get_blob_attributes(clientConf: ClientConfig, blobObjectId: string): Promise<BlobAttributes> {
     try {
-        let command = `walrus get-blob-attribute "${blobObjectId}" --json`;
-        
-        command += ` --config "${clientConf.walrusConfPath}"`;
-        command += ` --wallet "${clientConf.suiConfPath}"`;
-
-        const { stdout, stderr } = await execAsync(command);
-        if (stderr) {
-            console.error('CLI warning:', stderr);
+        const cached = loadBlobCatalog(clientConf)[blobObjectId];
+        if (cached) {
+            return cached.attributes;
         }
-
-        const response = JSON.parse(stdout);
-        const attributes: Record<string, string> = {};
-        if (response.attribute?.metadata?.contents) {
-            for (const item of response.attribute.metadata.contents) {
-                attributes[item.key] = item.value;
-            }
-        }
-        return attributes;
+        return await getWalrusBackend(clientConf).getBlobAttributes(blobObjectId);
     } catch (error) {
         console.error('Failed to get blob attributes:', error);
         throw error;
@@ -300,25 +326,22 @@ export async function get_blob_attributes(clientConf: ClientConfig, blobObjectId
 export async function list_blobs(clientConf: ClientConfig, includeExpired: boolean = false): Promise<BlobObject[]> {
     try {
         console.info('list_blobs called with:', {
-            clientConf,
+            suiConfPath: clientConf.suiConfPath,
             includeExpired
         });
-        let command = `walrus list-blobs --json`;
-        
-        if (includeExpired) {
-            command += ` --include-expired`;
-        }
-
-        command += ` --config "${clientConf.walrusConfPath}"`;
-        command += ` --wallet "${clientConf.suiConfPath}"`;
-
-        const { stdout, stderr } = await execAsync(command);
-        if (stderr) {
-            console.error('CLI warning:', stderr);
+        const blobs: BlobObject[] = await getWalrusBackend(clientConf).listBlobs(includeExpired);
+
+        // Expiry dates are unknown when the epoch info cannot be read
+        let epochInfo: EpochInfo | undefined;
+        try {
+            epochInfo = blobs.length > 0 ? await getEpochInfo(clientConf) : undefined;
+        } catch (error) {
+            console.warn('Could not get the epoch info, blob expiry dates are unknown:', error);
         }
 
-        const response = JSON.parse(stdout);
-        const blobs: BlobObject[] = response || [];
+        // Only the attributes of blobs missing from the catalog are fetched
+        const catalog = loadBlobCatalog(clientConf);
+        const unknownAttributes = new Set<string>();
         
         // Enrich each blob with additional computed fields
         const enrichedBlobs = await Promise.all(blobs.map(async (blob) => {
@@ -329,18 +352,16 @@ export async function list_blobs(clientConf: ClientConfig, includeExpired: boole
             // blob.timestamp = `Epoch ${blob.registeredEpoch}`;
             
             // Calculate expiry information if storage info is available
-            if (blob.storage?.endEpoch) {
+            if (blob.storage?.endEpoch && epochInfo) {
                 blob.endEpoch = blob.storage.endEpoch;
-                // Assume each epoch is ~24 hours (this is approximate)
-                const epochsUntilExpiry = blob.storage.endEpoch - blob.registeredEpoch;
-                blob.daysUntilExpiry = Math.max(0, epochsUntilExpiry);
-                blob.isExpired = epochsUntilExpiry <= 0;
-                
-                // Create human readable end date (approximate)
-                const now = new Date();
-                const expiryDate = new Date(now.getTime() + (epochsUntilExpiry * 24 * 60 * 60 * 1000));
-                blob.endDate = blob.isExpired ? 'Expired' : expiryDate.toISOString().split('T')[0];
+                const expiry = getBlobExpiry(epochInfo, blob.storage.endEpoch);
+                blob.expiresAt = expiry.expiresAt.toISOString();
+                blob.epochsUntilExpiry = expiry.epochsUntilExpiry;
+                blob.daysUntilExpiry = expiry.daysUntilExpiry;
+                blob.isExpired = expiry.isExpired;
+                blob.endDate = blob.isExpired ? 'Expired' : blob.expiresAt.split('T')[0];
             } else {
+                blob.endEpoch = blob.storage?.endEpoch;
                 blob.isExpired = false;
                 blob.daysUntilExpiry = undefined;
                 blob.endDate = 'Unknown';
@@ -348,7 +369,7 @@ export async function list_blobs(clientConf: ClientConfig, includeExpired: boole
             
             // Try to get blob attributes (non-blocking, don't fail if it errors)
             try {
-                blob.attributes = await get_blob_attributes(clientConf, blob.id);
+                blob.attributes = catalog[blob.id]?.attributes ?? await get_blob_attributes(clientConf, blob.id);
                 
                 // Extract name from attributes if available
                 if (blob.attributes?.name) {
@@ -363,12 +384,21 @@ export async function list_blobs(clientConf: ClientConfig, includeExpired: boole
                 // Don't fail the entire operation if attributes can't be fetched
                 console.debug(`Could not fetch attributes for blob ${blob.id}:`, error);
                 blob.attributes = {};
+                unknownAttributes.add(blob.id);
             }
             
             return blob;
         }));
+
+        try {
+            saveBlobCatalog(clientConf, enrichedBlobs.filter(blob => !unknownAttributes.has(blob.id)));
+        } catch (error) {
+            console.warn('Failed to save the blob catalog:', error);
+        }
         
-        return enrichedBlobs;
+        // Chunks of large files are listed through their manifest blob, chunks left without one are listed
+        const manifestChunkIds = new Set(enrichedBlobs.flatMap(blob => getChunkObjectIds(blob.attributes || {})));
+        return enrichedBlobs.filter(blob => blob.attributes?.[ROLE_ATTRIBUTE] !== CHUNK_ROLE || !manifestChunkIds.has(blob.id));
     } catch (error) {
         console.error('Failed to list blobs:', error);
         throw error;
@@ -387,11 +417,17 @@ function formatBytes(bytes: number): string {
 }
 
 /**
- * Get blob object ID by blobId from list_blobs result
+ * Get blob object ID by blobId from the blob catalog, else from list_blobs result
  */
 export async function getBlobObjectIdByBlobId(blobId: string, clientConf: ClientConfig): Promise<string | null> {
     try {
-        // List all blobs
+        // Expired blobs are not listed below, so their catalog entries are skipped too
+        const cached = findCatalogEntry(clientConf, blobId);
+        if (cached && cached.endEpoch > (await getEpochInfo(clientConf)).currentEpoch) {
+            return cached.objectId;
+        }
+
+        // List all blobs, which also refreshes the catalog
         const blobs = await list_blobs(clientConf, false);
         
         // Find the blob with matching blobId
@@ -418,54 +454,125 @@ export interface BurnParams {
 
 export async function burnBlobs(clientConf: ClientConfig, params: BurnParams): Promise<void> {
     try {
-        let command = 'walrus burn-blobs --yes';
-
-        command += ` --config "${clientConf.walrusConfPath}"`;
-        command += ` --wallet "${clientConf.suiConfPath}"`;
-        
-        // Priority handling:
-        // 1. blobObjectIds if not empty
-        // 2. all_expired if true and blobObjectIds is empty
-        // 3. all if true and both above conditions are not met
         if (params.blobObjectIds && params.blobObjectIds.length > 0) {
-            command += ` --object-ids ${params.blobObjectIds.join(' ')}`;
-        } else if (params.all_expired) {
-            command += ' --all-expired';
-        } else if (params.all) {
-            command += ' --all';
-        } else {
-            throw new Error('Invalid burn parameters: must specify either blobObjectIds, all_expired, or all');
-        }
-
-        const { stdout, stderr } = await execAsync(command);
-        if (stderr) {
-            console.error('CLI warning:', stderr);
+            params = { ...params, blobObjectIds: await withChunkObjectIds(clientConf, params.blobObjectIds) };
         }
+        await getWalrusBackend(clientConf).burnBlobs(params);
+        invalidateBlobCatalog(clientConf, params.all || params.all_expired ? undefined : params.blobObjectIds);
     } catch (error) {
         console.error('Failed to burn blobs:', error);
         throw error;
     }
 }
 
+// Burning a manifest blob also burns its chunks
+async function withChunkObjectIds(clientConf: ClientConfig, blobObjectIds: string[]): Promise<string[]> {
+    const objectIds = [...blobObjectIds];
+    for (const blobObjectId of blobObjectIds) {
+        try {
+            objectIds.push(...getChunkObjectIds(await get_blob_attributes(clientConf, blobObjectId)));
+        } catch (error) {
+            console.debug(`Could not fetch attributes for blob ${blobObjectId}:`, error);
+        }
+    }
+    return [...new Set(objectIds)];
+}
+
 export async function fundSharedBlob(
     clientConf: ClientConfig,
     storage: StorageObject,
     amountWAL: number
 ): Promise<void> {
     try {
-        const amountFROST = amountWAL * WAL_TO_FROST;
+        const amountFROST = Math.round(amountWAL * WAL_TO_FROST);
         
-        let command = `walrus fund-shared-blob "${storage.id}" --json`;
-        command += ` --amount ${amountFROST}`;
-        command += ` --config "${clientConf.walrusConfPath}"`;
-        command += ` --wallet "${clientConf.suiConfPath}"`;
+        await getWalrusBackend(clientConf).fundSharedBlob(storage.id, amountFROST);
+    } catch (error) {
+        console.error('Failed to fund shared blob:', error);
+        throw error;
+    }
+}
+
+export interface ExtendBlobOptions {
+    /** Only quote the extension, without extending */
+    dryRun?: boolean;
+}
+
+export interface ExtendBlobResult {
+    blobObjectId: string;
+    /** The blob and the chunks of a large file, which are extended together */
+    extendedObjectIds: string[];
+    epochs: number;
+    previousEndEpoch: number;
+    endEpoch: number;
+    /** Estimated storage cost of the extension, in FROST */
+    estimatedCost: number;
+    estimatedCostInWal: number;
+    dryRun: boolean;
+}
+
+/**
+ * Extends the storage of a blob by a number of epochs, after quoting the cost with
+ * WalrusCostEstimator. Blobs can only be extended before they expire, and up to the
+ * maximum number of epochs ahead of the network.
+ */
+export async function extendBlob(
+    clientConf: ClientConfig,
+    blobObjectId: string,
+    epochs: number,
+    options: ExtendBlobOptions = {}
+): Promise<ExtendBlobResult> {
+    try {
+        validateObjectId(blobObjectId, 'blob object ID');
+        if (!Number.isInteger(epochs) || epochs <= 0) {
+            throw new Error('epochs must be a positive integer');
+        }
+
+        const extendedObjectIds = await withChunkObjectIds(clientConf, [blobObjectId]);
+        const ownedBlobs = await getWalrusBackend(clientConf).listBlobs(true);
+        const blobs = extendedObjectIds.map(id => {
+            const blob = ownedBlobs.find(owned => normalizeSuiAddress(owned.id) === normalizeSuiAddress(id));
+            if (!blob) {
+                throw new Error(`Blob object ${id} not found in this wallet`);
+            }
+            return blob;
+        });
+
+        const epochInfo = await getEpochInfo(clientConf);
+        const previousEndEpoch = blobs[0].storage.endEpoch;
+        if (previousEndEpoch <= epochInfo.currentEpoch) {
+            throw new Error(`Blob object ${blobObjectId} has expired and cannot be extended`);
+        }
+        if (previousEndEpoch + epochs - epochInfo.currentEpoch > epochInfo.maxEpochsAhead) {
+            throw new Error(`Blobs can be stored at most ${epochInfo.maxEpochsAhead} epochs ahead, `
+                + `${blobObjectId} can be extended by ${epochInfo.maxEpochsAhead - previousEndEpoch + epochInfo.currentEpoch} epochs`);
+        }
 
-        const { stdout, stderr } = await execAsync(command);
-        if (stderr) {
-            console.error('CLI warning:', stderr);
+        const estimator = new WalrusCostEstimator(clientConf);
+        let estimatedCost = 0;
+        for (const blob of blobs) {
+            estimatedCost += (await estimator.quoteExtension(blob.storage.storageSize, epochs)).estimatedCost;
+        }
+
+        if (!options.dryRun) {
+            for (const blob of blobs) {
+                await getWalrusBackend(clientConf).extendBlob(blob.id, epochs);
+                invalidateBlobCatalog(clientConf, [blob.id]);
+            }
         }
+
+        return {
+            blobObjectId,
+            extendedObjectIds: blobs.map(blob => blob.id),
+            epochs,
+            previousEndEpoch,
+            endEpoch: previousEndEpoch + epochs,
+            estimatedCost,
+            estimatedCostInWal: estimatedCost / WAL_TO_FROST,
+            dryRun: Boolean(options.dryRun),
+        };
     } catch (error) {
-        console.error('Failed to fund shared blob:', error);
+        console.error('Failed to extend blob:', error);
         throw error;
     }
 }
@@ -476,19 +583,25 @@ export async function sendBlob(
     sealManager: SealManager
 ): Promise<void> {
     try {
+        validateObjectId(blobObjId, 'blob object ID');
+        validateObjectId(destinationSuiAddress, 'destination address');
+
         // Create transaction
         const tx = new Transaction();
         
         const blobAttrs = await get_blob_attributes(sealManager.getWallet().getUserEnvironment(), blobObjId);
         const capId = blobAttrs.capId;
-        const whitelistId = blobAttrs.whitelistId;
 
-        sealManager.addMembersToWhitelistViaCap(whitelistId, capId, [destinationSuiAddress]);
+        // Skips the addition when the recipient is already a member
+        await changeBlobAccess(blobObjId, [destinationSuiAddress], sealManager, 'add');
         // Add 1 second delay to avoid rate limiting
         await new Promise(resolve => setTimeout(resolve, 3000));
         // Use tx.object directly and then transfer the object
         // Typescript will validate the object during build phase
-        tx.transferObjects([blobObjId, capId], destinationSuiAddress);
+        // The chunks of a large file go with its manifest blob. The cap of an access group
+        // protects other files too, so it stays with the sender.
+        const capIds = blobAttrs.accessGroup ? [] : [capId];
+        tx.transferObjects([blobObjId, ...capIds, ...getChunkObjectIds(blobAttrs)], destinationSuiAddress);
         
         // Execute transaction
         const result = await sealManager.getWallet().getSuiClient().signAndExecuteTransaction({
@@ -503,6 +616,7 @@ export async function sendBlob(
             throw new Error(`Failed to send blob: ${JSON.stringify(result.effects?.status)}`);
         }
 
+        invalidateBlobCatalog(sealManager.getWallet().getUserEnvironment(), [blobObjId, ...getChunkObjectIds(blobAttrs)]);
         console.log('Transfer successful:', result.digest);
     } catch (error) {
         console.error('Failed to send blob:', error);
@@ -510,12 +624,285 @@ export async function sendBlob(
     }
 }
 
+export interface AccessChangeResult {
+    whitelistId: string;
+    /** Addresses actually added or removed, members already in the wanted state are skipped */
+    changed: string[];
+    /** Whitelist members after the change */
+    members: string[];
+}
 
+/**
+ * Grants addresses access to a blob by adding them to its whitelist. Unlike sendBlob, the
+ * blob object and its cap stay with the owner. For a blob of an access group, access is
+ * granted to every file of the group.
+ */
+export async function shareBlob(
+    blobObjectId: string,
+    addresses: string[],
+    sealManager: SealManager
+): Promise<AccessChangeResult> {
+    try {
+        return await changeBlobAccess(blobObjectId, addresses, sealManager, 'add');
+    } catch (error) {
+        console.error('Failed to share blob:', error);
+        throw error;
+    }
+}
 
+/**
+ * Expiry of a time-limited grant that lasts the given number of days from now
+ */
+export function expiryFromDays(days: number): Date {
+    if (typeof days !== 'number' || !(days > 0)) {
+        throw new Error(`Invalid number of days: ${days}`);
+    }
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+}
 
+export interface TemporaryAccessResult {
+    whitelistId: string;
+    /** Addresses granted access, permanent members already have access and are skipped */
+    granted: string[];
+    expiresAt: string;
+}
 
+/**
+ * Grants addresses access to a blob until expiresAt. Key servers check the expiry against
+ * the on-chain clock, so access ends without revoking it. Granting again to the same
+ * address changes the expiry.
+ */
+export async function shareBlobTemporarily(
+    blobObjectId: string,
+    addresses: string[],
+    expiresAt: Date,
+    sealManager: SealManager
+): Promise<TemporaryAccessResult> {
+    try {
+        const targets = normalizeAddresses(addresses);
+        const { capId, whitelistId } = await getBlobWhitelist(blobObjectId, sealManager);
+        const members = await getWhitelistMembers(whitelistId, sealManager);
 
+        const granted = targets.filter(address => !members.includes(address));
+        for (const address of granted) {
+            await sealManager.grantTemporaryAccess(whitelistId, capId, address, expiresAt);
+        }
+        return { whitelistId, granted, expiresAt: expiresAt.toISOString() };
+    } catch (error) {
+        console.error('Failed to share blob temporarily:', error);
+        throw error;
+    }
+}
 
+/**
+ * Revokes access to a blob by removing addresses from its whitelist, including
+ * time-limited grants. Key servers refuse new decryption requests from them, but
+ * copies they already decrypted are not affected.
+ */
+export async function revokeBlob(
+    blobObjectId: string,
+    addresses: string[],
+    sealManager: SealManager
+): Promise<AccessChangeResult> {
+    try {
+        const ownAddress = normalizeSuiAddress(sealManager.getWallet().getKeypair().getPublicKey().toSuiAddress());
+        if (addresses.some(address => normalizeSuiAddress(address) === ownAddress)) {
+            throw new Error('Cannot revoke the access of the wallet owner');
+        }
+        return await changeBlobAccess(blobObjectId, addresses, sealManager, 'remove');
+    } catch (error) {
+        console.error('Failed to revoke blob access:', error);
+        throw error;
+    }
+}
 
+async function changeBlobAccess(
+    blobObjectId: string,
+    addresses: string[],
+    sealManager: SealManager,
+    change: 'add' | 'remove'
+): Promise<AccessChangeResult> {
+    const targets = normalizeAddresses(addresses);
+    const { capId, whitelistId } = await getBlobWhitelist(blobObjectId, sealManager);
+    const members = await getWhitelistMembers(whitelistId, sealManager);
+    // Read before any change, so that a failed read does not follow a removal that went through
+    const grants = change === 'remove' ? await sealManager.getTemporaryGrants(whitelistId) : [];
+
+    // The Move module aborts on duplicate additions and on removals of non-members
+    const changed = targets.filter(address => members.includes(address) === (change === 'remove'));
+    if (changed.length > 0) {
+        if (change === 'add') {
+            await sealManager.addMembersToWhitelistViaCap(whitelistId, capId, changed);
+        } else {
+            await sealManager.removeMembersToWhitelistViaCap(whitelistId, capId, changed);
+        }
+    }
 
+    const revokedGrants: string[] = [];
+    if (change === 'remove') {
+        for (const grant of grants) {
+            const address = normalizeSuiAddress(grant.address);
+            if (targets.includes(address)) {
+                await sealManager.revokeTemporaryAccess(whitelistId, capId, address);
+                revokedGrants.push(address);
+            }
+        }
+    }
+
+    return {
+        whitelistId,
+        changed: [...changed, ...revokedGrants],
+        members: change === 'add'
+            ? [...members, ...changed]
+            : members.filter(member => !changed.includes(member)),
+    };
+}
+
+function normalizeAddresses(addresses: string[]): string[] {
+    if (addresses.length === 0) {
+        throw new Error('At least one address is required');
+    }
+    return [...new Set(addresses.map(address => normalizeSuiAddress(validateObjectId(address, 'address'))))];
+}
+
+async function getBlobWhitelist(blobObjectId: string, sealManager: SealManager): Promise<WhitelistCreationResult> {
+    validateObjectId(blobObjectId, 'blob object ID');
+    const { capId, whitelistId } = await get_blob_attributes(sealManager.getWallet().getUserEnvironment(), blobObjectId);
+    if (!capId || !whitelistId) {
+        throw new Error(`Blob ${blobObjectId} has no whitelist attributes`);
+    }
+    return { capId, whitelistId };
+}
+
+async function getWhitelistMembers(whitelistId: string, sealManager: SealManager): Promise<string[]> {
+    const entries = await sealManager.getWhitelistEntries(whitelistId);
+    if (!entries) {
+        throw new Error(`Could not read the entries of whitelist ${whitelistId}`);
+    }
+    return entries.map(entry => normalizeSuiAddress(entry));
+}
+
+// Attributes written by store for the encryption and chunking of a blob
+const MANAGED_ATTRIBUTES = ['capId', 'whitelistId', 'keyId', 'accessGroup', ROLE_ATTRIBUTE, CHUNK_OBJECTS_ATTRIBUTE];
+
+export interface RotateKeyOptions {
+    /**
+     * Move the blob to a new whitelist with the same members and unexpired time-limited
+     * grants, instead of a new key ID of its current whitelist
+     */
+    newWhitelist?: boolean;
+    /** Storage epochs of the new blob, defaults to the epochs left on the old one */
+    epochs?: number;
+}
+
+export interface RotateKeyResult extends StoreResult {
+    previousBlobId: string;
+    previousObjectId: string;
+    whitelistId: string;
+    keyId: string;
+    /** Whether the old blob object was burned, which requires it to be deletable */
+    burned: boolean;
+}
+
+/**
+ * Re-encrypts a blob under a new key ID, or a new whitelist, with a fresh data key and
+ * stores it as a new blob with the same attributes. The old blob object is burned if it
+ * is deletable. After revoking a reader, this makes keys and data keys they may have
+ * kept useless for the new blob.
+ */
+export async function rotateBlobKey(
+    blobObjectId: string,
+    sealManager: SealManager,
+    options: RotateKeyOptions = {}
+): Promise<RotateKeyResult> {
+    let decryptedFilePath: string | undefined;
+    try {
+        validateObjectId(blobObjectId, 'blob object ID');
+        const clientConf = sealManager.getWallet().getUserEnvironment();
+
+        const blob = (await list_blobs(clientConf)).find(b => b.id === blobObjectId);
+        if (!blob) {
+            throw new Error(`No active blob found with object ID: ${blobObjectId}`);
+        }
+        const attributes = await get_blob_attributes(clientConf, blobObjectId);
+        if (!attributes.capId || !attributes.whitelistId) {
+            throw new Error(`Blob ${blobObjectId} has no whitelist attributes`);
+        }
+
+        const epochs = options.epochs ?? await getRemainingEpochs(clientConf, blob);
+
+        // A new whitelist only has the owner as member, the other readers and the time-limited
+        // grants that have not expired are given access again. They are read before storing,
+        // so that a failed read does not leave a new blob behind.
+        let readers: string[] = [];
+        let grants: TemporaryGrant[] = [];
+        if (options.newWhitelist) {
+            const ownAddress = normalizeSuiAddress(sealManager.getWallet().getKeypair().getPublicKey().toSuiAddress());
+            readers = ((await sealManager.getWhitelistEntries(attributes.whitelistId)) || [])
+                .map(entry => normalizeSuiAddress(entry))
+                .filter(entry => entry !== ownAddress);
+            grants = (await sealManager.getTemporaryGrants(attributes.whitelistId))
+                .filter(grant => grant.expiresAt.getTime() > Date.now());
+        }
+
+        decryptedFilePath = await read(blob.blobId, { clientConf }, sealManager);
+
+        // Carry over the user attributes, store writes the managed ones again
+        const carriedAttributes: BlobAttributes = {};
+        for (const [key, value] of Object.entries(attributes)) {
+            if (!MANAGED_ATTRIBUTES.includes(key)) {
+                carriedAttributes[key] = value;
+            }
+        }
+        if (attributes.accessGroup && !options.newWhitelist) {
+            carriedAttributes.accessGroup = attributes.accessGroup;
+        }
+
+        const newParams: BlobParams = {
+            clientConf,
+            epochs,
+            deletable: blob.deletable,
+            attributes: carriedAttributes,
+            whitelist: options.newWhitelist
+                ? undefined
+                : { whitelistId: attributes.whitelistId, capId: attributes.capId },
+        };
+        const result = await store(decryptedFilePath, newParams, sealManager);
 
+        if (readers.length > 0) {
+            await shareBlob(result.objectId, readers, sealManager);
+        }
+        // Time-limited grants are given again until their original expiry
+        for (const grant of grants) {
+            await shareBlobTemporarily(result.objectId, [grant.address], grant.expiresAt, sealManager);
+        }
+
+        if (blob.deletable) {
+            await burnBlobs(clientConf, { blobObjectIds: [blobObjectId] });
+        }
+
+        return {
+            ...result,
+            previousBlobId: blob.blobId,
+            previousObjectId: blobObjectId,
+            whitelistId: newParams.attributes!.whitelistId,
+            keyId: newParams.attributes!.keyId,
+            burned: blob.deletable,
+        };
+    } catch (error) {
+        console.error('Failed to rotate blob key:', error);
+        throw error;
+    } finally {
+        removeFile(decryptedFilePath);
+    }
+}
+
+// Epochs left before a blob expires
+async function getRemainingEpochs(clientConf: ClientConfig, blob: BlobObject): Promise<number> {
+    const epochInfo = await getEpochInfo(clientConf);
+    const remainingEpochs = blob.storage.endEpoch - epochInfo.currentEpoch;
+    if (remainingEpochs <= 0) {
+        throw new Error(`Blob ${blob.id} has expired`);
+    }
+    return remainingEpochs;
+}
@@ -0,0 +1,159 @@
+import { SealManager } from "./seal";
+import { ClientConfig, formatCoinAmount } from "./wallet-management";
+import { WalrusCostEstimator, estimateWalrusStorageCost } from "./walrus-cost-estimator";
+
+/**
+ * Balance check run before storing a file: the WAL storage cost is estimated from the
+ * file size and epochs, and the SUI gas from a dry run of the whitelist creation plus
+ * a fixed estimate for the Walrus transactions, which the walrus CLI or publisher runs.
+ * When the Walrus info cannot be read, the storage cost is approximated from the default
+ * prices and encoding of the cost estimator.
+ */
+
+// Gas of each Walrus transaction of a blob (register, certify and attribute write)
+const WALRUS_TRANSACTION_GAS_MIST = 10_000_000n; // 0.01 SUI
+const WALRUS_TRANSACTIONS_PER_BLOB = 3n;
+// Gas of creating a whitelist when it cannot be dry-run, such as without any SUI to pay for it
+const WHITELIST_CREATION_GAS_MIST = 2n * WALRUS_TRANSACTION_GAS_MIST;
+// Upper bound of the size of the manifest blob of a chunked file
+const MANIFEST_SIZE_ESTIMATE_BYTES = 16 * 1024;
+// Walrus stores for 1 epoch when no epochs are given
+const DEFAULT_EPOCHS = 1;
+
+/**
+ * Missing balance of a coin, amounts are decimal SUI or WAL strings
+ */
+export interface BalanceShortfall {
+  coin: 'SUI' | 'WAL';
+  needed: string;
+  available: string;
+  missing: string;
+}
+
+/**
+ * Estimated requirements of a store and the balances that cover them
+ */
+export interface StorePreflight {
+  fileSize: number;
+  epochs: number;
+  /** Blobs written, more than 1 for a chunked file */
+  blobs: number;
+  /** Estimated gas of all transactions in SUI and storage cost in WAL */
+  needed: { sui: string; wal: string };
+  available: { sui: string; wal: string };
+  shortfalls: BalanceShortfall[];
+  canStore: boolean;
+  /** Whether the storage cost uses the default prices, the Walrus info being unavailable */
+  approximate: boolean;
+}
+
+export interface StorePreflightOptions {
+  fileSize: number;
+  epochs?: number;
+  /** Whether a new whitelist is created for the file, true unless it reuses an access group */
+  createsWhitelist?: boolean;
+}
+
+/**
+ * Error of a store that the wallet balance cannot cover, carrying the preflight
+ */
+export class InsufficientBalanceError extends Error {
+  readonly preflight: StorePreflight;
+
+  constructor(preflight: StorePreflight) {
+    super(`Insufficient balance to store file: ${formatShortfalls(preflight.shortfalls)}`);
+    this.name = 'InsufficientBalanceError';
+    this.preflight = preflight;
+  }
+}
+
+/**
+ * Estimates the SUI and WAL a store needs and compares them with the wallet balances
+ */
+export async function preflightStore(
+  sealManager: SealManager,
+  clientConf: ClientConfig,
+  options: StorePreflightOptions
+): Promise<StorePreflight> {
+  const wallet = sealManager.getWallet();
+  const epochs = options.epochs || DEFAULT_EPOCHS;
+
+  // Files larger than the maximum blob size are stored as chunks plus a manifest
+  const estimator = new WalrusCostEstimator(clientConf);
+  let approximate = false;
+  try {
+    await estimator.initialize();
+  } catch (error) {
+    console.warn('Could not get the Walrus info, approximating the storage cost:', error);
+    approximate = true;
+  }
+  const maxBlobSize = estimator.getWalrusInfo()?.sizeInfo.maxBlobSize;
+  const blobSizes = maxBlobSize && options.fileSize > maxBlobSize
+    ? [
+      ...Array(Math.floor(options.fileSize / maxBlobSize)).fill(maxBlobSize),
+      ...(options.fileSize % maxBlobSize ? [options.fileSize % maxBlobSize] : []),
+      MANIFEST_SIZE_ESTIMATE_BYTES,
+    ]
+    : [options.fileSize];
+
+  let storageCost = 0n;
+  for (const size of blobSizes) {
+    const estimation = approximate
+      ? estimateWalrusStorageCost({ unencodedSizeInBytes: size, epochs })
+      : await estimator.estimateForEpochs(size, epochs);
+    storageCost += BigInt(Math.ceil(estimation.estimatedCost));
+  }
+
+  let gasEstimate = BigInt(blobSizes.length) * WALRUS_TRANSACTIONS_PER_BLOB * WALRUS_TRANSACTION_GAS_MIST;
+  if (options.createsWhitelist !== false) {
+    try {
+      gasEstimate += await sealManager.estimateWhitelistCreationGas();
+    } catch (error) {
+      console.warn('Could not dry-run the whitelist creation, using a fixed gas estimate:', error);
+      gasEstimate += WHITELIST_CREATION_GAS_MIST;
+    }
+  }
+
+  const suiClient = wallet.getSuiClient();
+  const owner = wallet.getKeypair().toSuiAddress();
+  const [suiBalance, walBalance] = await Promise.all([
+    suiClient.getBalance({ owner }),
+    suiClient.getBalance({ owner, coinType: wallet.getWalCoinType() }),
+  ]);
+  const available = { sui: BigInt(suiBalance.totalBalance), wal: BigInt(walBalance.totalBalance) };
+
+  const shortfalls: BalanceShortfall[] = [];
+  for (const [coin, needed, availableAmount] of [
+    ['SUI', gasEstimate, available.sui],
+    ['WAL', storageCost, available.wal],
+  ] as const) {
+    if (availableAmount < needed) {
+      shortfalls.push({
+        coin,
+        needed: formatCoinAmount(needed),
+        available: formatCoinAmount(availableAmount),
+        missing: formatCoinAmount(needed - availableAmount),
+      });
+    }
+  }
+
+  return {
+    fileSize: options.fileSize,
+    epochs,
+    blobs: blobSizes.length,
+    needed: { sui: formatCoinAmount(gasEstimate), wal: formatCoinAmount(storageCost) },
+    available: { sui: formatCoinAmount(available.sui), wal: formatCoinAmount(available.wal) },
+    shortfalls,
+    canStore: shortfalls.length === 0,
+    approximate,
+  };
+}
+
+/**
+ * Renders shortfalls as text, such as "WAL: 0.5 needed, 0.2 available (missing 0.3)"
+ */
+export function formatShortfalls(shortfalls: BalanceShortfall[]): string {
+  return shortfalls
+    .map(({ coin, needed, available, missing }) => `${coin}: ${needed} needed, ${available} available (missing ${missing})`)
+    .join(', ');
+}
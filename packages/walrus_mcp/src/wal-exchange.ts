@@ -0,0 +1,110 @@
+import { SuiClient } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+/**
+ * SUI to WAL exchange through the shared Exchange objects of the Walrus wal_exchange
+ * package, listed in the exchange_objects of walrus_client_config.yaml (testnet only).
+ * An exchange gives `sui * rate.wal / rate.sui` WAL for `sui` SUI, rounded down.
+ */
+const WAL_EXCHANGE_MODULE = 'wal_exchange';
+
+/**
+ * Number of WAL units given for a number of SUI units
+ */
+export interface WalExchangeRate {
+  wal: bigint;
+  sui: bigint;
+}
+
+export interface WalExchangeInfo {
+  exchangeId: string;
+  packageId: string;
+  rate: WalExchangeRate;
+  /** WAL left in the exchange, in FROST */
+  walAvailable: bigint;
+}
+
+/**
+ * Gets the SUI (in MIST) to exchange to receive at least an amount of WAL (in FROST)
+ */
+export function getSuiAmountForWal(walAmount: bigint, rate: WalExchangeRate): bigint {
+  return (walAmount * rate.sui + rate.wal - 1n) / rate.wal;
+}
+
+/**
+ * Gets the WAL (in FROST) received for an amount of SUI (in MIST)
+ */
+export function getWalAmountForSui(suiAmount: bigint, rate: WalExchangeRate): bigint {
+  return suiAmount * rate.wal / rate.sui;
+}
+
+/**
+ * Reads the package, rate and WAL balance of an Exchange object
+ */
+export async function getWalExchangeInfo(suiClient: SuiClient, exchangeId: string): Promise<WalExchangeInfo> {
+  const response = await suiClient.getObject({ id: exchangeId, options: { showType: true, showContent: true } });
+  const content = response.data?.content;
+  if (!response.data || content?.dataType !== 'moveObject') {
+    throw new Error(`WAL exchange ${exchangeId} not found`);
+  }
+
+  const [packageId, moduleName] = (response.data.type || content.type).split('::');
+  if (moduleName !== WAL_EXCHANGE_MODULE) {
+    throw new Error(`Object ${exchangeId} is not a WAL exchange`);
+  }
+  const fields = content.fields as any;
+  const rate = fields.rate?.fields ?? fields.rate;
+  if (!rate || BigInt(rate.wal) === 0n || BigInt(rate.sui) === 0n) {
+    throw new Error(`WAL exchange ${exchangeId} has no exchange rate`);
+  }
+
+  return {
+    exchangeId: normalizeSuiAddress(exchangeId),
+    packageId: normalizeSuiAddress(packageId),
+    rate: { wal: BigInt(rate.wal), sui: BigInt(rate.sui) },
+    walAvailable: BigInt(fields.wal ?? 0),
+  };
+}
+
+/**
+ * Finds the first exchange that holds at least an amount of WAL
+ */
+export async function findWalExchange(
+  suiClient: SuiClient,
+  exchangeIds: string[],
+  walAmount: bigint
+): Promise<WalExchangeInfo> {
+  if (exchangeIds.length === 0) {
+    throw new Error('No WAL exchange is configured for this network');
+  }
+
+  const errors: string[] = [];
+  for (const exchangeId of exchangeIds) {
+    try {
+      const exchange = await getWalExchangeInfo(suiClient, exchangeId);
+      if (exchange.walAvailable >= walAmount) {
+        return exchange;
+      }
+      errors.push(`${exchangeId}: only ${exchange.walAvailable} FROST available`);
+    } catch (error: any) {
+      errors.push(error.message);
+    }
+  }
+  throw new Error(`No WAL exchange can provide ${walAmount} FROST (${errors.join('; ')})`);
+}
+
+/**
+ * Builds a transaction exchanging SUI taken from the gas coin for WAL sent to the sender
+ */
+export function buildExchangeTransaction(sender: string, exchange: WalExchangeInfo, suiAmount: bigint): Transaction {
+  const tx = new Transaction();
+  tx.setSender(sender);
+  const [suiCoin] = tx.splitCoins(tx.gas, [suiAmount]);
+  const walCoin = tx.moveCall({
+    target: `${exchange.packageId}::${WAL_EXCHANGE_MODULE}::exchange_all_for_wal`,
+    arguments: [tx.object(exchange.exchangeId), suiCoin],
+  });
+  tx.transferObjects([walCoin], sender);
+  return tx;
+}
@@ -2,30 +2,105 @@ import * as axios from "axios";
 import * as fs from "fs";
 import * as path from "path";
 import * as yaml from "js-yaml";
-import { SuiClient, getFullnodeUrl } from "@mysten/sui/client";
+import { generateMnemonic, validateMnemonic } from "@scure/bip39";
+import { wordlist as english } from "@scure/bip39/wordlists/english";
+import { BalanceChange, CoinStruct, ObjectOwner, SuiClient } from "@mysten/sui/client";
+import { SIGNATURE_SCHEME_TO_FLAG, decodeSuiPrivateKey } from "@mysten/sui/cryptography";
 import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Transaction } from "@mysten/sui/transactions";
 import { MIST_PER_SUI } from "@mysten/sui/utils";
-import { fromBase64 } from "@mysten/sui/utils";
-import { exec } from "child_process";
-import { promisify } from "util";
-
-const execAsync = promisify(exec);
+import { fromBase64, isValidSuiAddress, normalizeSuiAddress, toBase64, toHex } from "@mysten/sui/utils";
+import { validateUserName } from "./command-runner";
+import { getKeystorePassphrase, isWalletSecretEncrypted, readWalletSecret, writeWalletSecret } from "./keystore-encryption";
+import { WalrusSystemObjects, getRpcUrlOverride, getWalCoinType, loadNetworkRegistry, resolveNetworkConfig } from "./network-registry";
+import { WalrusBackend } from "./walrus-backend";
+import { buildExchangeTransaction, findWalExchange, getSuiAmountForWal, getWalAmountForSui } from "./wal-exchange";
 
 export interface ClientConfig {
   suiConfPath: string;
   walrusConfPath: string;
+  /** Overrides the backend selected by WALRUS_BACKEND */
+  walrusBackend?: WalrusBackend;
+  /** Unlocks an encrypted keystore, defaults to WALIA_KEYSTORE_SECRET */
+  passphrase?: string;
 }
 
 
 interface WalletInfo {
   address: string;
-  mnemonic: string;
+  /** Absent for wallets imported from a private key */
+  mnemonic?: string;
   keystore: string;
 }
 
+/**
+ * Secret of an existing wallet to import, either a mnemonic or a suiprivkey private key
+ */
+export interface WalletImportSource {
+  mnemonic?: string;
+  privateKey?: string;
+}
+
 // Valid environment types that can be used
 export type EnvironmentType = 'testnet' | 'mainnet' | 'localnet' | 'devnet';
 
+// SUI and WAL both have 9 decimals
+const COIN_DECIMALS = 9;
+// Environments written to sui_client.yaml, in order
+const SUI_CONFIG_ENVS: EnvironmentType[] = ['testnet', 'localnet', 'mainnet', 'devnet'];
+
+/**
+ * Amounts to transfer, as decimal SUI and WAL strings such as "0.5"
+ */
+export interface TransferAmounts {
+  sui?: string;
+  wal?: string;
+}
+
+/**
+ * Balance change of a transfer, the amount is signed and in MIST/FROST
+ */
+export interface TransferBalanceChange {
+  owner: string;
+  coinType: string;
+  amount: string;
+}
+
+/**
+ * Result of a dry-run or executed transfer
+ */
+export interface TransferResult {
+  sender: string;
+  recipient: string;
+  sui: string;
+  wal: string;
+  network: EnvironmentType;
+  dryRun: boolean;
+  /** Absent for dry runs */
+  digest?: string;
+  /** Computation plus storage cost minus rebate, in MIST */
+  gasUsed: string;
+  balanceChanges: TransferBalanceChange[];
+}
+
+/**
+ * Result of a dry-run or executed SUI to WAL exchange
+ */
+export interface ExchangeWalResult {
+  sender: string;
+  exchangeObject: string;
+  /** SUI spent and WAL received, as decimal strings */
+  sui: string;
+  wal: string;
+  network: EnvironmentType;
+  dryRun: boolean;
+  /** Absent for dry runs */
+  digest?: string;
+  /** Computation plus storage cost minus rebate, in MIST */
+  gasUsed: string;
+  balanceChanges: TransferBalanceChange[];
+}
+
 /**
  * Interface for the Sui keypair information
  */
@@ -35,6 +110,22 @@ export interface SuiKeypairInfo {
   activeEnv: EnvironmentType;
 }
 
+/**
+ * Optional overrides for the clients used by a WalletManagement instance
+ */
+export interface WalletManagementOptions {
+  /** Sui client used instead of the fullnode of the active environment */
+  suiClient?: SuiClient;
+  /** RPC URL used instead of the one of the user's sui_client.yaml, ignored with suiClient */
+  rpcUrl?: string;
+  /** Walrus backend attached to the user environment */
+  walrusBackend?: WalrusBackend;
+  /** Per-user passphrase of an encrypted keystore, defaults to WALIA_KEYSTORE_SECRET */
+  passphrase?: string;
+  /** Coin type of WAL, defaults to the one of the network registry */
+  walCoinType?: string;
+}
+
 /**
  * Class for managing Sui wallet functionality
  */
@@ -44,6 +135,11 @@ export class WalletManagement {
   private activeEnv: EnvironmentType;
   private walletInfo: WalletInfo | null = null;
   private suiClient: SuiClient;
+  private options: WalletManagementOptions;
+  // Unlocked keypair, kept in memory so an encrypted keystore is decrypted only once
+  private keypairInfo: SuiKeypairInfo | null = null;
+  // Wallet creation started by the constructor, awaited by ensureWallet
+  private pendingWallet: Promise<WalletInfo> | null = null;
 
   /**
    * Creates a new WalletManagement instance
@@ -53,20 +149,25 @@ export class WalletManagement {
   constructor(
     userName: string,
     baseDir = path.join(process.cwd(), 'wallets'),
-    activeEnv: EnvironmentType = 'testnet'
+    activeEnv: EnvironmentType = 'testnet',
+    options: WalletManagementOptions = {}
   ) {
-    this.userName = userName;
+    this.userName = validateUserName(userName);
     this.baseDir = baseDir;
     this.activeEnv = activeEnv;
-    this.suiClient = new SuiClient({ url: getFullnodeUrl(this.activeEnv) });
+    this.options = options;
+    this.suiClient = this.createSuiClient();
 
     // Check if wallet exists
     const userDir = path.join(this.baseDir, this.userName);
     console.log(`User directory: ${userDir}`);
     if (!fs.existsSync(userDir)) {
       console.log(`Wallet for ${userName} doesn't exist yet, it will be created on first operation`);
-      this.createWallet();
-      console.log(`Wallet for ${userName} created successfully`);
+      this.pendingWallet = this.createWallet();
+      this.pendingWallet.then(
+        () => console.log(`Wallet for ${userName} created successfully`),
+        (error) => console.error(`Failed to create wallet for ${userName}:`, error)
+      );
     } else {
       // Get the current environment and update if different
       try {
@@ -87,7 +188,8 @@ export class WalletManagement {
    */
   async createWallet(): Promise<WalletInfo> {
     // Use the existing function but with this instance's properties
-    this.walletInfo = await createWalletEnvironment(this.userName, this.baseDir, this.activeEnv);
+    this.walletInfo = await createWalletEnvironment(this.userName, this.baseDir, this.activeEnv, this.options.passphrase);
+    this.keypairInfo = null;
     return this.walletInfo;
   }
 
@@ -95,14 +197,21 @@ export class WalletManagement {
    * Gets user environment configuration files
    */
   getUserEnvironment(): ClientConfig {
-    return getUserEnvironment(this.userName, this.baseDir);
+    const clientConf = getUserEnvironment(this.userName, this.baseDir);
+    if (this.options.walrusBackend) {
+      clientConf.walrusBackend = this.options.walrusBackend;
+    }
+    if (this.options.passphrase) {
+      clientConf.passphrase = this.options.passphrase;
+    }
+    return clientConf;
   }
 
   /**
    * Gets pass phrases for the user's wallet
    */
-  getPassPhrases(): { address: string; mnemonic: string } {
-    return getPassPhrases(this.userName, this.baseDir);
+  getPassPhrases(): { address: string; mnemonic?: string } {
+    return getPassPhrases(this.userName, this.baseDir, this.options.passphrase);
   }
 
   /**
@@ -121,8 +230,10 @@ export class WalletManagement {
     updateSuiConfig(this.userName, updates, this.baseDir);
     if (updates.activeEnv) {
       this.activeEnv = updates.activeEnv;
-      // Update the suiClient to point to the new environment
-      this.suiClient = new SuiClient({ url: getFullnodeUrl(this.activeEnv) });
+    }
+    if (updates.activeEnv || updates.envs) {
+      // Update the suiClient to point to the new environment or RPC URL
+      this.updateSuiClient();
     }
   }
 
@@ -137,7 +248,7 @@ export class WalletManagement {
     if (updates.defaultContext) {
       this.activeEnv = updates.defaultContext;
       // Update the suiClient to point to the new environment
-      this.suiClient = new SuiClient({ url: getFullnodeUrl(this.activeEnv) });
+      this.updateSuiClient();
     }
   }
 
@@ -148,14 +259,36 @@ export class WalletManagement {
     setActiveEnvironment(this.userName, activeEnv, this.baseDir);
     this.activeEnv = activeEnv;
     // Update the suiClient to point to the new environment
-    this.suiClient = new SuiClient({ url: getFullnodeUrl(this.activeEnv) });
+    this.updateSuiClient();
   }
 
   /**
-   * Updates the suiClient to point to a new environment
+   * Updates the suiClient to point to a new environment, unless a client was provided
    */
   private updateSuiClient(): void {
-    this.suiClient = new SuiClient({ url: getFullnodeUrl(this.activeEnv) });
+    this.suiClient = this.createSuiClient();
+  }
+
+  /**
+   * Creates the Sui client of the active environment, connected to the RPC URL override
+   * or to the RPC URL of the environment in the user's sui_client.yaml
+   */
+  private createSuiClient(): SuiClient {
+    if (this.options.suiClient) {
+      return this.options.suiClient;
+    }
+    return new SuiClient({ url: this.getRpcUrl() });
+  }
+
+  /**
+   * Gets the RPC URL of the active environment
+   */
+  getRpcUrl(): string {
+    if (this.options.rpcUrl) {
+      return this.options.rpcUrl;
+    }
+    const suiConfigPath = path.join(this.baseDir, this.userName, 'sui_client.yaml');
+    return getSuiRpcUrl(suiConfigPath, this.activeEnv);
   }
 
   /**
@@ -175,7 +308,7 @@ export class WalletManagement {
       
       const walBalance = await this.suiClient.getBalance({
         owner: walletInfo.address,
-        coinType: '0x8270feb7375eee355e64fdb69c50abb6b5f9393a722883c1cf45f8e26048810a::wal::WAL'
+        coinType: this.getWalCoinType()
       });
 
       const walInDecimal = Number.parseInt(walBalance.totalBalance) / Number(1_000_000_000);
@@ -189,22 +322,179 @@ export class WalletManagement {
     }
   }
 
+  /**
+   * Gets the coin type of WAL tokens
+   */
+  getWalCoinType(): string {
+    return this.options.walCoinType || getWalCoinType(this.activeEnv);
+  }
+
+  /**
+   * Builds a transaction sending SUI and WAL to an address or another managed user
+   */
+  async buildTransferTransaction(recipient: string, amounts: TransferAmounts): Promise<Transaction> {
+    return buildTransferTransaction(
+      this.suiClient,
+      this.getKeypair().toSuiAddress(),
+      resolveRecipientAddress(recipient, this.baseDir),
+      parseCoinAmount(amounts.sui),
+      parseCoinAmount(amounts.wal),
+      this.getWalCoinType()
+    );
+  }
+
   /**
    * Builds and serializes a transaction to send SUI and WAL to another user
+   * @returns The base64 transaction bytes, ready to be signed
    */
   async buildAndSerializeTransaction(
     toUserName: string,
     suiAmount: string,
     walAmount: string
   ): Promise<string> {
-    return buildAndSerializeTransaction(
-      this.userName,
-      toUserName,
-      suiAmount,
-      walAmount,
-      this.baseDir,
-      this.activeEnv
-    );
+    const tx = await this.buildTransferTransaction(toUserName, { sui: suiAmount, wal: walAmount });
+    return toBase64(await tx.build({ client: this.suiClient }));
+  }
+
+  /**
+   * Sends SUI and WAL to an address or another managed user
+   * With dryRun, the transaction is only simulated and nothing is signed
+   */
+  async transfer(
+    recipient: string,
+    amounts: TransferAmounts,
+    options: { dryRun?: boolean } = {}
+  ): Promise<TransferResult> {
+    const sender = this.getKeypair().toSuiAddress();
+    const recipientAddress = resolveRecipientAddress(recipient, this.baseDir);
+    const suiAmount = parseCoinAmount(amounts.sui);
+    const walAmount = parseCoinAmount(amounts.wal);
+    const tx = await buildTransferTransaction(this.suiClient, sender, recipientAddress, suiAmount, walAmount, this.getWalCoinType());
+
+    const dryRun = options.dryRun === true;
+    const execution = await this.executeTransaction(tx, dryRun, 'Transfer');
+    return {
+      sender,
+      recipient: recipientAddress,
+      sui: formatCoinAmount(suiAmount),
+      wal: formatCoinAmount(walAmount),
+      network: this.activeEnv,
+      dryRun,
+      ...execution,
+    };
+  }
+
+  /**
+   * Exchanges SUI for WAL through a WAL exchange of the active network (testnet only)
+   * Give either the WAL to receive, in which case exactly the SUI needed is spent,
+   * or the SUI to spend. With dryRun, the transaction is only simulated.
+   */
+  async exchangeWal(
+    amounts: TransferAmounts,
+    options: { dryRun?: boolean } = {}
+  ): Promise<ExchangeWalResult> {
+    if ((amounts.sui === undefined) === (amounts.wal === undefined)) {
+      throw new Error('Provide either the WAL amount to receive or the SUI amount to spend');
+    }
+    const sender = this.getKeypair().toSuiAddress();
+    const requestedWal = parseCoinAmount(amounts.wal);
+    const requestedSui = parseCoinAmount(amounts.sui);
+    if (requestedWal === 0n && requestedSui === 0n) {
+      throw new Error('Nothing to exchange, the amount must be greater than 0');
+    }
+
+    // Any exchange will do to read the rate when the SUI amount is given
+    const exchangeIds = this.getWalExchangeIds();
+    const exchange = await findWalExchange(this.suiClient, exchangeIds, requestedWal);
+    const suiAmount = requestedSui || getSuiAmountForWal(requestedWal, exchange.rate);
+    const walAmount = getWalAmountForSui(suiAmount, exchange.rate);
+    if (walAmount > exchange.walAvailable) {
+      throw new Error(`WAL exchange ${exchange.exchangeId} only holds ${formatCoinAmount(exchange.walAvailable)} WAL`);
+    }
+
+    const dryRun = options.dryRun === true;
+    const tx = buildExchangeTransaction(sender, exchange, suiAmount);
+    const execution = await this.executeTransaction(tx, dryRun, 'Exchange');
+    return {
+      sender,
+      exchangeObject: exchange.exchangeId,
+      sui: formatCoinAmount(suiAmount),
+      wal: formatCoinAmount(walAmount),
+      network: this.activeEnv,
+      dryRun,
+      ...execution,
+    };
+  }
+
+  /**
+   * Exchanges exactly the SUI needed to hold at least an amount of WAL
+   * @param requiredWal WAL needed, in FROST
+   * @returns The exchange made, or null when the WAL balance already covers the amount
+   */
+  async topUpWal(requiredWal: bigint, options: { dryRun?: boolean } = {}): Promise<ExchangeWalResult | null> {
+    const { totalBalance } = await this.suiClient.getBalance({
+      owner: this.getKeypair().toSuiAddress(),
+      coinType: this.getWalCoinType(),
+    });
+    const shortfall = requiredWal - BigInt(totalBalance);
+    if (shortfall <= 0n) {
+      return null;
+    }
+    return this.exchangeWal({ wal: formatCoinAmount(shortfall) }, options);
+  }
+
+  /**
+   * Gets the WAL exchange objects of the active environment, from the user's Walrus
+   * config or else from the network registry
+   */
+  getWalExchangeIds(): string[] {
+    const walrusConfigPath = path.join(this.baseDir, this.userName, 'walrus_client_config.yaml');
+    if (fs.existsSync(walrusConfigPath)) {
+      const walrusConfig = yaml.load(fs.readFileSync(walrusConfigPath, 'utf8')) as any;
+      const exchangeObjects = walrusConfig?.contexts?.[this.activeEnv]?.exchange_objects;
+      if (Array.isArray(exchangeObjects) && exchangeObjects.length > 0) {
+        return exchangeObjects;
+      }
+    }
+    return resolveNetworkConfig(this.activeEnv).walrus.exchangeObjects;
+  }
+
+  /**
+   * Signs and executes a transaction of the user, or only simulates it with dryRun
+   * @param label Name of the operation in the error of a failed transaction
+   */
+  private async executeTransaction(
+    tx: Transaction,
+    dryRun: boolean,
+    label: string
+  ): Promise<{ digest?: string; gasUsed: string; balanceChanges: TransferBalanceChange[] }> {
+    const result = dryRun
+      ? await this.suiClient.dryRunTransactionBlock({ transactionBlock: await tx.build({ client: this.suiClient }) })
+      : await this.suiClient.signAndExecuteTransaction({
+        transaction: tx,
+        signer: this.getKeypair(),
+        options: {
+          showEffects: true,
+          showBalanceChanges: true,
+        },
+      });
+
+    if (result.effects?.status.status !== 'success') {
+      throw new Error(`${label} failed: ${result.effects?.status.error}`);
+    }
+    const digest = 'digest' in result ? result.digest : undefined;
+    if (digest) {
+      await this.suiClient.waitForTransaction({ digest });
+    }
+
+    const gasUsed = result.effects.gasUsed;
+    return {
+      digest,
+      gasUsed: gasUsed
+        ? (BigInt(gasUsed.computationCost) + BigInt(gasUsed.storageCost) - BigInt(gasUsed.storageRebate)).toString()
+        : '0',
+      balanceChanges: (result.balanceChanges || []).map(toTransferBalanceChange),
+    };
   }
 
   /**
@@ -227,6 +517,14 @@ export class WalletManagement {
    */
   async ensureWallet(): Promise<WalletInfo> {
     const userDir = path.join(this.baseDir, this.userName);
+
+    if (this.pendingWallet) {
+      try {
+        return await this.pendingWallet;
+      } finally {
+        this.pendingWallet = null;
+      }
+    }
     
     if (!fs.existsSync(userDir)) {
       return this.createWallet();
@@ -329,7 +627,9 @@ export class WalletManagement {
    */
   readSuiKeypair(): SuiKeypairInfo {
     const suiConfigPath = path.join(this.getWalletDirectory(), 'sui_client.yaml');
-    return readSuiKeypair(suiConfigPath);
+    const keypairInfo = readSuiKeypair(suiConfigPath, this.options.passphrase);
+    this.keypairInfo = keypairInfo;
+    return keypairInfo;
   }
 
   /**
@@ -337,7 +637,7 @@ export class WalletManagement {
    * @returns The Ed25519 keypair
    */
   getKeypair(): Ed25519Keypair {
-    return this.readSuiKeypair().keypair;
+    return (this.keypairInfo || this.readSuiKeypair()).keypair;
   }
 
   /**
@@ -408,190 +708,181 @@ async function fetchLatestWalrusConfig(
       `Parameters: suiConfigPath="${suiConfigPath}", address="${address}", activeEnv="${activeEnv}"`
     );
     
-    // Fallback config (in case the API request fails)
-    return {
-      contexts: {
-        testnet: {
-          system_object: '0x6c2547cbbc38025cf3adac45f63cb0a8d12ecf777cdc75a4971612bf97fdf6af',
-          staking_object: '0xbe46180321c30aab2f8b3501e24048377287fa708018a5b7c2792b35fe339ee3',
-          subsidies_object: '0xda799d85db0429765c8291c594d334349ef5bc09220e79ad397b30106161a0af',
-          exchange_objects: [
-            '0xf4d164ea2def5fe07dc573992a029e010dba09b1a8dcbc44c5c2e79567f39073',
-            '0x19825121c52080bb1073662231cfea5c0e4d905fd13e95f21e9a018f2ef41862',
-            '0x83b454e524c71f30803f4d6c302a86fb6a39e96cdfb873c2d1e93bc1c26a3bc5',
-            '0x8d63209cf8589ce7aef8f262437163c67577ed09f3e636a9d8e0813843fb8bf1'
-          ],
-          wallet_config: {
-            path: suiConfigPath,
-            active_env: 'testnet',
-            active_address: address
-          }
-        },
-        mainnet: {
-          system_object: '0x2134d52768ea07e8c43570ef975eb3e4c27a39fa6396bef985b5abc58d03ddd2',
-          staking_object: '0x10b9d30c28448939ce6c4d6c6e0ffce4a7f8a4ada8248bdad09ef8b70e4a3904',
-          subsidies_object: '0xb606eb177899edc2130c93bf65985af7ec959a2755dc126c953755e59324209e',
-          exchange_objects: [],
-          wallet_config: {
-            path: suiConfigPath,
-            active_env: 'mainnet',
-            active_address: address
-          }
-        },
-        devnet: {
-          system_object: '0x5',
-          staking_object: '0x6',
-          subsidies_object: '0x7',
-          exchange_objects: [],
-          wallet_config: {
-            path: suiConfigPath,
-            active_env: 'devnet',
-            active_address: address
-          }
-        },
-        localnet: {
-          system_object: '0x8',
-          staking_object: '0x9',
-          subsidies_object: '0xa',
-          exchange_objects: [],
-          wallet_config: {
-            path: suiConfigPath,
-            active_env: 'localnet',
-            active_address: address
-          }
+    // Fallback config (in case the API request fails), with the objects of the network registry
+    const networks = loadNetworkRegistry();
+    const contexts: Record<string, any> = {};
+    for (const env of Object.keys(networks) as EnvironmentType[]) {
+      contexts[env] = {
+        ...toWalrusContext(networks[env].walrus),
+        wallet_config: {
+          path: suiConfigPath,
+          active_env: env,
+          active_address: address
         }
-      },
+      };
+    }
+    return {
+      contexts,
       default_context: activeEnv
     };
   }
 }
 
 /**
- * Create a wallet environment for a user
+ * Create a wallet environment for a user with a freshly generated ed25519 keypair
  */
 export async function createWalletEnvironment(
   userName: string, 
   baseDir = path.join(process.cwd(), 'wallets'),
-  activeEnv: EnvironmentType = 'testnet'
+  activeEnv: EnvironmentType = 'testnet',
+  passphrase?: string
 ): Promise<WalletInfo> {
-  // Create user directory
-  const userDir = path.join(baseDir, userName);
-  if (!fs.existsSync(userDir)) {
-    fs.mkdirSync(userDir, { recursive: true });
+  try {
+    // Generate the mnemonic and keypair in-process, as `sui keytool generate ed25519` would
+    const mnemonic = generateMnemonic(english);
+    const keypair = Ed25519Keypair.deriveKeypair(mnemonic);
+    return await writeWalletEnvironment(userName, baseDir, activeEnv, keypair, mnemonic, passphrase);
+  } catch (error: any) {
+    console.error('Error generating keypair:', error);
+    throw new Error(`Failed to create wallet environment: ${error.message}`);
   }
+}
 
-  // Generate keypair using Sui keytool CLI
-  try {
-    // Store current directory
-    const currentDir = process.cwd();
-    
-    // Generate ed25519 keypair with JSON output
-    const { stdout } = await execAsync('sui keytool generate ed25519 --json');
-    
-    // Parse the JSON output
-    const keyInfo = JSON.parse(stdout);
-    
-    // Extract key information
-    const address = keyInfo.suiAddress;
-    const mnemonic = keyInfo.mnemonic;
-    
-    // Set the path for the keystore
-    const keystorePath = path.join(userDir, 'sui.keystore');
-    
-    // Import the generated mnemonic into a keystore file using the correct format
-    // Use a unique alias to avoid conflicts with global keystore
-    const uniqueAlias = `${userName}_${Date.now()}`;
-    await execAsync(`sui keytool --keystore-path "${keystorePath}" import "${mnemonic}" ed25519 --alias "${uniqueAlias}"`);
-    console.log(`Created keystore at: ${keystorePath}`);
-    
-    // Find and delete any .key files that were created during the keytool generate command
-    // Check both the current directory and the user directory
-    const keyFileInCurrentDir = path.join(currentDir, `${address}.key`);
-    const keyFileInUserDir = path.join(userDir, `${address}.key`);
-    
-    // Delete the key file from current directory if it exists
-    if (fs.existsSync(keyFileInCurrentDir)) {
-      fs.unlinkSync(keyFileInCurrentDir);
-      console.log(`Deleted key file: ${keyFileInCurrentDir}`);
+/**
+ * Import an existing wallet for a user from a mnemonic or a suiprivkey private key,
+ * with the same layout as createWalletEnvironment
+ */
+export async function importWallet(
+  userName: string,
+  source: WalletImportSource,
+  baseDir = path.join(process.cwd(), 'wallets'),
+  activeEnv: EnvironmentType = 'testnet',
+  passphrase?: string
+): Promise<WalletInfo> {
+  if (!source.mnemonic === !source.privateKey) {
+    throw new Error('Exactly one of mnemonic or privateKey is required');
+  }
+
+  const suiConfigPath = path.join(baseDir, validateUserName(userName), 'sui_client.yaml');
+  if (fs.existsSync(suiConfigPath)) {
+    throw new Error(`Wallet already exists for ${userName}`);
+  }
+
+  let keypair: Ed25519Keypair;
+  let mnemonic: string | undefined;
+  if (source.mnemonic) {
+    mnemonic = source.mnemonic.trim().toLowerCase().split(/\s+/).join(' ');
+    if (!validateMnemonic(mnemonic, english)) {
+      throw new Error('Invalid mnemonic');
     }
-    
-    // Delete the key file from user directory if it exists
-    if (fs.existsSync(keyFileInUserDir)) {
-      fs.unlinkSync(keyFileInUserDir);
-      console.log(`Deleted key file: ${keyFileInUserDir}`);
+    keypair = Ed25519Keypair.deriveKeypair(mnemonic);
+  } else {
+    let decoded: ReturnType<typeof decodeSuiPrivateKey>;
+    try {
+      decoded = decodeSuiPrivateKey(source.privateKey!.trim());
+    } catch {
+      throw new Error('Invalid private key, expected a suiprivkey encoded key');
     }
-    
-    // Save the keypair info to a JSON file in the same directory for reference
-    const keypairPath = path.join(userDir, 'keypair.json');
-    fs.writeFileSync(keypairPath, JSON.stringify(keyInfo, null, 2));
-
-    // Create sui_client.yaml
-    const suiConfig = {
-      keystore: {
-        File: keystorePath
-      },
-      envs: [
-        {
-          alias: 'testnet',
-          rpc: 'https://fullnode.testnet.sui.io:443',
-          ws: null,
-          basic_auth: null
-        },
-        {
-          alias: 'localnet',
-          rpc: 'http://127.0.0.1:9000',
-          ws: null,
-          basic_auth: null
-        },
-        {
-          alias: 'mainnet',
-          rpc: 'https://fullnode.mainnet.sui.io:443',
-          ws: null,
-          basic_auth: null
-        },
-        {
-          alias: 'devnet',
-          rpc: 'https://fullnode.devnet.sui.io:443',
-          ws: null,
-          basic_auth: null
-        }
-      ],
-      active_env: activeEnv,
-      active_address: address
-    };
-    
-    const suiConfigPath = path.join(userDir, 'sui_client.yaml');
-    fs.writeFileSync(suiConfigPath, yaml.dump(suiConfig, { 
-      quotingType: '"',
-      forceQuotes: false,
-      flowLevel: -1,
-      lineWidth: -1
-    }));
-
-    // Fetch the latest Walrus config instead of using hardcoded values
-    const walrusConfig = await fetchLatestWalrusConfig(suiConfigPath, address, activeEnv);
-    
-    const walrusConfigPath = path.join(userDir, 'walrus_client_config.yaml');
-    fs.writeFileSync(walrusConfigPath, yaml.dump(walrusConfig, { quotingType: '"' }));
-
-    // Log the created files for verification
-    console.log(`Wallet environment created for ${userName}:`);
-    console.log(`- Keystore file: ${keystorePath}`);
-    console.log(`- Keypair info: ${keypairPath}`);
-    console.log(`- Sui config: ${suiConfigPath}`);
-    console.log(`- Walrus config: ${walrusConfigPath}`);
+    if (decoded.schema !== 'ED25519') {
+      throw new Error(`Only ed25519 private keys are supported, got ${decoded.schema}`);
+    }
+    keypair = Ed25519Keypair.fromSecretKey(decoded.secretKey);
+  }
 
-    return {
-      address,
-      mnemonic,
-      keystore: keystorePath
-    };
+  try {
+    return await writeWalletEnvironment(userName, baseDir, activeEnv, keypair, mnemonic, passphrase);
   } catch (error: any) {
-    console.error('Error generating keypair:', error);
-    throw new Error(`Failed to create wallet environment: ${error.message}`);
+    throw new Error(`Failed to import wallet: ${error.message}`);
   }
 }
 
+/**
+ * Writes the keystore, keypair.json, sui_client.yaml and walrus_client_config.yaml
+ * of a wallet for a keypair
+ */
+async function writeWalletEnvironment(
+  userName: string,
+  baseDir: string,
+  activeEnv: EnvironmentType,
+  keypair: Ed25519Keypair,
+  mnemonic: string | undefined,
+  passphrase?: string
+): Promise<WalletInfo> {
+  // Create user directory
+  const userDir = path.join(baseDir, validateUserName(userName));
+  if (!fs.existsSync(userDir)) {
+    fs.mkdirSync(userDir, { recursive: true });
+  }
+
+  const address = keypair.getPublicKey().toSuiAddress();
+  const secretPassphrase = getKeystorePassphrase(passphrase);
+
+  // Keystore entries are base64 of the scheme flag followed by the secret key,
+  // the format read by the sui and walrus CLIs. With a passphrase, secrets are encrypted at rest.
+  const keystorePath = path.join(userDir, 'sui.keystore');
+  const { secretKey } = decodeSuiPrivateKey(keypair.getSecretKey());
+  const keystoreEntry = toBase64(Uint8Array.from([SIGNATURE_SCHEME_TO_FLAG.ED25519, ...secretKey]));
+  writeWalletSecret(keystorePath, JSON.stringify([keystoreEntry], null, 2), secretPassphrase);
+  console.log(`Created keystore at: ${keystorePath}`);
+
+  // Save the keypair info in the format of `sui keytool generate --json` for reference,
+  // without a mnemonic for keys imported from a private key
+  const keyInfo = {
+    alias: null,
+    suiAddress: address,
+    publicBase64Key: keypair.getPublicKey().toSuiPublicKey(),
+    keyScheme: 'ed25519',
+    flag: SIGNATURE_SCHEME_TO_FLAG.ED25519,
+    mnemonic,
+    peerId: toHex(keypair.getPublicKey().toRawBytes()),
+  };
+  const keypairPath = path.join(userDir, 'keypair.json');
+  writeWalletSecret(keypairPath, JSON.stringify(keyInfo, null, 2), secretPassphrase);
+
+  // Create sui_client.yaml with the RPC URLs of the network registry
+  const networks = loadNetworkRegistry();
+  const suiConfig = {
+    keystore: {
+      File: keystorePath
+    },
+    envs: SUI_CONFIG_ENVS.map(alias => ({
+      alias,
+      rpc: networks[alias].rpcUrl,
+      ws: null,
+      basic_auth: null
+    })),
+    active_env: activeEnv,
+    active_address: address
+  };
+  
+  const suiConfigPath = path.join(userDir, 'sui_client.yaml');
+  fs.writeFileSync(suiConfigPath, yaml.dump(suiConfig, { 
+    quotingType: '"',
+    forceQuotes: false,
+    flowLevel: -1,
+    lineWidth: -1
+  }));
+
+  // Fetch the latest Walrus config instead of using hardcoded values
+  const walrusConfig = await fetchLatestWalrusConfig(suiConfigPath, address, activeEnv);
+  
+  const walrusConfigPath = path.join(userDir, 'walrus_client_config.yaml');
+  fs.writeFileSync(walrusConfigPath, yaml.dump(walrusConfig, { quotingType: '"' }));
+
+  // Log the created files for verification
+  console.log(`Wallet environment created for ${userName}:`);
+  console.log(`- Keystore file: ${keystorePath}`);
+  console.log(`- Keypair info: ${keypairPath}`);
+  console.log(`- Sui config: ${suiConfigPath}`);
+  console.log(`- Walrus config: ${walrusConfigPath}`);
+
+  return {
+    address,
+    mnemonic,
+    keystore: keystorePath
+  };
+}
+
 /**
  * Get user environment configuration files
  */
@@ -623,8 +914,9 @@ export function getUserEnvironment(
  */
 export function getPassPhrases(
   userName: string, 
-  baseDir = path.join(process.cwd(), 'wallets')
-): { address: string; mnemonic: string } {
+  baseDir = path.join(process.cwd(), 'wallets'),
+  passphrase?: string
+): { address: string; mnemonic?: string } {
   const userDir = path.join(baseDir, userName);
   const keypairPath = path.join(userDir, 'keypair.json');
   
@@ -633,10 +925,10 @@ export function getPassPhrases(
   }
   
   try {
-    const keypairContent = fs.readFileSync(keypairPath, 'utf8');
+    const keypairContent = readWalletSecret(keypairPath, passphrase);
     const keypairInfo = JSON.parse(keypairContent);
     
-    if (!keypairInfo.suiAddress || !keypairInfo.mnemonic) {
+    if (!keypairInfo.suiAddress) {
       throw new Error(`Invalid keypair file format for ${userName}`);
     }
     
@@ -748,9 +1040,6 @@ export function setActiveEnvironment(
   activeEnv: EnvironmentType,
   baseDir = path.join(process.cwd(), 'wallets')
 ): void {
-  // Get user's address
-  const { address } = getPassPhrases(userName, baseDir);
-  
   // Update Sui config
   updateSuiConfig(userName, { activeEnv }, baseDir);
   
@@ -785,7 +1074,7 @@ export async function getBalance(
     const env = activeEnv || getSuiActiveEnvironment(userName, baseDir);
     
     // Create a SuiClient pointing to the active network
-    const suiClient = new SuiClient({ url: getFullnodeUrl(env) });
+    const suiClient = new SuiClient({ url: getSuiRpcUrl(path.join(userDir, 'sui_client.yaml'), env) });
     
     // Get SUI balance
     const suiBalance = await suiClient.getBalance({
@@ -798,7 +1087,7 @@ export async function getBalance(
     // WAL balance would need to be fetched separately - implementing placeholder
     const walBalance = await suiClient.getBalance({
       owner: address,
-      coinType: '0x8270feb7375eee355e64fdb69c50abb6b5f9393a722883c1cf45f8e26048810a::wal::WAL'
+      coinType: getWalCoinType(env)
     });
     
     const walInDecimal = Number.parseInt(walBalance.totalBalance) / Number(1_000_000_000);
@@ -815,7 +1104,7 @@ export async function getBalance(
 
 /**
  * Builds and serializes a transaction to send SUI and WAL to a user's wallet
- * Mock implementation for demonstration purposes
+ * @returns The base64 transaction bytes, ready to be signed by the sender
  */
 export async function buildAndSerializeTransaction(
   fromUserName: string,
@@ -842,22 +1131,149 @@ export async function buildAndSerializeTransaction(
     setActiveEnvironment(fromUserName, activeEnv, baseDir);
   }
   
-  // Get user addresses
-  const fromUserPassPhrases = getPassPhrases(fromUserName, baseDir);
-  const toUserPassPhrases = getPassPhrases(toUserName, baseDir);
-  
-  // Mock transaction object
-  const mockTransaction = {
-    sender: fromUserPassPhrases.address,
-    recipient: toUserPassPhrases.address,
-    suiAmount,
-    walAmount,
-    timestamp: new Date().toISOString(),
-    network: activeEnv || getSuiActiveEnvironment(fromUserName, baseDir)
+  const wallet = new WalletManagement(fromUserName, baseDir, activeEnv || getSuiActiveEnvironment(fromUserName, baseDir));
+  return wallet.buildAndSerializeTransaction(toUserName, suiAmount, walAmount);
+}
+
+/**
+ * Parses a decimal SUI or WAL amount into MIST/FROST, an absent amount is zero
+ */
+export function parseCoinAmount(amount?: string | number): bigint {
+  if (amount === undefined || amount === null || amount === '') {
+    return 0n;
+  }
+  const value = String(amount).trim();
+  const match = value.match(/^(\d+)(?:\.(\d+))?$/);
+  if (!match || (match[2] && match[2].length > COIN_DECIMALS)) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+  const fraction = (match[2] || '').padEnd(COIN_DECIMALS, '0');
+  return BigInt(match[1]) * 10n ** BigInt(COIN_DECIMALS) + BigInt(fraction);
+}
+
+/**
+ * Formats an amount in MIST/FROST as a decimal SUI or WAL string
+ */
+export function formatCoinAmount(amount: bigint): string {
+  const unit = 10n ** BigInt(COIN_DECIMALS);
+  const fraction = (amount % unit).toString().padStart(COIN_DECIMALS, '0').replace(/0+$/, '');
+  return fraction ? `${amount / unit}.${fraction}` : (amount / unit).toString();
+}
+
+/**
+ * Resolves a transfer recipient, either a Sui address or the name of a managed user
+ */
+function resolveRecipientAddress(recipient: string, baseDir: string): string {
+  if (recipient.startsWith('0x')) {
+    if (!isValidSuiAddress(recipient)) {
+      throw new Error(`Invalid Sui address: ${recipient}`);
+    }
+    return normalizeSuiAddress(recipient);
+  }
+
+  const userDir = path.join(baseDir, validateUserName(recipient));
+  if (!fs.existsSync(userDir)) {
+    throw new Error(`User directory does not exist for ${recipient}`);
+  }
+  // Read the address from the Sui config, which is never encrypted
+  const suiConfigPath = path.join(userDir, 'sui_client.yaml');
+  const suiConfig = fs.existsSync(suiConfigPath) ? yaml.load(fs.readFileSync(suiConfigPath, 'utf8')) as any : undefined;
+  if (!suiConfig?.active_address) {
+    throw new Error(`No active address found for ${recipient}`);
+  }
+  return normalizeSuiAddress(suiConfig.active_address);
+}
+
+/**
+ * Builds a transaction that splits SUI from the gas coin and WAL from the sender's
+ * WAL coins, and transfers both to the recipient
+ */
+async function buildTransferTransaction(
+  suiClient: SuiClient,
+  sender: string,
+  recipient: string,
+  suiAmount: bigint,
+  walAmount: bigint,
+  walCoinType: string
+): Promise<Transaction> {
+  if (suiAmount === 0n && walAmount === 0n) {
+    throw new Error('Nothing to transfer, provide a SUI or WAL amount');
+  }
+  if (normalizeSuiAddress(sender) === recipient) {
+    throw new Error('Cannot transfer to the sender address');
+  }
+
+  const tx = new Transaction();
+  tx.setSender(sender);
+  const coins = [];
+
+  if (suiAmount > 0n) {
+    const [suiCoin] = tx.splitCoins(tx.gas, [suiAmount]);
+    coins.push(suiCoin);
+  }
+
+  if (walAmount > 0n) {
+    const walCoins = (await selectCoins(suiClient, sender, walCoinType, walAmount))
+      .map(coin => tx.objectRef({ objectId: coin.coinObjectId, version: coin.version, digest: coin.digest }));
+    const [primaryCoin, ...otherCoins] = walCoins;
+    if (otherCoins.length > 0) {
+      tx.mergeCoins(primaryCoin, otherCoins);
+    }
+    const [walCoin] = tx.splitCoins(primaryCoin, [walAmount]);
+    coins.push(walCoin);
+  }
+
+  tx.transferObjects(coins, recipient);
+  return tx;
+}
+
+/**
+ * Selects coins of a type owned by an address until their balance covers the amount
+ */
+async function selectCoins(suiClient: SuiClient, owner: string, coinType: string, amount: bigint): Promise<CoinStruct[]> {
+  const selected: CoinStruct[] = [];
+  let total = 0n;
+  let cursor: string | null | undefined = undefined;
+
+  do {
+    const page = await suiClient.getCoins({ owner, coinType, cursor });
+    for (const coin of page.data) {
+      selected.push(coin);
+      total += BigInt(coin.balance);
+      if (total >= amount) {
+        return selected;
+      }
+    }
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+
+  throw new Error(`Insufficient balance of ${coinType}: ${formatCoinAmount(total)} < ${formatCoinAmount(amount)}`);
+}
+
+function toTransferBalanceChange(change: BalanceChange): TransferBalanceChange {
+  return {
+    owner: ownerAddress(change.owner),
+    coinType: change.coinType,
+    amount: change.amount,
   };
-  
-  // Return serialized transaction
-  return JSON.stringify(mockTransaction);
+}
+
+function ownerAddress(owner: ObjectOwner): string {
+  if (typeof owner === 'object' && 'AddressOwner' in owner) {
+    return owner.AddressOwner;
+  }
+  if (typeof owner === 'object' && 'ObjectOwner' in owner) {
+    return owner.ObjectOwner;
+  }
+  return JSON.stringify(owner);
+}
+
+/**
+ * Gets the active environment of the Sui config of a client configuration
+ */
+export function getClientEnvironment(clientConf: ClientConfig): EnvironmentType {
+  const suiConfig = yaml.load(fs.readFileSync(clientConf.suiConfPath, 'utf8')) as any;
+  return suiConfig.active_env as EnvironmentType;
 }
 
 /**
@@ -883,6 +1299,28 @@ export function getSuiActiveEnvironment(
   return suiConfig.active_env as EnvironmentType;
 }
 
+/**
+ * Gets the RPC URL of an environment: the WALIA_RPC_URL_<NETWORK> override, else the
+ * `rpc` of the environment alias in the `envs` of sui_client.yaml, else the network registry
+ */
+export function getSuiRpcUrl(suiClientConfPath: string, env: EnvironmentType): string {
+  const override = getRpcUrlOverride(env);
+  if (override) {
+    return override;
+  }
+
+  if (fs.existsSync(suiClientConfPath)) {
+    const suiConfig = yaml.load(fs.readFileSync(suiClientConfPath, 'utf8')) as any;
+    const envConfig = Array.isArray(suiConfig?.envs)
+      ? suiConfig.envs.find((entry: any) => entry?.alias === env)
+      : undefined;
+    if (typeof envConfig?.rpc === 'string' && envConfig.rpc) {
+      return envConfig.rpc;
+    }
+  }
+  return resolveNetworkConfig(env).rpcUrl;
+}
+
 /**
  * Checks if the Walrus config has been updated from the official source and updates it in all user wallets
  * Preserves the wallet_config block in each user's config
@@ -992,11 +1430,13 @@ export async function checkAndUpdateWalrusConfig(
 }
 
 /**
- * Reads the keypair information from the sui client configuration file
+ * Reads the keypair information from the sui client configuration file.
+ * An encrypted keystore is only decrypted in memory.
  * @param suiClientConfPath Path to the sui client configuration file
+ * @param passphrase Passphrase of an encrypted keystore, defaults to WALIA_KEYSTORE_SECRET
  * @returns The keypair, active address, and active environment
  */
-export function readSuiKeypair(suiClientConfPath: string): SuiKeypairInfo {
+export function readSuiKeypair(suiClientConfPath: string, passphrase?: string): SuiKeypairInfo {
   const suiConfig = yaml.load(fs.readFileSync(suiClientConfPath, 'utf8')) as any;
   const activeEnv = suiConfig.active_env as EnvironmentType;
   const activeAddress = suiConfig.active_address;
@@ -1004,7 +1444,7 @@ export function readSuiKeypair(suiClientConfPath: string): SuiKeypairInfo {
 
   try {
     // Load keypair from keystore file
-    const keystoreContent = fs.readFileSync(keystore, 'utf8');
+    const keystoreContent = readWalletSecret(keystore, passphrase);
     const keystoreData = JSON.parse(keystoreContent);
 
     let keypair: Ed25519Keypair | undefined = undefined;
@@ -1033,6 +1473,139 @@ export function readSuiKeypair(suiClientConfPath: string): SuiKeypairInfo {
   }
 }
 
+/**
+ * Encrypts the keystore and keypair.json of a wallet that still stores them in plaintext
+ * @returns Whether any file was encrypted
+ */
+export function encryptWalletSecrets(
+  userName: string,
+  passphrase: string,
+  baseDir = path.join(process.cwd(), 'wallets')
+): boolean {
+  const userDir = path.join(baseDir, validateUserName(userName));
+  const suiConfigPath = path.join(userDir, 'sui_client.yaml');
+  if (!fs.existsSync(suiConfigPath)) {
+    throw new Error(`Sui configuration file missing for ${userName}`);
+  }
+
+  const suiConfig = yaml.load(fs.readFileSync(suiConfigPath, 'utf8')) as any;
+  const secretPaths = [suiConfig.keystore.File, path.join(userDir, 'keypair.json')]
+    .filter(secretPath => fs.existsSync(secretPath) && !isWalletSecretEncrypted(secretPath));
+
+  // Check that the passphrase unlocks the wallet before encrypting the rest of it
+  readSuiKeypair(suiConfigPath, passphrase);
+  for (const secretPath of secretPaths) {
+    writeWalletSecret(secretPath, fs.readFileSync(secretPath, 'utf8'), passphrase);
+  }
+  return secretPaths.length > 0;
+}
+
+/**
+ * Lists the users of a wallets directory, those with a sui_client.yaml
+ */
+export function listManagedUsers(baseDir = path.join(process.cwd(), 'wallets')): string[] {
+  if (!fs.existsSync(baseDir)) {
+    return [];
+  }
+  return fs.readdirSync(baseDir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && fs.existsSync(path.join(baseDir, entry.name, 'sui_client.yaml')))
+    .map(entry => entry.name)
+    .sort();
+}
+
+/**
+ * Encrypts the secrets of every plaintext wallet in a wallets directory
+ */
+export function encryptAllWalletSecrets(
+  passphrase: string,
+  baseDir = path.join(process.cwd(), 'wallets')
+): { encrypted: string[]; skipped: string[]; failed: Array<{ userName: string; error: string }> } {
+  const result = { encrypted: [] as string[], skipped: [] as string[], failed: [] as Array<{ userName: string; error: string }> };
+  for (const userName of listManagedUsers(baseDir)) {
+    try {
+      if (encryptWalletSecrets(userName, passphrase, baseDir)) {
+        result.encrypted.push(userName);
+      } else {
+        result.skipped.push(userName);
+      }
+    } catch (error: any) {
+      result.failed.push({ userName, error: error.message });
+    }
+  }
+  return result;
+}
+
+// Directories of unlocked configs are named after the process that created them, so that
+// those left behind by a process that died can be told from those still in use
+const UNLOCKED_CONFIG_PREFIX = 'walia-wallet-';
+
+/**
+ * Makes a sui client config usable by external tools such as the walrus CLI, which
+ * cannot read an encrypted keystore. For an encrypted keystore, the keystore is
+ * decrypted into a temporary directory of the wallet directory, readable only by its
+ * owner, that cleanup removes. The plaintext key is on disk until then.
+ */
+export function createUnlockedSuiConfig(
+  suiClientConfPath: string,
+  passphrase?: string
+): { suiConfPath: string; cleanup: () => void } {
+  // A missing config is left for the external tool to report
+  const suiConfig = fs.existsSync(suiClientConfPath) ? yaml.load(fs.readFileSync(suiClientConfPath, 'utf8')) as any : undefined;
+  if (!suiConfig?.keystore?.File || !isWalletSecretEncrypted(suiConfig.keystore.File)) {
+    return { suiConfPath: suiClientConfPath, cleanup: () => {} };
+  }
+
+  const keystoreContent = readWalletSecret(suiConfig.keystore.File, passphrase);
+  const tempDir = fs.mkdtempSync(path.join(path.dirname(suiClientConfPath), `${UNLOCKED_CONFIG_PREFIX}${process.pid}-`));
+  const cleanup = () => fs.rmSync(tempDir, { recursive: true, force: true });
+  try {
+    fs.chmodSync(tempDir, 0o700);
+    const keystorePath = path.join(tempDir, 'sui.keystore');
+    fs.writeFileSync(keystorePath, keystoreContent, { mode: 0o600 });
+    const suiConfPath = path.join(tempDir, 'sui_client.yaml');
+    fs.writeFileSync(suiConfPath, yaml.dump({ ...suiConfig, keystore: { File: keystorePath } }), { mode: 0o600 });
+    return { suiConfPath, cleanup };
+  } catch (error) {
+    cleanup();
+    throw error;
+  }
+}
+
+/**
+ * Removes the unlocked configs that processes which died before their cleanup left in
+ * the wallet directories. Configs of running processes are kept.
+ * @returns The directories removed
+ */
+export function removeStaleUnlockedConfigs(baseDir = path.join(process.cwd(), 'wallets')): string[] {
+  const removed: string[] = [];
+  for (const userName of listManagedUsers(baseDir)) {
+    const userDir = path.join(baseDir, userName);
+    for (const entry of fs.readdirSync(userDir, { withFileTypes: true })) {
+      // Named after the PID of the process that unlocked the keystore
+      const pid = Number(entry.name.slice(UNLOCKED_CONFIG_PREFIX.length).split('-')[0]);
+      if (entry.isDirectory() && entry.name.startsWith(UNLOCKED_CONFIG_PREFIX) && !isProcessRunning(pid)) {
+        const staleDir = path.join(userDir, entry.name);
+        fs.rmSync(staleDir, { recursive: true, force: true });
+        removed.push(staleDir);
+      }
+    }
+  }
+  return removed;
+}
+
+function isProcessRunning(pid: number): boolean {
+  if (!Number.isInteger(pid) || pid <= 0) {
+    return false;
+  }
+  try {
+    // Signal 0 only checks that the process exists
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    return error.code === 'EPERM';
+  }
+}
+
 /**
  * Helper function to transform a Walrus config to ensure all object IDs are properly stored
  * as hex strings with 0x prefix
@@ -1043,54 +1616,31 @@ function sanitizeWalrusConfig(config: any): any {
   // Create a deep copy to avoid modifying the original
   const sanitizedConfig = JSON.parse(JSON.stringify(config));
   
-  // Default definitions for well-known object IDs
-  const defaultObjectIds = {
-    mainnet: {
-      system_object: '0x2134d52768ea07e8c43570ef975eb3e4c27a39fa6396bef985b5abc58d03ddd2',
-      staking_object: '0x10b9d30c28448939ce6c4d6c6e0ffce4a7f8a4ada8248bdad09ef8b70e4a3904',
-      subsidies_object: '0xb606eb177899edc2130c93bf65985af7ec959a2755dc126c953755e59324209e',
-      exchange_objects: []
-    },
-    testnet: {
-      system_object: '0x6c2547cbbc38025cf3adac45f63cb0a8d12ecf777cdc75a4971612bf97fdf6af',
-      staking_object: '0xbe46180321c30aab2f8b3501e24048377287fa708018a5b7c2792b35fe339ee3',
-      subsidies_object: '0xda799d85db0429765c8291c594d334349ef5bc09220e79ad397b30106161a0af',
-      exchange_objects: [
-        '0xf4d164ea2def5fe07dc573992a029e010dba09b1a8dcbc44c5c2e79567f39073',
-        '0x19825121c52080bb1073662231cfea5c0e4d905fd13e95f21e9a018f2ef41862',
-        '0x83b454e524c71f30803f4d6c302a86fb6a39e96cdfb873c2d1e93bc1c26a3bc5',
-        '0x8d63209cf8589ce7aef8f262437163c67577ed09f3e636a9d8e0813843fb8bf1'
-      ]
-    },
-    devnet: {
-      system_object: '0x5',
-      staking_object: '0x6',
-      subsidies_object: '0x7',
-      exchange_objects: []
-    },
-    localnet: {
-      system_object: '0x8',
-      staking_object: '0x9',
-      subsidies_object: '0xa',
-      exchange_objects: []
-    }
-  };
+  // Well-known object IDs of the network registry
+  const networks = loadNetworkRegistry();
   
   // Process each context
   for (const contextName in sanitizedConfig.contexts) {
     if (
       sanitizedConfig.contexts[contextName] && 
-      defaultObjectIds[contextName as keyof typeof defaultObjectIds]
+      networks[contextName as EnvironmentType]
     ) {
-      // Use default object IDs for known environments
-      const defaultValues = defaultObjectIds[contextName as keyof typeof defaultObjectIds];
-      
-      sanitizedConfig.contexts[contextName].system_object = defaultValues.system_object;
-      sanitizedConfig.contexts[contextName].staking_object = defaultValues.staking_object;
-      sanitizedConfig.contexts[contextName].subsidies_object = defaultValues.subsidies_object;
-      sanitizedConfig.contexts[contextName].exchange_objects = defaultValues.exchange_objects;
+      // Use the registry object IDs for known environments
+      Object.assign(sanitizedConfig.contexts[contextName], toWalrusContext(networks[contextName as EnvironmentType].walrus));
     }
   }
   
   return sanitizedConfig;
-}
\ No newline at end of file
+}
+
+/**
+ * Converts Walrus system objects to the keys of a walrus_client_config.yaml context
+ */
+function toWalrusContext(objects: WalrusSystemObjects) {
+  return {
+    system_object: objects.systemObject,
+    staking_object: objects.stakingObject,
+    subsidies_object: objects.subsidiesObject,
+    exchange_objects: objects.exchangeObjects
+  };
+}
@@ -0,0 +1,85 @@
+import { BlobAttributes, BlobObject, BurnParams } from "./storage";
+import { ClientConfig } from "./wallet-management";
+import { CliWalrusBackend } from "./walrus-cli-backend";
+import { WalrusInfo } from "./walrus-cost-estimator";
+import { HttpWalrusBackend } from "./walrus-http-backend";
+
+/**
+ * Result of storing a single blob, as reported by the Walrus CLI (`blobStoreResult`)
+ * and by the publisher HTTP API (response body).
+ */
+export interface BlobStoreResult {
+    newlyCreated?: {
+        blobObject: BlobObject;
+        resourceOperation: {
+            reuseStorage?: {
+                encodedLength: number;
+            };
+            registerFromScratch?: {
+                encodedLength: number;
+                epochsAhead: number;
+            };
+        };
+        cost: number;
+    };
+    alreadyCertified?: {
+        blobId: string;
+        object: string;
+        endEpoch: number;
+    };
+}
+
+export interface WalrusStoreOptions {
+    epochs?: number;
+    deletable?: boolean;
+}
+
+/**
+ * Low-level Walrus operations used by storage.ts and the cost estimator.
+ * Implementations must not encrypt or otherwise transform the data they are given.
+ */
+export interface WalrusBackend {
+    /** Stores the file as a single blob owned by the wallet */
+    store(filePath: string, options: WalrusStoreOptions): Promise<BlobStoreResult>;
+    /** Downloads the blob content to outputPath */
+    read(blobId: string, outputPath: string): Promise<void>;
+    /** Lists the blob objects owned by the wallet, without enrichment */
+    listBlobs(includeExpired: boolean): Promise<BlobObject[]>;
+    getBlobAttributes(blobObjectId: string): Promise<BlobAttributes>;
+    setBlobAttributes(blobObjectId: string, attributes: BlobAttributes): Promise<void>;
+    burnBlobs(params: BurnParams): Promise<void>;
+    /** Extends the storage of an owned blob by a number of epochs, paid in WAL */
+    extendBlob(blobObjectId: string, epochs: number): Promise<void>;
+    fundSharedBlob(sharedBlobObjectId: string, amountFrost: number): Promise<void>;
+    info(): Promise<WalrusInfo>;
+}
+
+// Valid backend types that can be selected with WALRUS_BACKEND
+export type WalrusBackendType = 'cli' | 'http';
+
+/**
+ * Returns the Walrus backend for the given client configuration.
+ * An explicit clientConf.walrusBackend wins; otherwise WALRUS_BACKEND selects
+ * between the `walrus` CLI (default) and the publisher/aggregator HTTP API.
+ */
+export function getWalrusBackend(clientConf: ClientConfig): WalrusBackend {
+    if (clientConf.walrusBackend) {
+        return clientConf.walrusBackend;
+    }
+
+    const backendType = process.env.WALRUS_BACKEND || 'cli';
+    switch (backendType) {
+        case 'cli':
+            return new CliWalrusBackend(clientConf);
+        case 'http': {
+            const publisherUrl = process.env.WALRUS_PUBLISHER_URL;
+            const aggregatorUrl = process.env.WALRUS_AGGREGATOR_URL;
+            if (!publisherUrl || !aggregatorUrl) {
+                throw new Error('WALRUS_PUBLISHER_URL and WALRUS_AGGREGATOR_URL are required when WALRUS_BACKEND=http');
+            }
+            return HttpWalrusBackend.fromClientConfig(clientConf, { publisherUrl, aggregatorUrl });
+        }
+        default:
+            throw new Error(`Invalid WALRUS_BACKEND: ${backendType}. Must be one of: cli, http`);
+    }
+}
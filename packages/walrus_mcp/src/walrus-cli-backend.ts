@@ -0,0 +1,158 @@
+import { runCommand, runJsonCommand, validateArgument, validateBlobId, validateFilePath, validateInteger, validateObjectId } from "./command-runner";
+import { BlobAttributes, BlobObject, BurnParams } from "./storage";
+import { ClientConfig, createUnlockedSuiConfig } from "./wallet-management";
+import { BlobStoreResult, WalrusBackend, WalrusStoreOptions } from "./walrus-backend";
+import { WalrusInfo } from "./walrus-cost-estimator";
+
+interface WalrusStoreResponse {
+    blobStoreResult: BlobStoreResult;
+    path: string;
+}
+
+/**
+ * Walrus backend that runs the `walrus` CLI using the user's
+ * walrus_client_config.yaml and sui_client.yaml.
+ * Arguments are validated and passed as an argv array, never through a shell.
+ */
+export class CliWalrusBackend implements WalrusBackend {
+    private clientConf: ClientConfig;
+
+    constructor(clientConf: ClientConfig) {
+        this.clientConf = clientConf;
+    }
+
+    /**
+     * Runs a walrus command with the user's config and wallet. An encrypted keystore
+     * is unlocked into a temporary copy for the duration of the command only.
+     */
+    private async withConfigArgs<T>(args: string[], run: (argv: string[]) => Promise<T>): Promise<T> {
+        const { suiConfPath, cleanup } = createUnlockedSuiConfig(
+            validateFilePath(this.clientConf.suiConfPath),
+            this.clientConf.passphrase
+        );
+        try {
+            return await run([
+                ...args,
+                '--config', validateFilePath(this.clientConf.walrusConfPath),
+                '--wallet', suiConfPath,
+            ]);
+        } finally {
+            cleanup();
+        }
+    }
+
+    /**
+     * Runs a walrus command with the user's config and wallet
+     */
+    private async run(args: string[]): Promise<void> {
+        await this.withConfigArgs(args, argv => runCommand('walrus', argv));
+    }
+
+    /**
+     * Runs a walrus command with the user's config and wallet and parses its JSON output
+     */
+    private async runJson<T>(args: string[]): Promise<T> {
+        return this.withConfigArgs(args, argv => runJsonCommand<T>('walrus', argv));
+    }
+
+    async store(filePath: string, options: WalrusStoreOptions): Promise<BlobStoreResult> {
+        const args = ['store', '--json', validateFilePath(filePath)];
+
+        if (options.epochs) {
+            args.push('--epochs', String(validateInteger(options.epochs, 'epochs')));
+        }
+        if (options.deletable) {
+            args.push('--deletable');
+        }
+
+        const responses = await this.runJson<WalrusStoreResponse[]>(args);
+
+        if (!Array.isArray(responses) || responses.length === 0) {
+            throw new Error('Invalid response: expected non-empty array');
+        }
+
+        const response = responses[0];
+        if (!response.blobStoreResult) {
+            throw new Error('Invalid response: missing blobStoreResult');
+        }
+        return response.blobStoreResult;
+    }
+
+    async read(blobId: string, outputPath: string): Promise<void> {
+        await this.run(['read', '--json', validateBlobId(blobId), '--out', validateFilePath(outputPath)]);
+    }
+
+    async listBlobs(includeExpired: boolean): Promise<BlobObject[]> {
+        const args = ['list-blobs', '--json'];
+
+        if (includeExpired) {
+            args.push('--include-expired');
+        }
+
+        const response = await this.runJson<BlobObject[] | null>(args);
+        return response || [];
+    }
+
+    async getBlobAttributes(blobObjectId: string): Promise<BlobAttributes> {
+        const response = await this.runJson<any>(['get-blob-attribute', validateObjectId(blobObjectId, 'blob object ID'), '--json']);
+        const attributes: Record<string, string> = {};
+        if (response.attribute?.metadata?.contents) {
+            for (const item of response.attribute.metadata.contents) {
+                attributes[item.key] = item.value;
+            }
+        }
+        return attributes;
+    }
+
+    async setBlobAttributes(blobObjectId: string, attributes: BlobAttributes): Promise<void> {
+        const args = ['set-blob-attribute', validateObjectId(blobObjectId, 'blob object ID')];
+
+        // Add each attribute as a separate --attr flag
+        for (const [key, value] of Object.entries(attributes)) {
+            if (key.length === 0) {
+                throw new Error('Invalid attribute key: empty');
+            }
+            args.push('--attr', validateArgument(key, 'attribute key'), validateArgument(String(value), `value of attribute ${key}`));
+        }
+
+        await this.run(args);
+    }
+
+    async burnBlobs(params: BurnParams): Promise<void> {
+        const args = ['burn-blobs', '--yes'];
+
+        // Priority handling:
+        // 1. blobObjectIds if not empty
+        // 2. all_expired if true and blobObjectIds is empty
+        // 3. all if true and both above conditions are not met
+        if (params.blobObjectIds && params.blobObjectIds.length > 0) {
+            args.push('--object-ids', ...params.blobObjectIds.map(id => validateObjectId(id, 'blob object ID')));
+        } else if (params.all_expired) {
+            args.push('--all-expired');
+        } else if (params.all) {
+            args.push('--all');
+        } else {
+            throw new Error('Invalid burn parameters: must specify either blobObjectIds, all_expired, or all');
+        }
+
+        await this.run(args);
+    }
+
+    async extendBlob(blobObjectId: string, epochs: number): Promise<void> {
+        await this.run([
+            'extend', '--blob-obj-id', validateObjectId(blobObjectId, 'blob object ID'),
+            '--epochs-extended', String(validateInteger(epochs, 'epochs')),
+        ]);
+    }
+
+    async fundSharedBlob(sharedBlobObjectId: string, amountFrost: number): Promise<void> {
+        await this.run([
+            'fund-shared-blob', validateObjectId(sharedBlobObjectId, 'shared blob object ID'), '--json',
+            '--amount', String(validateInteger(amountFrost, 'amount')),
+        ]);
+    }
+
+    async info(): Promise<WalrusInfo> {
+        return this.runJson<WalrusInfo>(['info', '--json']);
+    }
+}
@@ -1,8 +1,8 @@
-import { exec } from "child_process";
-import { promisify } from "util";
+import * as fs from "fs";
+import { EncodingCalibration, EstimationError, calibrateEncoding, loadCostSamples } from "./cost-calibration";
+import { epochsForDuration } from "./epoch-clock";
 import { ClientConfig } from "./wallet-management";
-
-const execAsync = promisify(exec);
+import { getWalrusBackend } from "./walrus-backend";
 
 /**
  * Constants derived from Walrus info and observations for RS2 encoding.
@@ -77,18 +77,7 @@ export interface WalrusInfo {
 
 export async function getInfo(clientConf: ClientConfig): Promise<WalrusInfo> {
     try {
-        let command = `walrus info --json`;
-        
-        command += ` --config "${clientConf.walrusConfPath}"`;
-        command += ` --wallet "${clientConf.suiConfPath}"`;
-
-        const { stdout, stderr } = await execAsync(command);
-        if (stderr) {
-            console.error('CLI warning:', stderr);
-        }
-
-        const response: WalrusInfo = JSON.parse(stdout);
-        return response;
+        return await getWalrusBackend(clientConf).info();
     } catch (error) {
         console.error('Failed to get Walrus info:', error);
         throw error;
@@ -123,11 +112,21 @@ export interface WalrusCostEstimationOptions {
    * Defaults to an observed factor if not provided. Ignored if knownEncodedSizeBytes is set.
    */
   rs2InflationFactor?: number;
+  /**
+   * Optional: Fixed size in bytes added to the inflated size, such as the RS2 metadata.
+   * Defaults to 0. Ignored if knownEncodedSizeBytes is set.
+   */
+  encodingOverheadBytes?: number;
   /**
    * Optional: The minimum encoded size in bytes for the encoding type (RS2 default provided).
    * Ignored if knownEncodedSizeBytes is set.
    */
   minEncodedSizeBytes?: number;
+  /**
+   * Optional: Only price the storage, without the write cost, as when extending a blob
+   * that is already written. Defaults to false.
+   */
+  excludeWriteCost?: boolean;
   /**
    * Optional: WalrusInfo object from getInfo() to use for dynamic pricing and storage parameters.
    * If not provided, hardcoded constants will be used.
@@ -159,6 +158,10 @@ export interface WalrusCostEstimationResult {
    * Number of epochs for which the storage cost is calculated.
    */
   numEpochs: number;
+  /**
+   * Error of the calibrated encoding model, set by WalrusCostEstimator.
+   */
+  estimationError?: EstimationError;
   /**
    * A summary of parameters used in the calculation for transparency.
    */
@@ -168,6 +171,7 @@ export interface WalrusCostEstimationResult {
     epochsInput?: number;
     knownEncodedSizeBytesInput?: number;
     rs2InflationFactorUsed: number | null;
+    encodingOverheadBytesUsed: number;
     minEncodedSizeBytesUsed: number;
     storageUnitSizeBytes: number;
     writePricePerUnit: number;
@@ -199,7 +203,9 @@ export function estimateWalrusStorageCost(
     epochs,
     knownEncodedSizeBytes,
     rs2InflationFactor = DEFAULT_RS2_INFLATION_FACTOR,
+    encodingOverheadBytes = 0,
     minEncodedSizeBytes = MIN_ENCODED_SIZE_BYTES_RS2,
+    excludeWriteCost = false,
     walrusInfo
   } = options;
 
@@ -225,7 +231,10 @@ export function estimateWalrusStorageCost(
   const epochDurationSecs = walrusInfo ? walrusInfo.epochInfo.epochDuration.secs : EPOCH_DURATION_SECONDS;
 
   let numEpochs: number;
-  if (storageDurationInDays !== undefined) {
+  if (storageDurationInDays !== undefined && walrusInfo) {
+    // Epochs until the blob is available for the days from now, the current epoch has partly elapsed
+    numEpochs = epochsForDuration(walrusInfo.epochInfo, storageDurationInDays * 86400 * 1000);
+  } else if (storageDurationInDays !== undefined) {
     // Convert days to epochs using actual epoch duration
     numEpochs = Math.ceil((storageDurationInDays * 86400) / epochDurationSecs);
   } else {
@@ -239,7 +248,7 @@ export function estimateWalrusStorageCost(
     if (knownEncodedSizeBytes < 0) throw new Error("knownEncodedSizeBytes cannot be negative.");
     finalEncodedSizeBytes = knownEncodedSizeBytes;
   } else {
-    const inflatedSize = unencodedSizeInBytes * rs2InflationFactor;
+    const inflatedSize = encodingOverheadBytes + unencodedSizeInBytes * rs2InflationFactor;
     finalEncodedSizeBytes = Math.max(inflatedSize, minEncodedSizeBytes);
     inflationFactorUsed = rs2InflationFactor;
   }
@@ -250,7 +259,7 @@ export function estimateWalrusStorageCost(
 
   const cost =
     numStorageUnits *
-    (writePricePerUnit +
+    ((excludeWriteCost ? 0 : writePricePerUnit) +
       numEpochs * storagePricePerUnitPerEpoch);
       
   // Calculate cost in WAL tokens
@@ -268,6 +277,7 @@ export function estimateWalrusStorageCost(
       epochsInput: options.epochs,
       knownEncodedSizeBytesInput: options.knownEncodedSizeBytes,
       rs2InflationFactorUsed: inflationFactorUsed,
+      encodingOverheadBytesUsed: knownEncodedSizeBytes === undefined ? encodingOverheadBytes : 0,
       minEncodedSizeBytesUsed: knownEncodedSizeBytes === undefined ? minEncodedSizeBytes : 0,
       storageUnitSizeBytes: storageUnitSize,
       writePricePerUnit: writePricePerUnit,
@@ -278,12 +288,25 @@ export function estimateWalrusStorageCost(
   };
 }
 
+/**
+ * What to quote: the size of a file or a byte size, stored for a number of days or epochs.
+ * If both days and epochs are provided, days will be used.
+ */
+export interface WalrusCostQuoteOptions {
+  filePath?: string;
+  sizeBytes?: number;
+  days?: number;
+  epochs?: number;
+}
+
 /**
  * Class for estimating Walrus storage costs with cached network information.
  * Initializes by fetching network parameters once, then can be used for multiple estimations.
+ * The encoding model is calibrated from the blobs stored by the wallet (see cost-calibration.ts).
  */
 export class WalrusCostEstimator {
   private walrusInfo: WalrusInfo | null = null;
+  private calibration: EncodingCalibration | null = null;
   private clientConf: ClientConfig;
   private isInitialized = false;
   
@@ -303,6 +326,7 @@ export class WalrusCostEstimator {
     if (!this.isInitialized) {
       try {
         this.walrusInfo = await getInfo(this.clientConf);
+        this.calibrate();
         this.isInitialized = true;
       } catch (error) {
         console.error('Failed to initialize Walrus cost estimator:', error);
@@ -324,15 +348,85 @@ export class WalrusCostEstimator {
       await this.initialize();
     }
     
-    const estimation = estimateWalrusStorageCost({
+    const estimation = this.estimateCalibrated({
       unencodedSizeInBytes: fileSizeBytes,
       storageDurationInDays: storageDays,
-      walrusInfo: this.walrusInfo!
     });
     
     return estimation;
   }
   
+  /**
+   * Estimates the storage cost for the given file size and number of epochs.
+   * Automatically initializes the estimator if not already initialized.
+   * 
+   * @param fileSizeBytes The size of the file in bytes
+   * @param epochs The number of epochs to store the file
+   * @returns Storage cost estimation result
+   */
+  public async estimateForEpochs(fileSizeBytes: number, epochs: number): Promise<WalrusCostEstimationResult> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+    
+    return this.estimateCalibrated({
+      unencodedSizeInBytes: fileSizeBytes,
+      epochs,
+    });
+  }
+  
+  /**
+   * Quotes the storage cost of a file or byte size for a number of days or epochs.
+   * Automatically initializes the estimator if not already initialized.
+   * 
+   * @param options The file path or byte size, and the days or epochs
+   * @returns Storage cost estimation result
+   */
+  public async quote(options: WalrusCostQuoteOptions): Promise<WalrusCostEstimationResult> {
+    const { filePath, sizeBytes, days, epochs } = options;
+    if ((filePath === undefined) === (sizeBytes === undefined)) {
+      throw new Error('Either filePath or sizeBytes must be provided.');
+    }
+    if (filePath !== undefined && !fs.existsSync(filePath)) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+    if (sizeBytes !== undefined && !Number.isSafeInteger(sizeBytes)) {
+      throw new Error('sizeBytes must be an integer.');
+    }
+
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+    
+    return this.estimateCalibrated({
+      unencodedSizeInBytes: filePath !== undefined ? fs.statSync(filePath).size : sizeBytes!,
+      storageDurationInDays: days,
+      epochs,
+    });
+  }
+  
+  /**
+   * Quotes the storage cost of extending a blob by a number of epochs. Only the storage
+   * is paid for, and the encoded size of the blob is known from its storage object.
+   * 
+   * @param encodedSizeBytes The storage size of the blob in bytes
+   * @param epochs The number of epochs to extend the blob by
+   * @returns Storage cost estimation result
+   */
+  public async quoteExtension(encodedSizeBytes: number, epochs: number): Promise<WalrusCostEstimationResult> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+    
+    return estimateWalrusStorageCost({
+      unencodedSizeInBytes: 0,
+      knownEncodedSizeBytes: encodedSizeBytes,
+      epochs,
+      excludeWriteCost: true,
+      walrusInfo: this.walrusInfo!
+    });
+  }
+  
   /**
    * Gets the cached Walrus network information.
    * @returns The cached Walrus info or null if not initialized
@@ -342,12 +436,38 @@ export class WalrusCostEstimator {
   }
   
   /**
-   * Force refreshes the Walrus network information.
+   * Gets the calibration of the encoding model, made on initialization.
+   * @returns The calibration or null if not initialized
+   */
+  public getCalibration(): EncodingCalibration | null {
+    return this.calibration;
+  }
+  
+  /**
+   * Force refreshes the Walrus network information and the calibration.
    * @returns The updated Walrus info
    */
   public async refreshWalrusInfo(): Promise<WalrusInfo> {
     this.walrusInfo = await getInfo(this.clientConf);
+    this.calibrate();
     this.isInitialized = true;
     return this.walrusInfo;
   }
+  
+  // fit the encoding model to the recorded samples or the example blobs
+  private calibrate(): void {
+    this.calibration = calibrateEncoding(loadCostSamples(this.clientConf), this.walrusInfo, DEFAULT_RS2_INFLATION_FACTOR);
+  }
+  
+  // estimate with the calibrated encoding model, which replaces the fixed minimum size
+  private estimateCalibrated(options: WalrusCostEstimationOptions): WalrusCostEstimationResult {
+    const { rs2InflationFactor, encodingOverheadBytes, estimationError } = this.calibration!;
+    const calibrated = rs2InflationFactor !== undefined
+      ? { rs2InflationFactor, encodingOverheadBytes, minEncodedSizeBytes: 0 }
+      : {};
+    return {
+      ...estimateWalrusStorageCost({ ...options, ...calibrated, walrusInfo: this.walrusInfo! }),
+      estimationError,
+    };
+  }
 }
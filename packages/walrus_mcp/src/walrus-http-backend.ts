@@ -0,0 +1,511 @@
+import axios from "axios";
+import * as fs from "fs";
+import * as yaml from "js-yaml";
+import { pipeline } from "stream/promises";
+import { bcs } from "@mysten/sui/bcs";
+import { SuiClient } from "@mysten/sui/client";
+import { Signer } from "@mysten/sui/cryptography";
+import { Transaction, TransactionObjectArgument } from "@mysten/sui/transactions";
+import { toBase64 } from "@mysten/sui/utils";
+import { resolveNetworkConfig } from "./network-registry";
+import { BlobAttributes, BlobObject, BurnParams } from "./storage";
+import { ClientConfig, getSuiRpcUrl, readSuiKeypair } from "./wallet-management";
+import { BlobStoreResult, WalrusBackend, WalrusStoreOptions } from "./walrus-backend";
+import { WalrusInfo } from "./walrus-cost-estimator";
+
+// Name of the dynamic field holding the blob metadata (attributes)
+const METADATA_FIELD_NAME = 'metadata';
+
+// Storage is bought and priced in units of 1 MiB of encoded size
+const STORAGE_UNIT_SIZE_BYTES = 1024 * 1024;
+
+// RS2 symbols are at most u16::MAX bytes and of even length
+const MAX_RS2_SYMBOL_SIZE = 65534;
+
+// Digest of each sliver pair and blob ID in the metadata stored by every shard
+const DIGEST_LENGTH = 32;
+const BLOB_ID_LENGTH = 32;
+
+// Unencoded sizes of the example blobs of the price info
+const EXAMPLE_BLOB_SIZES = [1024 * 1024, 100 * 1024 * 1024, 1024 * 1024 * 1024];
+
+// On-chain encoding type identifiers
+const ENCODING_TYPES: Record<number, string> = {
+    0: 'RedStuffRaptorQ',
+    1: 'RS2',
+};
+
+export interface HttpWalrusEndpoints {
+    publisherUrl: string;
+    aggregatorUrl: string;
+}
+
+export interface HttpWalrusBackendOptions extends HttpWalrusEndpoints {
+    /** Client used for blob object queries and transactions */
+    suiClient: SuiClient;
+    /** Owner of the stored blobs, signs attribute and burn transactions */
+    signer: Signer;
+    /** Walrus system object of the active context */
+    systemObjectId: string;
+    /** Walrus staking object of the active context, holds the epoch schedule */
+    stakingObjectId: string;
+    /** Coin type of WAL, paid to extend and fund blobs */
+    walCoinType?: string;
+}
+
+interface WalrusPackage {
+    /** Package that defines the Walrus types, used for type filters */
+    typePackageId: string;
+    /** Current package, used for move calls */
+    packageId: string;
+}
+
+/**
+ * Converts the on-chain u256 representation of a blob ID to its
+ * URL-safe base64 string form used by the CLI and HTTP APIs
+ */
+export function blobIdFromInt(value: string): string {
+    const bytes = bcs.u256().serialize(BigInt(value)).toBytes();
+    return toBase64(bytes).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+/**
+ * Walrus backend that stores and reads blobs through publisher and aggregator
+ * HTTP endpoints, and manages the resulting blob objects through Sui RPC.
+ * Does not require the `walrus` CLI to be installed.
+ */
+export class HttpWalrusBackend implements WalrusBackend {
+    private publisherUrl: string;
+    private aggregatorUrl: string;
+    private suiClient: SuiClient;
+    private signer: Signer;
+    private systemObjectId: string;
+    private stakingObjectId: string;
+    private walCoinType?: string;
+    private walrusPackage: WalrusPackage | null = null;
+
+    constructor(options: HttpWalrusBackendOptions) {
+        this.publisherUrl = options.publisherUrl.replace(/\/+$/, '');
+        this.aggregatorUrl = options.aggregatorUrl.replace(/\/+$/, '');
+        this.suiClient = options.suiClient;
+        this.signer = options.signer;
+        this.systemObjectId = options.systemObjectId;
+        this.stakingObjectId = options.stakingObjectId;
+        this.walCoinType = options.walCoinType;
+    }
+
+    /**
+     * Creates a backend for the wallet and Walrus context described by the client configuration
+     */
+    static fromClientConfig(clientConf: ClientConfig, endpoints: HttpWalrusEndpoints): HttpWalrusBackend {
+        const { keypair, activeEnv } = readSuiKeypair(clientConf.suiConfPath, clientConf.passphrase);
+
+        const walrusConfig = yaml.load(fs.readFileSync(clientConf.walrusConfPath, 'utf8')) as any;
+        const contextName = walrusConfig?.default_context || activeEnv;
+        const context = walrusConfig?.contexts?.[contextName];
+        if (!context?.system_object) {
+            throw new Error(`No Walrus system object configured for context ${contextName}`);
+        }
+        if (!context.staking_object) {
+            throw new Error(`No Walrus staking object configured for context ${contextName}`);
+        }
+
+        return new HttpWalrusBackend({
+            ...endpoints,
+            suiClient: new SuiClient({ url: getSuiRpcUrl(clientConf.suiConfPath, activeEnv) }),
+            signer: keypair,
+            systemObjectId: context.system_object,
+            stakingObjectId: context.staking_object,
+            walCoinType: resolveNetworkConfig(activeEnv).walCoinType,
+        });
+    }
+
+    async store(filePath: string, options: WalrusStoreOptions): Promise<BlobStoreResult> {
+        const params: Record<string, string> = {
+            send_object_to: this.signer.toSuiAddress(),
+        };
+        if (options.epochs) {
+            params.epochs = String(options.epochs);
+        }
+        params[options.deletable ? 'deletable' : 'permanent'] = 'true';
+
+        const { size } = fs.statSync(filePath);
+        const response = await axios.put(`${this.publisherUrl}/v1/blobs`, fs.createReadStream(filePath), {
+            params,
+            headers: {
+                'Content-Type': 'application/octet-stream',
+                'Content-Length': size,
+            },
+            // Large blobs: lift the axios body limits (missing from the bundled typings)
+            maxBodyLength: Infinity,
+            maxContentLength: Infinity,
+        } as any);
+
+        const result = response.data as BlobStoreResult;
+        if (!result?.newlyCreated && !result?.alreadyCertified) {
+            throw new Error('Invalid response: missing blobStoreResult');
+        }
+        return result;
+    }
+
+    async read(blobId: string, outputPath: string): Promise<void> {
+        const response = await axios.get(`${this.aggregatorUrl}/v1/blobs/${encodeURIComponent(blobId)}`, {
+            responseType: 'stream',
+        });
+        await pipeline(response.data as NodeJS.ReadableStream, fs.createWriteStream(outputPath));
+    }
+
+    async listBlobs(includeExpired: boolean): Promise<BlobObject[]> {
+        const { typePackageId } = await this.getWalrusPackage();
+        const blobs: BlobObject[] = [];
+
+        let cursor: string | null | undefined = undefined;
+        do {
+            const page = await this.suiClient.getOwnedObjects({
+                owner: this.signer.toSuiAddress(),
+                filter: { StructType: `${typePackageId}::blob::Blob` },
+                options: { showContent: true },
+                cursor,
+            });
+
+            for (const obj of page.data) {
+                const content = obj.data?.content;
+                if (!obj.data?.objectId || content?.dataType !== 'moveObject') {
+                    continue;
+                }
+                blobs.push(toBlobObject(obj.data.objectId, content.fields as any));
+            }
+
+            cursor = page.hasNextPage ? page.nextCursor : null;
+        } while (cursor);
+
+        if (includeExpired) {
+            return blobs;
+        }
+        const currentEpoch = await this.getCurrentEpoch();
+        return blobs.filter(blob => blob.storage.endEpoch > currentEpoch);
+    }
+
+    async getBlobAttributes(blobObjectId: string): Promise<BlobAttributes> {
+        return (await this.fetchMetadata(blobObjectId)) || {};
+    }
+
+    async setBlobAttributes(blobObjectId: string, attributes: BlobAttributes): Promise<void> {
+        const { packageId } = await this.getWalrusPackage();
+        const existing = await this.fetchMetadata(blobObjectId);
+
+        const tx = new Transaction();
+        const blob = tx.object(blobObjectId);
+        if (existing === null) {
+            const [metadata] = tx.moveCall({ target: `${packageId}::metadata::new` });
+            tx.moveCall({
+                target: `${packageId}::blob::add_metadata`,
+                arguments: [blob, metadata],
+            });
+        }
+        for (const [key, value] of Object.entries(attributes)) {
+            tx.moveCall({
+                target: `${packageId}::blob::insert_or_update_metadata_pair`,
+                arguments: [blob, tx.pure.string(key), tx.pure.string(value)],
+            });
+        }
+
+        await this.execute(tx);
+    }
+
+    async burnBlobs(params: BurnParams): Promise<void> {
+        let blobObjectIds: string[];
+
+        // Same priority as the CLI: explicit IDs, then all expired, then all
+        if (params.blobObjectIds && params.blobObjectIds.length > 0) {
+            blobObjectIds = params.blobObjectIds;
+        } else if (params.all_expired) {
+            const currentEpoch = await this.getCurrentEpoch();
+            const blobs = await this.listBlobs(true);
+            blobObjectIds = blobs.filter(blob => blob.storage.endEpoch <= currentEpoch).map(blob => blob.id);
+        } else if (params.all) {
+            blobObjectIds = (await this.listBlobs(true)).map(blob => blob.id);
+        } else {
+            throw new Error('Invalid burn parameters: must specify either blobObjectIds, all_expired, or all');
+        }
+
+        if (blobObjectIds.length === 0) {
+            return;
+        }
+
+        const { packageId } = await this.getWalrusPackage();
+        const tx = new Transaction();
+        for (const blobObjectId of blobObjectIds) {
+            tx.moveCall({
+                target: `${packageId}::blob::burn`,
+                arguments: [tx.object(blobObjectId)],
+            });
+        }
+        await this.execute(tx);
+    }
+
+    async extendBlob(blobObjectId: string, epochs: number): Promise<void> {
+        const { packageId } = await this.getWalrusPackage();
+        const tx = new Transaction();
+        // The system takes the price of the extension from the coin and leaves the rest
+        const payment = await this.mergeWalCoins(tx);
+        tx.moveCall({
+            target: `${packageId}::system::extend_blob`,
+            arguments: [tx.object(this.systemObjectId), tx.object(blobObjectId), tx.pure.u32(epochs), payment],
+        });
+        await this.execute(tx);
+    }
+
+    async fundSharedBlob(sharedBlobObjectId: string, amountFrost: number): Promise<void> {
+        const { packageId } = await this.getWalrusPackage();
+        const tx = new Transaction();
+        const [funds] = tx.splitCoins(await this.mergeWalCoins(tx, BigInt(amountFrost)), [amountFrost]);
+        tx.moveCall({
+            target: `${packageId}::shared_blob::fund`,
+            arguments: [tx.object(sharedBlobObjectId), funds],
+        });
+        await this.execute(tx);
+    }
+
+    async info(): Promise<WalrusInfo> {
+        const [system, staking] = await Promise.all([
+            this.fetchInnerObject(this.systemObjectId),
+            this.fetchInnerObject(this.stakingObjectId),
+        ]);
+
+        const committee = system.committee.fields;
+        const currentEpoch = Number(committee.epoch);
+        const nShards = Number(committee.n_shards);
+        const epochDurationMs = Number(staking.epoch_duration);
+        // Epoch 1 starts at first_epoch_start and every epoch lasts epoch_duration
+        const startOfCurrentEpoch = Number(staking.first_epoch_start) + Math.max(currentEpoch - 1, 0) * epochDurationMs;
+        const storagePricePerUnitSize = Number(system.storage_price_per_unit_size);
+        const pricePerEpoch = (unencodedSize: number) =>
+            Math.ceil(encodedBlobLength(nShards, unencodedSize) / STORAGE_UNIT_SIZE_BYTES) * storagePricePerUnitSize;
+
+        return {
+            epochInfo: {
+                currentEpoch,
+                startOfCurrentEpoch: { DateTime: new Date(startOfCurrentEpoch).toISOString() },
+                epochDuration: { secs: Math.floor(epochDurationMs / 1000), nanos: (epochDurationMs % 1000) * 1_000_000 },
+                maxEpochsAhead: Number(system.future_accounting.fields.length),
+            },
+            storageInfo: {
+                nShards,
+                nNodes: committee.members.length,
+            },
+            sizeInfo: {
+                storageUnitSize: STORAGE_UNIT_SIZE_BYTES,
+                maxBlobSize: maxBlobSize(nShards),
+            },
+            priceInfo: {
+                storagePricePerUnitSize,
+                writePricePerUnitSize: Number(system.write_price_per_unit_size),
+                encodingDependentPriceInfo: [{
+                    marginalSize: STORAGE_UNIT_SIZE_BYTES,
+                    metadataPrice: pricePerEpoch(0),
+                    marginalPrice: pricePerEpoch(2 * STORAGE_UNIT_SIZE_BYTES) - pricePerEpoch(STORAGE_UNIT_SIZE_BYTES),
+                    exampleBlobs: EXAMPLE_BLOB_SIZES.map(size => ({
+                        unencodedSize: size,
+                        encodedSize: encodedBlobLength(nShards, size),
+                        price: pricePerEpoch(size),
+                        encodingType: 'RS2',
+                    })),
+                    encodingType: 'RS2',
+                }],
+            },
+        };
+    }
+
+    /**
+     * Resolves the Walrus package from the system object
+     */
+    private async getWalrusPackage(): Promise<WalrusPackage> {
+        if (this.walrusPackage) {
+            return this.walrusPackage;
+        }
+
+        const system = await this.suiClient.getObject({
+            id: this.systemObjectId,
+            options: { showType: true, showContent: true },
+        });
+        const type = system.data?.type;
+        if (!type || system.data?.content?.dataType !== 'moveObject') {
+            throw new Error(`Walrus system object ${this.systemObjectId} not found`);
+        }
+
+        const typePackageId = type.split('::')[0];
+        const fields = system.data.content.fields as any;
+        this.walrusPackage = {
+            typePackageId,
+            packageId: fields.package_id || typePackageId,
+        };
+        return this.walrusPackage;
+    }
+
+    /**
+     * Gets the current Walrus epoch from the system object
+     */
+    private async getCurrentEpoch(): Promise<number> {
+        const { packageId } = await this.getWalrusPackage();
+        const tx = new Transaction();
+        tx.moveCall({
+            target: `${packageId}::system::epoch`,
+            arguments: [tx.object(this.systemObjectId)],
+        });
+
+        // Use devInspect to avoid gas cost for read-only query
+        const response = await this.suiClient.devInspectTransactionBlock({
+            transactionBlock: tx,
+            sender: this.signer.toSuiAddress(),
+        });
+        if (response.error) {
+            throw new Error(`Inspection failed: ${response.error}`);
+        }
+
+        const returnValue = response.results?.[0]?.returnValues?.[0];
+        if (!returnValue) {
+            throw new Error('No epoch returned');
+        }
+        return bcs.u32().parse(Uint8Array.from(returnValue[0]));
+    }
+
+    /**
+     * Reads the fields of the inner state of a versioned Walrus object (system or staking),
+     * stored in a dynamic field named by the version of the object
+     */
+    private async fetchInnerObject(objectId: string): Promise<any> {
+        const object = await this.suiClient.getObject({ id: objectId, options: { showContent: true } });
+        if (object.data?.content?.dataType !== 'moveObject') {
+            throw new Error(`Walrus object ${objectId} not found`);
+        }
+
+        const { version } = object.data.content.fields as any;
+        const field = await this.suiClient.getDynamicFieldObject({
+            parentId: objectId,
+            name: { type: 'u64', value: String(version) },
+        });
+        if (field.error || field.data?.content?.dataType !== 'moveObject') {
+            throw new Error(`Inner state of Walrus object ${objectId} not found`);
+        }
+        return (field.data.content.fields as any).value.fields;
+    }
+
+    /**
+     * Merges the WAL coins of the signer into one, until they cover the amount if any
+     */
+    private async mergeWalCoins(tx: Transaction, amount?: bigint): Promise<TransactionObjectArgument> {
+        if (!this.walCoinType) {
+            throw new Error('No WAL coin type configured for the network of the wallet');
+        }
+        const owner = this.signer.toSuiAddress();
+        const coins: TransactionObjectArgument[] = [];
+        let total = 0n;
+        let cursor: string | null | undefined = undefined;
+        do {
+            const page = await this.suiClient.getCoins({ owner, coinType: this.walCoinType, cursor });
+            for (const coin of page.data) {
+                coins.push(tx.objectRef({ objectId: coin.coinObjectId, version: coin.version, digest: coin.digest }));
+                total += BigInt(coin.balance);
+            }
+            cursor = page.hasNextPage && (amount === undefined || total < amount) ? page.nextCursor : null;
+        } while (cursor);
+
+        if (coins.length === 0) {
+            throw new Error(`No ${this.walCoinType} coins owned by ${owner}`);
+        }
+        if (amount !== undefined && total < amount) {
+            throw new Error(`Insufficient balance of ${this.walCoinType}: ${total} < ${amount}`);
+        }
+        const [primaryCoin, ...otherCoins] = coins;
+        if (otherCoins.length > 0) {
+            tx.mergeCoins(primaryCoin, otherCoins);
+        }
+        return primaryCoin;
+    }
+
+    /**
+     * Reads the metadata dynamic field of a blob object, null if the blob has no metadata
+     */
+    private async fetchMetadata(blobObjectId: string): Promise<BlobAttributes | null> {
+        const field = await this.suiClient.getDynamicFieldObject({
+            parentId: blobObjectId,
+            name: {
+                type: 'vector<u8>',
+                value: Array.from(Buffer.from(METADATA_FIELD_NAME)),
+            },
+        });
+        if (field.error || field.data?.content?.dataType !== 'moveObject') {
+            return null;
+        }
+
+        const attributes: BlobAttributes = {};
+        const contents = (field.data.content.fields as any).value?.fields?.metadata?.fields?.contents || [];
+        for (const entry of contents) {
+            attributes[entry.fields.key] = entry.fields.value;
+        }
+        return attributes;
+    }
+
+    private async execute(tx: Transaction): Promise<void> {
+        const result = await this.suiClient.signAndExecuteTransaction({
+            transaction: tx,
+            signer: this.signer,
+            options: {
+                showEffects: true,
+            },
+        });
+
+        if (result.effects?.status.status !== 'success') {
+            throw new Error(`Transaction failed: ${result.effects?.status.error}`);
+        }
+        await this.suiClient.waitForTransaction({ digest: result.digest });
+    }
+}
+
+/**
+ * Size of a blob once RS2-encoded over the shards, including the metadata every shard stores
+ */
+export function encodedBlobLength(nShards: number, unencodedSize: number): number {
+    const { primary, secondary } = sourceSymbols(nShards);
+    const symbolSize = Math.ceil(Math.max(unencodedSize, 1) / (primary * secondary));
+    const evenSymbolSize = symbolSize + (symbolSize % 2);
+    const metadataLength = nShards * DIGEST_LENGTH * 2 + BLOB_ID_LENGTH;
+    return nShards * ((primary + secondary) * evenSymbolSize + metadataLength);
+}
+
+/**
+ * Largest blob that RS2 can encode over the shards
+ */
+export function maxBlobSize(nShards: number): number {
+    const { primary, secondary } = sourceSymbols(nShards);
+    return primary * secondary * MAX_RS2_SYMBOL_SIZE;
+}
+
+// Source symbols of the primary and secondary slivers, tolerating f = (n - 1) / 3 faulty shards
+function sourceSymbols(nShards: number): { primary: number; secondary: number } {
+    const maxFaulty = Math.floor((nShards - 1) / 3);
+    return { primary: nShards - 2 * maxFaulty, secondary: nShards - maxFaulty };
+}
+
+/**
+ * Maps the Move fields of a walrus::blob::Blob object to a BlobObject
+ */
+function toBlobObject(objectId: string, fields: any): BlobObject {
+    const storage = fields.storage.fields;
+    return {
+        id: objectId,
+        registeredEpoch: Number(fields.registered_epoch),
+        blobId: blobIdFromInt(fields.blob_id),
+        size: Number(fields.size),
+        encodingType: ENCODING_TYPES[Number(fields.encoding_type)] || String(fields.encoding_type),
+        certifiedEpoch: Number(fields.certified_epoch ?? 0),
+        storage: {
+            id: storage.id.id,
+            startEpoch: Number(storage.start_epoch),
+            endEpoch: Number(storage.end_epoch),
+            storageSize: Number(storage.storage_size),
+        },
+        deletable: Boolean(fields.deletable),
+    };
+}
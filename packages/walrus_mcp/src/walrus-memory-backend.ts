@@ -0,0 +1,265 @@
+import * as fs from "fs";
+import { createHash } from "crypto";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { LocalNetwork, LocalObject } from "./local-network";
+import { BlobAttributes, BlobObject, BurnParams } from "./storage";
+import { BlobStoreResult, WalrusBackend, WalrusStoreOptions } from "./walrus-backend";
+import { WalrusInfo } from "./walrus-cost-estimator";
+
+// Type of the blob objects created by the in-memory backend
+const BLOB_TYPE = `${normalizeSuiAddress('0x3a1')}::blob::Blob`;
+
+// Walrus parameters emulated by the in-memory backend
+const STORAGE_UNIT_SIZE_BYTES = 1048576; // 1 MiB
+const STORAGE_PRICE_PER_UNIT = 100;
+const WRITE_PRICE_PER_UNIT = 20000;
+const EPOCH_DURATION_SECONDS = 86400;
+const MAX_EPOCHS_AHEAD = 53;
+const DEFAULT_MAX_BLOB_SIZE = 13_958_643_712;
+// RS2 encoding: fixed metadata overhead plus a linear inflation of the content
+const ENCODING_OVERHEAD_BYTES = 66_034_000;
+const ENCODING_INFLATION_FACTOR = 4.5;
+
+export interface MemoryWalrusBackendOptions {
+    /** Largest blob accepted by store, in bytes */
+    maxBlobSize?: number;
+}
+
+/**
+ * Walrus backend that keeps blobs in memory, as objects of a LocalNetwork owned by a
+ * single address. Emulates epochs, storage cost in WAL, attributes and burning, so the
+ * storage flow can be exercised without the `walrus` CLI or a network.
+ */
+export class MemoryWalrusBackend implements WalrusBackend {
+    private network: LocalNetwork;
+    private owner: string;
+    private maxBlobSize: number;
+
+    constructor(network: LocalNetwork, owner: string, options: MemoryWalrusBackendOptions = {}) {
+        this.network = network;
+        this.owner = normalizeSuiAddress(owner);
+        this.maxBlobSize = options.maxBlobSize || DEFAULT_MAX_BLOB_SIZE;
+    }
+
+    async store(filePath: string, options: WalrusStoreOptions): Promise<BlobStoreResult> {
+        const content = fs.readFileSync(filePath);
+        const epochs = options.epochs || 1;
+        if (content.length > this.maxBlobSize) {
+            throw new Error(`Blob of ${content.length} bytes exceeds the maximum blob size of ${this.maxBlobSize} bytes`);
+        }
+        if (epochs > MAX_EPOCHS_AHEAD) {
+            throw new Error(`Cannot store a blob for ${epochs} epochs, the maximum is ${MAX_EPOCHS_AHEAD}`);
+        }
+
+        // Blob IDs are derived from the content, as in Walrus
+        const blobId = createHash('sha256').update(content).digest('base64url').slice(0, 43);
+        const currentEpoch = this.network.getCurrentEpoch();
+        const endEpoch = currentEpoch + epochs;
+
+        const existing = this.getOwnedBlobs(false).find(blob => blob.blobId === blobId);
+        if (existing && existing.storage.endEpoch >= endEpoch) {
+            return {
+                alreadyCertified: {
+                    blobId,
+                    object: existing.id,
+                    endEpoch: existing.storage.endEpoch,
+                },
+            };
+        }
+
+        const encodedLength = encodedSize(content.length);
+        const cost = storageCost(encodedLength, epochs);
+        this.network.debit(this.owner, BigInt(cost), this.network.walCoinType);
+        this.network.putBlobContent(blobId, content);
+
+        const object = this.network.createObject(BLOB_TYPE, { AddressOwner: this.owner }, {
+            blobId,
+            registeredEpoch: currentEpoch,
+            size: content.length,
+            encodingType: 'RS2',
+            certifiedEpoch: currentEpoch,
+            storage: {
+                id: this.network.newObjectId(),
+                startEpoch: currentEpoch,
+                endEpoch,
+                storageSize: encodedLength,
+            },
+            deletable: Boolean(options.deletable),
+            attributes: {},
+        });
+
+        return {
+            newlyCreated: {
+                blobObject: toBlobObject(object),
+                resourceOperation: {
+                    registerFromScratch: {
+                        encodedLength,
+                        epochsAhead: epochs,
+                    },
+                },
+                cost,
+            },
+        };
+    }
+
+    async read(blobId: string, outputPath: string): Promise<void> {
+        // Like Walrus, content is readable by anyone while some blob object keeps it alive
+        const currentEpoch = this.network.getCurrentEpoch();
+        const content = this.network.getBlobContent(blobId);
+        const alive = this.network.getObjectsByType(BLOB_TYPE).some(object =>
+            object.fields.blobId === blobId && object.fields.storage.endEpoch > currentEpoch
+        );
+        if (!content || !alive) {
+            throw new Error(`Blob ${blobId} not found`);
+        }
+        fs.writeFileSync(outputPath, content);
+    }
+
+    async listBlobs(includeExpired: boolean): Promise<BlobObject[]> {
+        return this.getOwnedBlobs(includeExpired);
+    }
+
+    async getBlobAttributes(blobObjectId: string): Promise<BlobAttributes> {
+        return { ...this.requireBlob(blobObjectId).fields.attributes };
+    }
+
+    async setBlobAttributes(blobObjectId: string, attributes: BlobAttributes): Promise<void> {
+        const object = this.requireOwnedBlob(blobObjectId);
+        object.fields.attributes = { ...object.fields.attributes, ...attributes };
+        object.version++;
+    }
+
+    async burnBlobs(params: BurnParams): Promise<void> {
+        let blobObjectIds: string[];
+
+        // Same priority as the CLI: explicit IDs, then all expired, then all
+        if (params.blobObjectIds && params.blobObjectIds.length > 0) {
+            blobObjectIds = params.blobObjectIds;
+        } else if (params.all_expired) {
+            const currentEpoch = this.network.getCurrentEpoch();
+            blobObjectIds = this.getOwnedBlobs(true)
+                .filter(blob => blob.storage.endEpoch <= currentEpoch)
+                .map(blob => blob.id);
+        } else if (params.all) {
+            blobObjectIds = this.getOwnedBlobs(true).map(blob => blob.id);
+        } else {
+            throw new Error('Invalid burn parameters: must specify either blobObjectIds, all_expired, or all');
+        }
+
+        // Check every blob before burning any, like a single transaction
+        const objects = blobObjectIds.map(id => this.requireOwnedBlob(id));
+        for (const object of objects) {
+            this.network.deleteObject(object.objectId);
+        }
+    }
+
+    async extendBlob(blobObjectId: string, epochs: number): Promise<void> {
+        const object = this.requireOwnedBlob(blobObjectId);
+        const storage = object.fields.storage;
+        const currentEpoch = this.network.getCurrentEpoch();
+        if (storage.endEpoch <= currentEpoch) {
+            throw new Error(`Blob object ${blobObjectId} has expired and cannot be extended`);
+        }
+        if (storage.endEpoch + epochs - currentEpoch > MAX_EPOCHS_AHEAD) {
+            throw new Error(`Cannot extend blob object ${blobObjectId} beyond ${MAX_EPOCHS_AHEAD} epochs ahead`);
+        }
+
+        // Extending only pays for the storage, the blob is already written
+        const units = Math.ceil(storage.storageSize / STORAGE_UNIT_SIZE_BYTES);
+        this.network.debit(this.owner, BigInt(units * STORAGE_PRICE_PER_UNIT * epochs), this.network.walCoinType);
+        storage.endEpoch += epochs;
+        object.version++;
+    }
+
+    async fundSharedBlob(sharedBlobObjectId: string, amountFrost: number): Promise<void> {
+        throw new Error('Shared blobs are not supported by the in-memory Walrus backend');
+    }
+
+    async info(): Promise<WalrusInfo> {
+        const exampleSizes = [1024 * 1024, 100 * 1024 * 1024, 1024 * 1024 * 1024];
+        return {
+            epochInfo: {
+                currentEpoch: this.network.getCurrentEpoch(),
+                startOfCurrentEpoch: { DateTime: this.network.getEpochStart().toISOString() },
+                epochDuration: { secs: EPOCH_DURATION_SECONDS, nanos: 0 },
+                maxEpochsAhead: MAX_EPOCHS_AHEAD,
+            },
+            storageInfo: {
+                nShards: 1000,
+                nNodes: 1,
+            },
+            sizeInfo: {
+                storageUnitSize: STORAGE_UNIT_SIZE_BYTES,
+                maxBlobSize: this.maxBlobSize,
+            },
+            priceInfo: {
+                storagePricePerUnitSize: STORAGE_PRICE_PER_UNIT,
+                writePricePerUnitSize: WRITE_PRICE_PER_UNIT,
+                encodingDependentPriceInfo: [{
+                    marginalSize: STORAGE_UNIT_SIZE_BYTES,
+                    metadataPrice: storageCost(ENCODING_OVERHEAD_BYTES, 1),
+                    marginalPrice: storageCost(ENCODING_INFLATION_FACTOR * STORAGE_UNIT_SIZE_BYTES, 1),
+                    exampleBlobs: exampleSizes.map(size => ({
+                        unencodedSize: size,
+                        encodedSize: encodedSize(size),
+                        price: storageCost(encodedSize(size), 1),
+                        encodingType: 'RS2',
+                    })),
+                    encodingType: 'RS2',
+                }],
+            },
+        };
+    }
+
+    private getOwnedBlobs(includeExpired: boolean): BlobObject[] {
+        const currentEpoch = this.network.getCurrentEpoch();
+        return this.network.getOwnedObjects(this.owner, BLOB_TYPE)
+            .map(toBlobObject)
+            .filter(blob => includeExpired || blob.storage.endEpoch > currentEpoch);
+    }
+
+    private requireBlob(blobObjectId: string): LocalObject {
+        const object = this.network.getObject(blobObjectId);
+        if (!object || object.type !== BLOB_TYPE) {
+            throw new Error(`Blob object ${blobObjectId} not found`);
+        }
+        return object;
+    }
+
+    private requireOwnedBlob(blobObjectId: string): LocalObject {
+        const object = this.requireBlob(blobObjectId);
+        if (!('AddressOwner' in object.owner) || object.owner.AddressOwner !== this.owner) {
+            throw new Error(`Blob object ${blobObjectId} is not owned by ${this.owner}`);
+        }
+        return object;
+    }
+}
+
+/**
+ * Size of a blob once erasure coded
+ */
+function encodedSize(unencodedSize: number): number {
+    return Math.ceil(ENCODING_OVERHEAD_BYTES + unencodedSize * ENCODING_INFLATION_FACTOR);
+}
+
+/**
+ * Cost in FROST of writing and storing an encoded blob for a number of epochs
+ */
+function storageCost(encodedLength: number, epochs: number): number {
+    const units = Math.ceil(encodedLength / STORAGE_UNIT_SIZE_BYTES);
+    return units * (WRITE_PRICE_PER_UNIT + STORAGE_PRICE_PER_UNIT * epochs);
+}
+
+function toBlobObject(object: LocalObject): BlobObject {
+    const fields = object.fields;
+    return {
+        id: object.objectId,
+        registeredEpoch: fields.registeredEpoch,
+        blobId: fields.blobId,
+        size: fields.size,
+        encodingType: fields.encodingType,
+        certifiedEpoch: fields.certifiedEpoch,
+        storage: { ...fields.storage },
+        deletable: fields.deletable,
+    };
+}